@@ -0,0 +1,129 @@
+/*
+ * EaseCheck service worker: keeps the app shell and the last division list
+ * available offline, and shows background push alerts for registered watches.
+ * Live progress is never served from here; the page keeps its own last
+ * snapshot and marks it stale.
+ */
+
+const CACHE = 'easecheck-v1';
+const SHELL = ['/', '/manifest.webmanifest', '/icon.svg'];
+// Where the page's fallback notification title is kept, so it survives the worker being stopped
+const FALLBACK_TITLE_KEY = '/__easecheck/fallback-title';
+// Only until a page has sent one in its language
+const DEFAULT_TITLE = '新光醫院到號通知';
+
+self.addEventListener('install', (event) => {
+  event.waitUntil((async () => {
+    const cache = await caches.open(CACHE);
+    await cache.addAll(SHELL).catch(() => undefined);
+    await self.skipWaiting();
+  })());
+});
+
+self.addEventListener('activate', (event) => {
+  event.waitUntil((async () => {
+    const names = await caches.keys();
+    await Promise.all(names.filter((name) => name !== CACHE).map((name) => caches.delete(name)));
+    await self.clients.claim();
+  })());
+});
+
+/** Network first; when offline, the cached copy marked with the same X-Stale header the server uses. */
+async function networkFirst(request, cacheKey) {
+  const cache = await caches.open(CACHE);
+  try {
+    const response = await fetch(request);
+    if (response.ok) await cache.put(cacheKey, response.clone());
+    return response;
+  } catch (err) {
+    const cached = await cache.match(cacheKey);
+    if (!cached) throw err;
+    const headers = new Headers(cached.headers);
+    headers.set('X-Stale', 'true');
+    headers.set('X-Offline', 'true');
+    return new Response(cached.body, { status: cached.status, statusText: cached.statusText, headers });
+  }
+}
+
+/** Cache first, refreshed in the background; for hashed build assets and icons. */
+async function staleWhileRevalidate(event) {
+  const cache = await caches.open(CACHE);
+  const cached = await cache.match(event.request);
+  const refresh = fetch(event.request).then((response) => {
+    if (response.ok) cache.put(event.request, response.clone());
+    return response;
+  });
+  if (cached) {
+    event.waitUntil(refresh.catch(() => undefined));
+    return cached;
+  }
+  return refresh;
+}
+
+self.addEventListener('fetch', (event) => {
+  const request = event.request;
+  const url = new URL(request.url);
+  if (request.method !== 'GET' || url.origin !== self.location.origin) return;
+
+  if (url.pathname.startsWith('/api/')) {
+    if (url.pathname.endsWith('/RegistrationDivision')) event.respondWith(networkFirst(request, request));
+    return;
+  }
+  // Every client-side route is the same SPA shell
+  if (request.mode === 'navigate') {
+    event.respondWith(networkFirst(request, '/'));
+    return;
+  }
+  if (url.pathname.startsWith('/assets/') || SHELL.includes(url.pathname)) {
+    event.respondWith(staleWhileRevalidate(event));
+  }
+});
+
+async function fallbackTitle() {
+  const cached = await (await caches.open(CACHE)).match(FALLBACK_TITLE_KEY);
+  return cached ? cached.text() : DEFAULT_TITLE;
+}
+
+self.addEventListener('message', (event) => {
+  const data = event.data || {};
+  if (data.type !== 'fallback-title' || typeof data.title !== 'string') return;
+  event.waitUntil(caches.open(CACHE).then((cache) => cache.put(FALLBACK_TITLE_KEY, new Response(data.title))));
+});
+
+function readPush(data) {
+  try {
+    return (data && data.json()) || {};
+  } catch (err) {
+    return {};
+  }
+}
+
+self.addEventListener('push', (event) => {
+  event.waitUntil((async () => {
+    const message = readPush(event.data);
+    // Every push must show a notification, or the browser shows its own and may drop the
+    // subscription. An open, visible tab already alerts from its own refresh loop with the
+    // same tag, so then this one just replaces it quietly.
+    const windows = await self.clients.matchAll({ type: 'window', includeUncontrolled: true });
+    const tabAlerts = windows.some((client) => client.visibilityState === 'visible');
+    await self.registration.showNotification(message.title || (await fallbackTitle()), {
+      body: message.body,
+      tag: message.tag,
+      icon: 'https://www.skh.org.tw/skh/images/logo.png',
+      renotify: Boolean(message.tag) && !tabAlerts,
+      silent: tabAlerts,
+      data: { url: message.url || '/' }
+    });
+  })());
+});
+
+self.addEventListener('notificationclick', (event) => {
+  event.notification.close();
+  const url = (event.notification.data && event.notification.data.url) || '/';
+  event.waitUntil((async () => {
+    const windows = await self.clients.matchAll({ type: 'window', includeUncontrolled: true });
+    const existing = windows.find((client) => 'focus' in client);
+    if (existing) return existing.focus();
+    return self.clients.openWindow(url);
+  })());
+});
@@ -0,0 +1,197 @@
+#!/usr/bin/env -S npx tsx
+/**
+ * Terminal client for clinic progress, built on the same hospital adapters
+ * as the server (no EaseCheck server needed).
+ *
+ *   easecheck divisions [--json]
+ *   easecheck progress <DivisionCode> [--json]
+ *   easecheck watch --division <code> --number <n> [--clinic <code>] [--before 5] [--interval 5] [--json]
+ *
+ * Common options: --hospital <id> (default skh). SKH_BASE_URL and
+ * UPSTREAM_MODE=fake work as they do for the server.
+ */
+
+import { parseArgs } from "util";
+import type { ClinicProgress, Division } from "../src/types";
+import { clinicState, progressKey } from "../src/lib/progress";
+import { createAdapterRegistry, DEFAULT_HOSPITAL, type HospitalAdapter } from "../server/adapters";
+import { fakeUpstreamOptionsFromEnv, startFakeUpstream } from "../server/fakeUpstream";
+import { toApiError } from "../server/errors";
+import { loadConfig } from "../server/config";
+
+const USAGE = `Usage:
+  easecheck divisions [--json]
+  easecheck progress <DivisionCode> [--json]
+  easecheck watch --division <code> --number <n> [--clinic <code>] [--before 5] [--interval 5] [--json]
+
+Options:
+  --hospital <id>   Hospital adapter to use (default ${DEFAULT_HOSPITAL})
+  --json            Machine-readable output (JSON lines for watch)`;
+
+const { values: options, positionals } = parseArgs({
+  allowPositionals: true,
+  options: {
+    hospital: { type: "string", default: DEFAULT_HOSPITAL },
+    division: { type: "string" },
+    clinic: { type: "string" },
+    number: { type: "string" },
+    before: { type: "string", default: "5" },
+    interval: { type: "string", default: "5" },
+    json: { type: "boolean", default: false },
+    help: { type: "boolean", short: "h", default: false }
+  }
+});
+
+class UsageError extends Error {}
+
+function positiveInt(value: string | undefined, name: string) {
+  const n = Number(value);
+  if (!value || !Number.isInteger(n) || n <= 0) throw new UsageError(`--${name} must be a positive integer`);
+  return n;
+}
+
+/** Terminal columns taken by `text`; CJK characters are two wide. */
+function displayWidth(text: string) {
+  let width = 0;
+  for (const char of text) width += /[\u1100-\u115f\u2e80-\ua4cf\uac00-\ud7a3\uf900-\ufaff\ufe30-\ufe4f\uff00-\uff60\uffe0-\uffe6]/.test(char) ? 2 : 1;
+  return width;
+}
+
+const pad = (text: string, width: number) => text + " ".repeat(Math.max(0, width - displayWidth(text)));
+
+function table(headers: string[], rows: string[][]) {
+  const widths = headers.map((header, i) => Math.max(displayWidth(header), ...rows.map(row => displayWidth(row[i]))));
+  const line = (cells: string[]) => cells.map((cell, i) => pad(cell, widths[i])).join("  ").trimEnd();
+  return [line(headers), line(widths.map(w => "-".repeat(w))), ...rows.map(line)].join("\n");
+}
+
+const STATE_LABELS = { open: "看診中", paused: "暫停", ended: "已結束" };
+
+function stateLabel(item: ClinicProgress) {
+  const state = clinicState(item);
+  return state === "paused" && item.CurrentVisitSeqDesc ? item.CurrentVisitSeqDesc : STATE_LABELS[state];
+}
+
+function remaining(item: ClinicProgress, number: number) {
+  const current = parseInt(item.CurrentVisitSeq);
+  return isNaN(current) ? null : number - current;
+}
+
+async function createAdapter(): Promise<HospitalAdapter> {
+  const { upstream } = loadConfig();
+  const baseUrl = upstream.mode === "fake" ? await startFakeUpstream(fakeUpstreamOptionsFromEnv()) : upstream.skhBaseUrl;
+  const skh = { baseUrl, userAgent: upstream.userAgent, referer: upstream.referer, origin: upstream.origin, timeoutMs: upstream.timeoutMs };
+  const adapter = createAdapterRegistry({ skh }).get(options.hospital!);
+  if (!adapter) throw new UsageError(`Unknown hospital: ${options.hospital}`);
+  return adapter;
+}
+
+function printDivisions(divisions: Division[]) {
+  if (options.json) return console.log(JSON.stringify(divisions, null, 2));
+  for (const division of divisions) {
+    console.log(`${division.DivisionCode}  ${division.DivisionName}`);
+    division.SubDivisions.forEach((sub, i) => {
+      const branch = i === division.SubDivisions.length - 1 ? "└─" : "├─";
+      console.log(`  ${branch} ${sub.DivisionCode}  ${sub.DivisionName}`);
+    });
+  }
+}
+
+function progressTable(rows: ClinicProgress[], number?: number) {
+  return table(
+    ["診間", "醫師", "時段", "目前", "下一號", "過號", "狀態", ...(number ? ["還有"] : [])],
+    rows.map(item => {
+      const left = number ? remaining(item, number) : null;
+      return [
+        item.ClinicName || item.ClinicCode,
+        item.DoctorName,
+        item.ShiftName,
+        item.CurrentVisitSeq || "-",
+        item.NextVisitSeq || "-",
+        String(item.PassedSeqCount),
+        stateLabel(item),
+        ...(number ? [left === null ? "-" : left > 0 ? `${left} 號` : left === 0 ? "到號" : "已過號"] : [])
+      ];
+    })
+  );
+}
+
+async function watch(adapter: HospitalAdapter) {
+  const division = options.division;
+  if (!division) throw new UsageError("--division is required");
+  const number = positiveInt(options.number, "number");
+  const before = positiveInt(options.before, "before");
+  const intervalMs = positiveInt(options.interval, "interval") * 1000;
+  const interactive = process.stdout.isTTY && !options.json;
+  const alerted = new Set<string>();
+  const emit = (event: Record<string, unknown>) => console.log(JSON.stringify({ ...event, at: new Date().toISOString() }));
+
+  for (;;) {
+    let rows: ClinicProgress[] = [];
+    try {
+      rows = (await adapter.getProgress(division)).filter(item => !options.clinic || item.ClinicCode === options.clinic);
+    } catch (error) {
+      const apiError = toApiError(error);
+      if (options.json) emit({ type: "error", code: apiError.code, message: apiError.message });
+      else console.error(`更新失敗：${apiError.message}`);
+    }
+
+    if (options.json) {
+      emit({ type: "progress", division, rows: rows.map(item => ({ ...item, remaining: remaining(item, number) })) });
+    } else if (rows.length > 0) {
+      if (interactive) process.stdout.write("\x1b[2J\x1b[H");
+      console.log(`${division} · 我的號碼 ${number} · 前 ${before} 號提醒 · ${new Date().toLocaleTimeString("zh-TW", { timeZone: "Asia/Taipei" })}\n`);
+      console.log(progressTable(rows, number));
+    }
+
+    let done = rows.length > 0;
+    for (const item of rows) {
+      const left = remaining(item, number);
+      if (left === null) continue;
+      if (left > 0) done = false;
+      const key = `${progressKey(item)}-${left <= 0 ? "called" : "near"}`;
+      if (left > before || alerted.has(key)) continue;
+      alerted.add(key);
+      if (options.json) emit({ type: left <= 0 ? "called" : "approaching", ClinicCode: item.ClinicCode, DoctorName: item.DoctorName, CurrentVisitSeq: item.CurrentVisitSeq, remaining: left });
+      else process.stdout.write(`\x07${item.ClinicName} ${item.DoctorName}：目前 ${item.CurrentVisitSeq} 號，${left > 0 ? `還有 ${left} 號` : "已到號"}\n`);
+    }
+    // With a clinic chosen there is nothing left to wait for once it reaches the number
+    if (options.clinic && done) return;
+
+    await new Promise(resolve => setTimeout(resolve, intervalMs));
+  }
+}
+
+async function main() {
+  const [command, arg] = positionals;
+  if (options.help || !command) {
+    console.log(USAGE);
+    return;
+  }
+  if (!["divisions", "progress", "watch"].includes(command)) throw new UsageError(`Unknown command: ${command}`);
+
+  const adapter = await createAdapter();
+  if (command === "divisions") {
+    printDivisions(await adapter.listDivisions());
+  } else if (command === "progress") {
+    const division = arg ?? options.division;
+    if (!division) throw new UsageError("progress needs a DivisionCode");
+    const rows = await adapter.getProgress(division);
+    console.log(options.json ? JSON.stringify(rows, null, 2) : progressTable(rows));
+  } else {
+    await watch(adapter);
+  }
+}
+
+main().then(
+  () => process.exit(0),
+  error => {
+    if (error instanceof UsageError) {
+      console.error(`${error.message}\n\n${USAGE}`);
+      process.exit(2);
+    }
+    const apiError = toApiError(error);
+    console.error(`easecheck: ${apiError.code === "INTERNAL_ERROR" ? (error as Error).message : apiError.message}`);
+    process.exit(1);
+  }
+);
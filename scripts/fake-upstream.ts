@@ -0,0 +1,16 @@
+/**
+ * Runs the fake hospital upstream on its own, e.g. to point another EaseCheck
+ * instance at it with SKH_BASE_URL.
+ *
+ *   FAKE_SCENARIO=pause FAKE_PAUSE_AT=10:15 npx tsx scripts/fake-upstream.ts [port]
+ */
+
+import { fakeUpstreamOptionsFromEnv, startFakeUpstream } from "../server/fakeUpstream";
+
+const port = Number(process.argv[2]) || 4000;
+const options = fakeUpstreamOptionsFromEnv();
+
+startFakeUpstream({ ...options, port }).then(baseUrl => {
+  console.log(`Fake upstream (${options.scenario}) listening on ${baseUrl}`);
+  console.log(`Point EaseCheck at it with SKH_BASE_URL=${baseUrl}`);
+});
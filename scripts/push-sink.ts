@@ -0,0 +1,67 @@
+/**
+ * Local stand-in for a browser push service.
+ *
+ * Prints a push subscription whose endpoint points at this process, then
+ * decrypts (RFC 8291, aes128gcm) and logs every message the EaseCheck server
+ * sends to it. Pass the printed subscription to POST /api/watches.
+ *
+ *   npx tsx scripts/push-sink.ts [port]
+ */
+
+import { createDecipheriv, createECDH, hkdfSync, randomBytes } from "crypto";
+import { createServer } from "http";
+
+const port = Number(process.argv[2]) || 4010;
+const receiver = createECDH("prime256v1");
+receiver.generateKeys();
+const authSecret = randomBytes(16);
+
+const subscription = {
+  endpoint: `http://localhost:${port}/push/${randomBytes(8).toString("hex")}`,
+  keys: {
+    p256dh: receiver.getPublicKey().toString("base64url"),
+    auth: authSecret.toString("base64url")
+  }
+};
+
+function decrypt(body: Buffer) {
+  const salt = body.subarray(0, 16);
+  const idLength = body.readUInt8(20);
+  const senderPublicKey = body.subarray(21, 21 + idLength);
+  const ciphertext = body.subarray(21 + idLength);
+
+  const sharedSecret = receiver.computeSecret(senderPublicKey);
+  const keyInfo = Buffer.concat([Buffer.from("WebPush: info\0"), receiver.getPublicKey(), senderPublicKey]);
+  const ikm = Buffer.from(hkdfSync("sha256", sharedSecret, authSecret, keyInfo, 32));
+  const cek = Buffer.from(hkdfSync("sha256", ikm, salt, Buffer.from("Content-Encoding: aes128gcm\0"), 16));
+  const nonce = Buffer.from(hkdfSync("sha256", ikm, salt, Buffer.from("Content-Encoding: nonce\0"), 12));
+
+  const decipher = createDecipheriv("aes-128-gcm", cek, nonce);
+  decipher.setAuthTag(ciphertext.subarray(ciphertext.length - 16));
+  const padded = Buffer.concat([decipher.update(ciphertext.subarray(0, ciphertext.length - 16)), decipher.final()]);
+  // Single record: the payload is followed by a 0x02 delimiter and zero padding.
+  let end = padded.length - 1;
+  while (end > 0 && padded[end] === 0) end--;
+  return padded.subarray(0, end).toString("utf8");
+}
+
+createServer((req, res) => {
+  const chunks: Buffer[] = [];
+  req.on("data", chunk => chunks.push(chunk));
+  req.on("end", () => {
+    const body = Buffer.concat(chunks);
+    console.log(`\n${new Date().toISOString()} ${req.method} ${req.url}`);
+    console.log(`  Authorization: ${req.headers.authorization?.slice(0, 40)}...`);
+    console.log(`  TTL: ${req.headers.ttl}  Content-Encoding: ${req.headers["content-encoding"]}`);
+    try {
+      console.log(`  Payload: ${decrypt(body)}`);
+    } catch (error) {
+      console.log(`  Could not decrypt ${body.length} bytes:`, error);
+    }
+    res.writeHead(201).end();
+  });
+}).listen(port, () => {
+  console.log(`Push sink listening on http://localhost:${port}`);
+  console.log("Subscription:");
+  console.log(JSON.stringify(subscription, null, 2));
+});
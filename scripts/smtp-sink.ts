@@ -0,0 +1,92 @@
+/**
+ * Local stand-in for an SMTP server.
+ *
+ * Accepts every message (no TLS, no auth) and prints its sender, recipients,
+ * decoded subject and text body. Point the EaseCheck server at it with
+ * SMTP_URL=smtp://localhost:2525 to try email channels.
+ *
+ *   npx tsx scripts/smtp-sink.ts [port]
+ */
+
+import { createServer, type Socket } from "net";
+
+const port = Number(process.argv[2]) || 2525;
+
+/** RFC 2047 encoded words such as =?UTF-8?B?...?= in headers. */
+function decodeHeader(value: string) {
+  return value.replace(/=\?([^?]+)\?([BQ])\?([^?]*)\?=/gi, (_match, _charset, encoding: string, text: string) =>
+    encoding.toUpperCase() === "B"
+      ? Buffer.from(text, "base64").toString("utf8")
+      : decodeQuotedPrintable(text.replace(/_/g, " "))
+  );
+}
+
+function decodeQuotedPrintable(text: string) {
+  const bytes = text
+    .replace(/=\r?\n/g, "")
+    .replace(/=([0-9A-F]{2})/gi, (_match, hex: string) => String.fromCharCode(parseInt(hex, 16)));
+  return Buffer.from(bytes, "latin1").toString("utf8");
+}
+
+function printMessage(from: string, to: string[], raw: string) {
+  const [head, ...rest] = raw.split(/\r?\n\r?\n/);
+  const headers = new Map<string, string>();
+  for (const line of head.replace(/\r?\n[ \t]+/g, " ").split(/\r?\n/)) {
+    const separator = line.indexOf(":");
+    if (separator > 0) headers.set(line.slice(0, separator).toLowerCase(), line.slice(separator + 1).trim());
+  }
+  const body = rest.join("\n\n");
+  const encoding = headers.get("content-transfer-encoding")?.toLowerCase();
+  const text = encoding === "base64"
+    ? Buffer.from(body.replace(/\s+/g, ""), "base64").toString("utf8")
+    : encoding === "quoted-printable" ? decodeQuotedPrintable(body) : body;
+
+  console.log(`\n[${new Date().toISOString()}] ${from} -> ${to.join(", ")}`);
+  console.log(`Subject: ${decodeHeader(headers.get("subject") ?? "")}`);
+  console.log(text.trim());
+}
+
+function handle(socket: Socket) {
+  let buffer = "";
+  let from = "";
+  let to: string[] = [];
+  let data: string[] | null = null;
+  const reply = (line: string) => socket.write(`${line}\r\n`);
+
+  reply("220 easecheck-smtp-sink ready");
+  socket.on("data", chunk => {
+    buffer += chunk.toString("utf8");
+    let newline: number;
+    while ((newline = buffer.indexOf("\r\n")) >= 0) {
+      const line = buffer.slice(0, newline);
+      buffer = buffer.slice(newline + 2);
+
+      if (data) {
+        if (line === ".") {
+          printMessage(from, to, data.join("\r\n"));
+          data = null;
+          reply("250 OK: queued");
+        } else {
+          data.push(line.startsWith("..") ? line.slice(1) : line);
+        }
+        continue;
+      }
+
+      const command = line.slice(0, 4).toUpperCase();
+      if (command === "EHLO" || command === "HELO") reply("250 easecheck-smtp-sink");
+      else if (command === "MAIL") { from = line.replace(/^MAIL FROM:\s*/i, ""); to = []; reply("250 OK"); }
+      else if (command === "RCPT") { to.push(line.replace(/^RCPT TO:\s*/i, "")); reply("250 OK"); }
+      else if (command === "DATA") { data = []; reply("354 End data with <CR><LF>.<CR><LF>"); }
+      else if (command === "RSET") { from = ""; to = []; reply("250 OK"); }
+      else if (command === "NOOP") reply("250 OK");
+      else if (command === "QUIT") { reply("221 Bye"); socket.end(); }
+      else reply("502 Command not implemented");
+    }
+  });
+  socket.on("error", () => socket.destroy());
+}
+
+createServer(handle).listen(port, () => {
+  console.log(`SMTP sink listening on smtp://localhost:${port}`);
+  console.log(`Start EaseCheck with SMTP_URL=smtp://localhost:${port}`);
+});
@@ -1,106 +1,198 @@
 import express from "express";
+import path from "path";
 import { createServer as createViteServer } from "vite";
-import fetch from "node-fetch";
-import { randomUUID } from "crypto";
+import { createPollingCache } from "./server/progressCache";
+import { openDatabase } from "./server/db";
+import { createHistoryStore } from "./server/history";
+import { createDivisionPoller } from "./server/divisionPoller";
+import { createWatchRegistry } from "./server/watchRegistry";
+import { createPushSender } from "./server/webPush";
+import { createTargetGuard } from "./server/notifyTargets";
+import { createWatchNotifier } from "./server/watchNotifier";
+import { createNotifier, loadWebhookSecret } from "./server/notifiers";
+import { createAdapterRegistry, DEFAULT_RESILIENCE, parseDivisionKey } from "./server/adapters";
+import { createHospitalRouter } from "./server/hospitalRoutes";
+import { createDoctorIndex } from "./server/doctorIndex";
+import { createMetrics } from "./server/metrics";
+import { createHealthChecks } from "./server/health";
+import { createRateLimiter } from "./server/rateLimit";
+import { createAccessControl } from "./server/access";
+import { createUpstreamRecorder } from "./server/upstreamRecorder";
+import { fakeUpstreamOptionsFromEnv, startFakeUpstream } from "./server/fakeUpstream";
+import { invalidParameter, notFound, sendError } from "./server/errors";
+import { ConfigError, loadConfig, redactConfig } from "./server/config";
+import { log, setLogLevel } from "./server/logger";
 
 async function startServer() {
+  const config = loadConfig();
+  setLogLevel(config.logLevel);
   const app = express();
-  const PORT = 3000;
+  // Behind a reverse proxy, e.g. TRUST_PROXY=1, so rate limits see the client address
+  if (config.trustProxy !== false) app.set("trust proxy", config.trustProxy);
+  app.use(express.json());
 
-  let cachedCookies: string[] = [];
+  const metrics = createMetrics();
+  app.use("/api", metrics.httpMiddleware);
 
-  async function getCookies() {
-    if (cachedCookies.length > 0) return cachedCookies.join("; ");
+  // Limits come before the key check so keys cannot be guessed at full speed
+  const rateLimiter = createRateLimiter({ ...config.rateLimit, onLimited: metrics.rateLimited });
+  app.use("/api", rateLimiter.middleware);
+  const access = createAccessControl(config.apiKeys);
+  app.use("/api", access.middleware);
+  if (access.enabled) log.info("API keys required for /api and /metrics");
+
+  const db = openDatabase(config.historyDbPath);
+  const history = createHistoryStore(db);
+
+  // UPSTREAM_MODE: live (default), record (also write fixtures) or fake (bundled stand-in upstream)
+  const { upstream } = config;
+  let skhBaseUrl = upstream.skhBaseUrl;
+  if (upstream.mode === "fake") {
+    const fakeOptions = fakeUpstreamOptionsFromEnv();
+    skhBaseUrl = await startFakeUpstream(fakeOptions);
+    log.info(`Using fake upstream (${fakeOptions.scenario}) at ${skhBaseUrl}`);
+  }
+  const recorder = upstream.mode === "record" ? createUpstreamRecorder(upstream.recordDir) : undefined;
+  if (recorder) log.info(`Recording upstream responses to ${upstream.recordDir}`);
+  const adapters = createAdapterRegistry({
+    skh: {
+      baseUrl: skhBaseUrl,
+      userAgent: upstream.userAgent,
+      referer: upstream.referer,
+      origin: upstream.origin,
+      timeoutMs: upstream.timeoutMs
+    },
+    recorder,
+    metrics: metrics.upstream,
+    resilience: {
+      ...DEFAULT_RESILIENCE,
+      retries: upstream.retries,
+      breakerThreshold: upstream.breakerThreshold,
+      breakerCooldownMs: upstream.breakerCooldownMs
+    }
+  });
+  // How long last-known-good data may stand in for a failing upstream
+  const maxStaleMs = config.cache.staleMaxAgeMs;
+
+  async function fetchProgressFromHospital(key: string) {
+    const { hospitalId, divisionCode } = parseDivisionKey(key);
+    const adapter = adapters.get(hospitalId);
+    if (!adapter) throw new Error(`Unknown hospital: ${hospitalId}`);
+    const data = await adapter.getProgress(divisionCode);
     try {
-      const response = await fetch("https://www.skh.org.tw/skh/index.html", {
-        headers: {
-          "User-Agent": "Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/122.0.0.0 Safari/537.36"
-        }
-      });
-      const setCookie = response.headers.raw()["set-cookie"];
-      if (setCookie) {
-        cachedCookies = setCookie.map(c => c.split(";")[0]);
-      }
-      return cachedCookies.join("; ");
+      history.record(hospitalId, data);
     } catch (e) {
-      console.error("Failed to fetch initial cookies", e);
-      return "";
+      log.error("Failed to record progress history", e);
     }
+    return data;
   }
 
-  // Proxy for RegistrationDivision
-  app.get("/api/RegistrationDivision", async (req, res) => {
-    try {
-      const cookies = await getCookies();
-      const requestId = randomUUID();
-      const xDate = new Date().toISOString();
-      const response = await fetch("https://www.skh.org.tw/regis_api/RegistrationDivision", {
-        method: "GET",
-        headers: {
-          "User-Agent": "Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/122.0.0.0 Safari/537.36",
-          "Accept": "application/json, text/plain, */*",
-          "Accept-Language": "zh-TW,zh;q=0.9,en-US;q=0.8,en;q=0.7",
-          "Accept-Encoding": "gzip, deflate, br",
-          "Content-Type": "application/json",
-          "X-Request-ID": requestId,
-          "X-Date": xDate,
-          "X-Requested-With": "XMLHttpRequest",
-          "Referer": "https://www.skh.org.tw/registration/registration.aspx",
-          "Origin": "https://www.skh.org.tw",
-          "Connection": "keep-alive",
-          "Cookie": cookies
-        }
-      });
-      if (!response.ok) {
-        const errBody = await response.text();
-        console.error(`Hospital API error (Divisions): ${response.status} - ${errBody}`);
-        if (response.status === 400 || response.status === 401) cachedCookies = [];
-        return res.status(response.status).json({ error: "Hospital API returned error", details: errBody });
-      }
-      const data = await response.json();
-      res.json(data);
-    } catch (error) {
-      console.error("Proxy error:", error);
-      res.status(500).json({ error: "Failed to fetch divisions" });
-    }
+  // Every client shares one upstream poll per hospital division per interval, and no
+  // configuration or client refresh rate takes that interval below MIN_REFRESH_MS
+  const progressCache = createPollingCache(fetchProgressFromHospital, {
+    ttlMs: Math.max(config.cache.minRefreshMs, config.cache.progressTtlMs),
+    maxStaleMs,
+    onLookup: metrics.cache("progress")
   });
+  const divisionsCache = createPollingCache(async (hospitalId: string) => {
+    const adapter = adapters.get(hospitalId);
+    if (!adapter) throw new Error(`Unknown hospital: ${hospitalId}`);
+    return adapter.listDivisions();
+  }, { ttlMs: config.cache.divisionsTtlMs, maxStaleMs: 24 * 60 * 60 * 1000, onLookup: metrics.cache("divisions") });
 
-  // Proxy for AppointmentProgress
-  app.get("/api/AppointmentProgress", async (req, res) => {
-    const { DivisionCode } = req.query;
-    try {
-      const cookies = await getCookies();
-      const requestId = randomUUID();
-      const xDate = new Date().toISOString();
-      const response = await fetch(`https://www.skh.org.tw/regis_api/AppointmentProgress?DivisionCode=${DivisionCode}`, {
-        method: "GET",
-        headers: {
-          "User-Agent": "Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/122.0.0.0 Safari/537.36",
-          "Accept": "application/json, text/plain, */*",
-          "Accept-Language": "zh-TW,zh;q=0.9,en-US;q=0.8,en;q=0.7",
-          "Accept-Encoding": "gzip, deflate, br",
-          "Content-Type": "application/json",
-          "X-Request-ID": requestId,
-          "X-Date": xDate,
-          "X-Requested-With": "XMLHttpRequest",
-          "Referer": "https://www.skh.org.tw/registration/registration.aspx",
-          "Origin": "https://www.skh.org.tw",
-          "Connection": "keep-alive",
-          "Cookie": cookies
-        }
-      });
-      if (!response.ok) {
-        const errBody = await response.text();
-        console.error(`Hospital API error (Progress): ${response.status} - ${errBody}`);
-        if (response.status === 400 || response.status === 401) cachedCookies = [];
-        return res.status(response.status).json({ error: "Hospital API returned error", details: errBody });
-      }
-      const data = await response.json();
-      res.json(data);
-    } catch (error) {
-      console.error("Proxy error:", error);
-      res.status(500).json({ error: "Failed to fetch progress" });
-    }
+  // Doctor search sweeps every division in the background
+  const doctorIndex = createDoctorIndex({ adapters, progressCache, divisionsCache }, config.searchIndex);
+  doctorIndex.start();
+
+  const divisionPoller = createDivisionPoller(progressCache, { intervalMs: progressCache.ttlMs });
+
+  // Background alerts: watches survive the browser tab and are checked on every poll.
+  // Email is only offered when SMTP_URL is set.
+  const watchRegistry = createWatchRegistry(db);
+  const notifyTargets = createTargetGuard(config.notifications.allowedHosts);
+  const pushSender = createPushSender(db, config.push, notifyTargets);
+  const notifier = createNotifier({
+    targets: notifyTargets,
+    push: pushSender,
+    webhookSecret: loadWebhookSecret(db, config.webhookSecret),
+    email: config.email.smtpUrl ? { url: config.email.smtpUrl, from: config.email.from } : undefined
+  });
+  const watchNotifier = createWatchNotifier({ registry: watchRegistry, poller: divisionPoller, notifier, adapters });
+  const WATCH_MAX_AGE_MS = 18 * 60 * 60 * 1000;
+  // Hourly housekeeping: expired watches, and history's change tracking for past days
+  setInterval(() => {
+    if (watchRegistry.prune(WATCH_MAX_AGE_MS) > 0) watchNotifier.sync();
+    history.forgetPastDates();
+  }, 60 * 60 * 1000).unref();
+
+  metrics.observe({
+    activeWatchers: divisionPoller.listenerCount,
+    registeredWatches: watchRegistry.count,
+    polledDivisions: () => divisionPoller.watchedDivisions().length,
+    circuits: adapters.circuits
+  });
+
+  // Container probes and Prometheus scrapes live outside /api
+  const healthChecks = createHealthChecks({ db, adapters, divisionsCache });
+  app.get("/healthz", (req, res) => {
+    const health = healthChecks.health();
+    res.status(health.status === "ok" ? 200 : 503).json(health);
+  });
+  app.get("/readyz", async (req, res) => {
+    const readiness = await healthChecks.readiness();
+    res.status(readiness.status === "ready" ? 200 : 503).json(readiness);
+  });
+  app.get("/metrics", access.middleware, async (req, res) => {
+    res.set("Content-Type", metrics.contentType).send(await metrics.render());
+  });
+
+  app.get("/api/hospitals", (req, res) => {
+    res.json(adapters.list());
+  });
+
+  // Effective configuration without secrets; the web client takes its refresh choices from `client`
+  const publicConfig = redactConfig(config);
+  app.get("/api/config", (req, res) => {
+    res.json(publicConfig);
+  });
+
+  app.get("/api/push/public-key", (req, res) => {
+    res.json({ publicKey: pushSender.publicKey });
+  });
+
+  app.get("/api/notifications/channels", (req, res) => {
+    res.json((["push", "webhook", "email"] as const).filter(notifier.supports));
+  });
+
+  app.delete("/api/watches/:id", (req, res) => {
+    if (!watchNotifier.remove(req.params.id)) return sendError(res, notFound("Watch not found"));
+    res.status(204).end();
+  });
+
+  // `/api/...` keeps serving the default hospital; `/api/:hospital/...` picks one explicitly
+  const hospitalRouter = createHospitalRouter({
+    adapters,
+    progressCache,
+    divisionsCache,
+    poller: divisionPoller,
+    doctorIndex,
+    history,
+    watchRegistry,
+    notifier,
+    syncWatches: watchNotifier.sync,
+    watchLimits: config.watches,
+    batch: config.progressBatch
+  });
+  app.use("/api", hospitalRouter);
+  // Only registered hospital ids select a hospital; any other path is left to the 404 below
+  app.use("/api/:hospital", (req, res, next) => (adapters.get(req.params.hospital) ? hospitalRouter(req, res, next) : next()));
+  app.use("/api", (req, res) => sendError(res, notFound(`No such endpoint: ${req.method} ${req.originalUrl.split("?")[0]}`)));
+
+  // Malformed JSON bodies and anything else that escaped a route still get the envelope
+  app.use("/api", (error: unknown, req: express.Request, res: express.Response, next: express.NextFunction) => {
+    if (res.headersSent) return next(error);
+    const isBodyParseError = (error as { type?: string } | null)?.type === "entity.parse.failed";
+    sendError(res, isBodyParseError ? invalidParameter("Request body is not valid JSON") : error);
   });
 
   // Vite middleware for development
@@ -112,11 +204,22 @@ async function startServer() {
     app.use(vite.middlewares);
   } else {
     app.use(express.static("dist"));
+    // Client-side routes such as /division/:code are all served by the SPA; a missing
+    // build asset or other file (a last segment with an extension) stays a 404
+    app.get(/^\/(?!api(\/|$)|assets\/)(?:.*\/)?[^/.]*$/, (req, res) => {
+      res.sendFile(path.resolve("dist/index.html"));
+    });
   }
 
-  app.listen(PORT, "0.0.0.0", () => {
-    console.log(`Server running on http://localhost:${PORT}`);
+  await new Promise<void>((resolve, reject) => {
+    app.listen(config.port, config.host, resolve).on("error", reject);
   });
+  log.info(`Server running on http://localhost:${config.port}`);
 }
 
-startServer();
+// Bad settings, the database, the fake upstream, Vite or the port: any of them ends the process
+startServer().catch(error => {
+  if (error instanceof ConfigError) console.error(error.message);
+  else log.error("Server failed to start:", error);
+  process.exit(1);
+});
@@ -0,0 +1,61 @@
+/**
+ * Optional shared-secret access for deployments that are not public. With
+ * no keys configured every request passes. Otherwise a request must carry
+ * one of the keys as `X-API-Key`, `Authorization: Bearer <key>`, a `key`
+ * query parameter (EventSource cannot set headers) or the `easecheck_key`
+ * cookie the web client sets when it is opened with `?key=`.
+ */
+
+import type { NextFunction, Request, Response } from "express";
+import { createHash, timingSafeEqual } from "crypto";
+import { ApiError, sendError } from "./errors";
+
+const ACCESS_COOKIE = "easecheck_key";
+
+const unauthorized = () => new ApiError("UNAUTHORIZED", "A valid API key is required", 401);
+
+// Compare digests so neither the length nor the content of a key leaks through timing
+const digest = (value: string) => createHash("sha256").update(value).digest();
+
+function cookieValue(header: string | undefined, name: string) {
+  for (const part of (header ?? "").split(";")) {
+    const [key, ...rest] = part.trim().split("=");
+    if (key === name) {
+      try {
+        return decodeURIComponent(rest.join("="));
+      } catch {
+        return undefined;
+      }
+    }
+  }
+  return undefined;
+}
+
+function presentedKey(req: Request) {
+  const bearer = /^Bearer\s+(.+)$/i.exec(req.get("Authorization") ?? "")?.[1];
+  const query = typeof req.query.key === "string" ? req.query.key : undefined;
+  return req.get("X-API-Key") ?? bearer ?? query ?? cookieValue(req.get("Cookie"), ACCESS_COOKIE);
+}
+
+export function createAccessControl(keys: string[]) {
+  const digests = keys.filter(Boolean).map(digest);
+  const enabled = digests.length > 0;
+
+  function isAllowed(req: Request) {
+    if (!enabled) return true;
+    const key = presentedKey(req);
+    if (!key) return false;
+    const presented = digest(key);
+    // Check every key rather than stopping at the first match
+    return digests.reduce((found, expected) => timingSafeEqual(presented, expected) || found, false);
+  }
+
+  function middleware(req: Request, res: Response, next: NextFunction) {
+    if (isAllowed(req)) return next();
+    sendError(res, unauthorized());
+  }
+
+  return { enabled, middleware };
+}
+
+export type AccessControl = ReturnType<typeof createAccessControl>;
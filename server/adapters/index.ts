@@ -0,0 +1,45 @@
+import type { HospitalAdapter } from "./types";
+import { createSkhAdapter, type SkhConnection } from "./skh";
+import type { UpstreamRecorder } from "../upstreamRecorder";
+import type { UpstreamMetrics } from "../metrics";
+import { DEFAULT_RESILIENCE, withResilience, type ResilienceOptions, type ResilientAdapter } from "./resilient";
+
+export { UpstreamError } from "./types";
+export type { HospitalAdapter } from "./types";
+export { DEFAULT_RESILIENCE } from "./resilient";
+
+export const DEFAULT_HOSPITAL = "skh";
+
+export interface AdapterRegistryOptions {
+  /** Overrides how SKH is reached, e.g. to point at the fake upstream. */
+  skh?: SkhConnection;
+  recorder?: UpstreamRecorder;
+  resilience?: ResilienceOptions;
+  /** Per-hospital upstream metrics hooks. */
+  metrics?: (hospitalId: string) => UpstreamMetrics;
+}
+
+/** All hospitals this deployment can monitor, keyed by their URL id. */
+export function createAdapterRegistry({ skh, recorder, resilience = DEFAULT_RESILIENCE, metrics }: AdapterRegistryOptions = {}) {
+  const adapters = new Map<string, ResilientAdapter>();
+  const register = (adapter: HospitalAdapter) => adapters.set(adapter.info.id, withResilience(adapter, resilience));
+
+  register(createSkhAdapter({ ...skh, recorder, metrics: metrics?.("skh") }));
+
+  return {
+    get: (id: string) => adapters.get(id),
+    list: () => [...adapters.values()].map(adapter => adapter.info),
+    /** Circuit state per hospital id, e.g. for health checks. */
+    circuits: () => Object.fromEntries([...adapters].map(([id, adapter]) => [id, adapter.breaker.state()]))
+  };
+}
+
+export type AdapterRegistry = ReturnType<typeof createAdapterRegistry>;
+
+/** Cache and poller key for one division at one hospital. */
+export const divisionKey = (hospitalId: string, divisionCode: string) => `${hospitalId}:${divisionCode}`;
+
+export function parseDivisionKey(key: string) {
+  const separator = key.indexOf(":");
+  return { hospitalId: key.slice(0, separator), divisionCode: key.slice(separator + 1) };
+}
@@ -0,0 +1,73 @@
+/**
+ * Wraps any HospitalAdapter with jittered retries and a per-hospital circuit
+ * breaker, so a hiccup is retried quietly and an outage is not hammered.
+ */
+
+import { createCircuitBreaker, retry, type CircuitBreaker } from "../resilience";
+import { type HospitalAdapter, UpstreamError } from "./types";
+
+export interface ResilienceOptions {
+  /** Extra attempts after the first failure. */
+  retries: number;
+  retryBaseDelayMs: number;
+  retryMaxDelayMs: number;
+  /** Consecutive failed calls (after retries) that open the circuit. */
+  breakerThreshold: number;
+  breakerCooldownMs: number;
+}
+
+export const DEFAULT_RESILIENCE: ResilienceOptions = {
+  retries: 2,
+  retryBaseDelayMs: 250,
+  retryMaxDelayMs: 2000,
+  breakerThreshold: 5,
+  breakerCooldownMs: 30 * 1000
+};
+
+/** SKH answers 400 for an expired cookie, but also for a code it does not know. */
+const isSessionRejection = (error: unknown) =>
+  error instanceof UpstreamError && (error.status === 400 || error.status === 401);
+
+/**
+ * Network failures and overload are worth a few more tries. A session rejection
+ * gets exactly one: the adapter has dropped the rejected session by then, so the
+ * retry runs with a fresh one, and a second rejection is about the request itself.
+ */
+function isTransient(error: unknown, attempt: number) {
+  if (isSessionRejection(error)) return attempt === 0;
+  if (error instanceof UpstreamError) return error.status >= 500 || error.status === 429;
+  return (error as Error | null)?.name === "FetchError";
+}
+
+/** Other 4xx answers come from the request, not from an unhealthy upstream, so they do not open the circuit. */
+function isUpstreamFailure(error: unknown) {
+  if (error instanceof UpstreamError) return error.status >= 500 || error.status === 429;
+  return true;
+}
+
+export interface ResilientAdapter extends HospitalAdapter {
+  breaker: CircuitBreaker;
+}
+
+export function withResilience(adapter: HospitalAdapter, options: ResilienceOptions = DEFAULT_RESILIENCE): ResilientAdapter {
+  const breaker = createCircuitBreaker({
+    failureThreshold: options.breakerThreshold,
+    cooldownMs: options.breakerCooldownMs,
+    isFailure: isUpstreamFailure
+  });
+  const guarded = <T>(fn: () => Promise<T>) => breaker.call(() => retry(fn, {
+    retries: options.retries,
+    baseDelayMs: options.retryBaseDelayMs,
+    maxDelayMs: options.retryMaxDelayMs,
+    shouldRetry: isTransient
+  }));
+
+  return {
+    info: adapter.info,
+    listDivisions: () => guarded(() => adapter.listDivisions()),
+    getProgress: divisionCode => guarded(() => adapter.getProgress(divisionCode)),
+    resetSession: () => adapter.resetSession(),
+    hasSession: () => adapter.hasSession(),
+    breaker
+  };
+}
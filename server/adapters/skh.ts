@@ -0,0 +1,253 @@
+/**
+ * Shin Kong Wu Ho-Su Memorial Hospital (新光醫院) regis_api adapter.
+ */
+
+import fetch from "node-fetch";
+import { randomUUID } from "crypto";
+import type { ClinicProgress, Division } from "../../src/types";
+import { type HospitalAdapter, UpstreamError, UpstreamPayloadError } from "./types";
+import { array, nullable, numeric, object, string, stringOrNumber, validate, type Check } from "../validation";
+import type { UpstreamRecorder } from "../upstreamRecorder";
+import type { UpstreamMetrics } from "../metrics";
+import { singleFlight } from "../resilience";
+import { log } from "../logger";
+
+export const SKH_BASE_URL = "https://www.skh.org.tw";
+export const SKH_USER_AGENT = "Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/122.0.0.0 Safari/537.36";
+
+interface SkhSubDivision {
+  DivisionCode: string;
+  DivisionName: string;
+  NetworkDivisionDesc: string | null;
+}
+
+interface SkhDivision {
+  DivisionCode: string;
+  DivisionName: string;
+  SubDivisions: SkhSubDivision[] | null;
+}
+
+interface SkhClinicProgress {
+  VisitDate: string;
+  ShiftCode: string;
+  ShiftName: string | null;
+  DivisionCode: string;
+  DivisionName: string | null;
+  ClinicCode: string;
+  ClinicName: string | null;
+  DoctorEmpNo: string | number | null;
+  DoctorName: string | null;
+  ClinicVisitState: string | number;
+  ShiftBeginTimeStamp: string | null;
+  ShiftEndTimeStamp: string | null;
+  PassedSeqCount: number | string | null;
+  CurrentVisitSeq: string | number | null;
+  CurrentVisitSeqCode: string | number | null;
+  CurrentVisitSeqDesc: string | null;
+  NextVisitSeq: string | number | null;
+  NextVisitSeqCode: string | number | null;
+  NextVisitSeqDesc: string | null;
+  CallSequenceCode: string | number | null;
+  CheckInCount: string | number | null;
+}
+
+const subDivisionSchema = object({
+  DivisionCode: string,
+  DivisionName: string,
+  NetworkDivisionDesc: nullable(string)
+});
+
+const divisionsSchema = array(object({
+  DivisionCode: string,
+  DivisionName: string,
+  SubDivisions: nullable(array(subDivisionSchema))
+}));
+
+// Display-only fields may be null; the ones we compute with may not.
+const progressSchema = array(object({
+  VisitDate: string,
+  ShiftCode: string,
+  ShiftName: nullable(string),
+  DivisionCode: string,
+  DivisionName: nullable(string),
+  ClinicCode: string,
+  ClinicName: nullable(string),
+  DoctorEmpNo: nullable(stringOrNumber),
+  DoctorName: nullable(string),
+  ClinicVisitState: stringOrNumber,
+  ShiftBeginTimeStamp: nullable(string),
+  ShiftEndTimeStamp: nullable(string),
+  PassedSeqCount: nullable(numeric),
+  CurrentVisitSeq: nullable(stringOrNumber),
+  CurrentVisitSeqCode: nullable(stringOrNumber),
+  CurrentVisitSeqDesc: nullable(string),
+  NextVisitSeq: nullable(stringOrNumber),
+  NextVisitSeqCode: nullable(stringOrNumber),
+  NextVisitSeqDesc: nullable(string),
+  CallSequenceCode: nullable(stringOrNumber),
+  CheckInCount: nullable(numeric)
+}));
+
+function assertPayload<T>(endpoint: string, data: unknown, schema: Check): T {
+  const issues = validate(data, schema);
+  if (issues.length > 0) {
+    log.error(`Hospital API payload invalid (${endpoint}):`, issues.slice(0, 10));
+    throw new UpstreamPayloadError(endpoint, issues);
+  }
+  return data as T;
+}
+
+const text = (value: unknown) => (value === null || value === undefined ? "" : String(value));
+
+function toDivision(raw: SkhDivision): Division {
+  return {
+    DivisionCode: raw.DivisionCode,
+    DivisionName: raw.DivisionName,
+    SubDivisions: (raw.SubDivisions ?? []).map(sub => ({
+      DivisionCode: sub.DivisionCode,
+      DivisionName: sub.DivisionName,
+      NetworkDivisionDesc: sub.NetworkDivisionDesc ?? null
+    }))
+  };
+}
+
+function toClinicProgress(raw: SkhClinicProgress): ClinicProgress {
+  return {
+    VisitDate: raw.VisitDate,
+    ShiftCode: raw.ShiftCode,
+    ShiftName: text(raw.ShiftName),
+    DivisionCode: raw.DivisionCode,
+    DivisionName: text(raw.DivisionName),
+    ClinicCode: raw.ClinicCode,
+    ClinicName: text(raw.ClinicName),
+    DoctorEmpNo: text(raw.DoctorEmpNo),
+    DoctorName: text(raw.DoctorName),
+    ClinicVisitState: text(raw.ClinicVisitState),
+    ShiftBeginTimeStamp: text(raw.ShiftBeginTimeStamp),
+    ShiftEndTimeStamp: text(raw.ShiftEndTimeStamp),
+    PassedSeqCount: Number(raw.PassedSeqCount) || 0,
+    CurrentVisitSeq: text(raw.CurrentVisitSeq),
+    CurrentVisitSeqCode: text(raw.CurrentVisitSeqCode),
+    CurrentVisitSeqDesc: text(raw.CurrentVisitSeqDesc),
+    NextVisitSeq: text(raw.NextVisitSeq),
+    NextVisitSeqCode: text(raw.NextVisitSeqCode),
+    NextVisitSeqDesc: text(raw.NextVisitSeqDesc),
+    CallSequenceCode: text(raw.CallSequenceCode),
+    CheckInCount: text(raw.CheckInCount)
+  };
+}
+
+/** Where and how the adapter reaches the hospital; every field has a working default. */
+export interface SkhConnection {
+  baseUrl?: string;
+  userAgent?: string;
+  /** Defaults to the registration page under `baseUrl`. */
+  referer?: string;
+  /** Defaults to `baseUrl`. */
+  origin?: string;
+  /** Per request, including reading the body; 0 waits forever. */
+  timeoutMs?: number;
+}
+
+export interface SkhAdapterOptions extends SkhConnection {
+  /** Receives every successful raw response, e.g. to write fixtures. */
+  recorder?: UpstreamRecorder;
+  metrics?: UpstreamMetrics;
+}
+
+export function createSkhAdapter({
+  baseUrl = SKH_BASE_URL,
+  userAgent = SKH_USER_AGENT,
+  referer = `${baseUrl}/registration/registration.aspx`,
+  origin = baseUrl,
+  timeoutMs = 15 * 1000,
+  recorder,
+  metrics
+}: SkhAdapterOptions = {}): HospitalAdapter {
+  let cachedCookies: string[] = [];
+
+  // Concurrent requests that find no session share one login instead of racing.
+  const login = singleFlight(async () => {
+    metrics?.sessionRefreshed();
+    try {
+      const response = await fetch(`${baseUrl}/skh/index.html`, {
+        headers: { "User-Agent": userAgent },
+        timeout: timeoutMs
+      });
+      const setCookie = response.headers.raw()["set-cookie"];
+      if (setCookie) {
+        cachedCookies = setCookie.map(c => c.split(";")[0]);
+      }
+    } catch (e) {
+      log.error("Failed to fetch initial cookies", e);
+    }
+    return cachedCookies.join("; ");
+  });
+
+  async function getCookies() {
+    if (cachedCookies.length > 0) return cachedCookies.join("; ");
+    return login();
+  }
+
+  /** Drops the session a request was rejected with, unless another request already replaced it. */
+  function invalidateSession(rejected: string) {
+    if (cachedCookies.join("; ") === rejected) cachedCookies = [];
+  }
+
+  async function request(endpoint: string, query: Record<string, string>, label: string): Promise<unknown> {
+    const cookies = await getCookies();
+    const search = new URLSearchParams(query).toString();
+    const startedAt = performance.now();
+    const elapsed = () => (performance.now() - startedAt) / 1000;
+    const response = await fetch(`${baseUrl}/regis_api/${endpoint}${search ? `?${search}` : ""}`, {
+      method: "GET",
+      headers: {
+        "User-Agent": userAgent,
+        "Accept": "application/json, text/plain, */*",
+        "Accept-Language": "zh-TW,zh;q=0.9,en-US;q=0.8,en;q=0.7",
+        "Accept-Encoding": "gzip, deflate, br",
+        "Content-Type": "application/json",
+        "X-Request-ID": randomUUID(),
+        "X-Date": new Date().toISOString(),
+        "X-Requested-With": "XMLHttpRequest",
+        "Referer": referer,
+        "Origin": origin,
+        "Connection": "keep-alive",
+        "Cookie": cookies
+      },
+      timeout: timeoutMs
+    }).catch(error => {
+      metrics?.request(endpoint, "network_error", elapsed());
+      throw error;
+    });
+    metrics?.request(endpoint, response.status, elapsed());
+    log.debug(`Hospital API ${endpoint}${search ? `?${search}` : ""}: ${response.status} in ${Math.round(elapsed() * 1000)} ms`);
+    if (!response.ok) {
+      const errBody = await response.text();
+      log.error(`Hospital API error (${label}): ${response.status} - ${errBody}`);
+      if (response.status === 400 || response.status === 401) invalidateSession(cookies);
+      throw new UpstreamError(response.status, errBody);
+    }
+    const data = await response.json().catch(() => {
+      throw new UpstreamPayloadError(endpoint, ["$: response is not JSON"]);
+    });
+    recorder?.(endpoint, query, data);
+    return data;
+  }
+
+  return {
+    info: { id: "skh", name: "新光醫院" },
+    async listDivisions() {
+      const data = await request("RegistrationDivision", {}, "Divisions");
+      return assertPayload<SkhDivision[]>("RegistrationDivision", data, divisionsSchema).map(toDivision);
+    },
+    async getProgress(divisionCode: string) {
+      const data = await request("AppointmentProgress", { DivisionCode: divisionCode }, "Progress");
+      return assertPayload<SkhClinicProgress[]>("AppointmentProgress", data, progressSchema).map(toClinicProgress);
+    },
+    resetSession() {
+      cachedCookies = [];
+    },
+    hasSession: () => cachedCookies.length > 0
+  };
+}
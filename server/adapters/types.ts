@@ -0,0 +1,33 @@
+import type { ClinicProgress, Division, HospitalInfo } from "../../src/types";
+
+/**
+ * Everything the server needs from one hospital's registration system. Each
+ * adapter owns its session (cookies, tokens) and maps the hospital's payloads
+ * into the normalized Division / ClinicProgress model.
+ */
+export interface HospitalAdapter {
+  info: HospitalInfo;
+  listDivisions(): Promise<Division[]>;
+  getProgress(divisionCode: string): Promise<ClinicProgress[]>;
+  /**
+   * Forgets the current session so the next call starts a fresh one. Adapters
+   * also drop a session themselves when the hospital rejects it.
+   */
+  resetSession(): void;
+  /** Whether a session (cookie, token) is currently held; used for readiness. */
+  hasSession(): boolean;
+}
+
+/** The hospital answered, but not with a success status. */
+export class UpstreamError extends Error {
+  constructor(public status: number, public body: string) {
+    super(`Hospital API returned ${status}`);
+  }
+}
+
+/** The hospital answered with a body that does not match its documented shape. */
+export class UpstreamPayloadError extends Error {
+  constructor(endpoint: string, public issues: string[]) {
+    super(`Unexpected ${endpoint} payload: ${issues.slice(0, 3).join("; ")}${issues.length > 3 ? ` (+${issues.length - 3} more)` : ""}`);
+  }
+}
@@ -0,0 +1,166 @@
+/**
+ * Throughput analytics over recorded progress history: minutes per patient
+ * by hour of shift and day of week, and how late shifts start.
+ *
+ * History rows are only written when something changes, so the moment a row
+ * shows a new CurrentVisitSeq is (to within one poll) when that number was
+ * called. Intervals are only measured between two such moments; the first
+ * row of a session is when recording began, not when the number moved.
+ */
+
+import type { AnalyticsSession, PercentileSummary, ProgressSnapshot, ThroughputAnalytics, ThroughputBucket } from "../src/types";
+
+const MINUTE = 60 * 1000;
+const HOUR = 60 * MINUTE;
+// Longer gaps are the server being down or a break nobody marked as a pause.
+const MAX_MINUTES_PER_PATIENT = 60;
+const RECENT_SESSIONS = 30;
+// The hospital reports naive local times in Taiwan
+const TAIPEI_OFFSET = "+08:00";
+
+interface Sample {
+  minutes: number;
+  at: number;
+}
+
+/** Parses ShiftBeginTimeStamp-style values: `/Date(ms)/`, ISO, or a bare `HH:mm` on `visitDate`. */
+export function parseHospitalTimestamp(value: string, visitDate: string): number | null {
+  const text = String(value ?? "").trim();
+  if (!text) return null;
+  const ms = text.match(/^\/Date\((\d+)\)\/$/);
+  if (ms) return Number(ms[1]);
+  const time = text.match(/^(\d{1,2}):?(\d{2})(?::?(\d{2}))?$/);
+  const iso = time
+    ? `${visitDate}T${time[1].padStart(2, "0")}:${time[2]}:${time[3] ?? "00"}`
+    : text.replace(/\//g, "-").replace(" ", "T");
+  const parsed = Date.parse(/[zZ]|[+-]\d{2}:?\d{2}$/.test(iso) ? iso : `${iso}${TAIPEI_OFFSET}`);
+  return isNaN(parsed) ? null : parsed;
+}
+
+function percentile(sorted: number[], p: number) {
+  if (sorted.length === 0) return null;
+  const index = (sorted.length - 1) * p;
+  const lower = Math.floor(index);
+  const upper = Math.ceil(index);
+  return sorted[lower] + (sorted[upper] - sorted[lower]) * (index - lower);
+}
+
+const round = (value: number | null) => (value === null ? null : Math.round(value * 10) / 10);
+
+export function summarize(values: number[]): PercentileSummary {
+  const sorted = [...values].sort((a, b) => a - b);
+  return {
+    count: sorted.length,
+    mean: round(sorted.length ? sorted.reduce((sum, v) => sum + v, 0) / sorted.length : null),
+    p50: round(percentile(sorted, 0.5)),
+    p75: round(percentile(sorted, 0.75)),
+    p90: round(percentile(sorted, 0.9))
+  };
+}
+
+function addTo(groups: Map<number, number[]>, bucket: number, value: number) {
+  const values = groups.get(bucket);
+  if (values) values.push(value);
+  else groups.set(bucket, [value]);
+}
+
+function buckets(groups: Map<number, number[]>): ThroughputBucket[] {
+  return [...groups.entries()]
+    .sort(([a], [b]) => a - b)
+    .map(([bucket, values]) => ({ bucket, ...summarize(values) }));
+}
+
+const isCalling = (row: ProgressSnapshot) => row.ClinicVisitState === "1" && parseInt(row.CurrentVisitSeq) > 0;
+
+/** Splits rows (ordered by session, then time) into clinic sessions. */
+function groupSessions(rows: ProgressSnapshot[]) {
+  const sessions = new Map<string, ProgressSnapshot[]>();
+  for (const row of rows) {
+    const key = [row.VisitDate, row.ClinicCode, row.ShiftCode, row.DoctorEmpNo].join("|");
+    const list = sessions.get(key) ?? [];
+    list.push(row);
+    sessions.set(key, list);
+  }
+  return [...sessions.values()];
+}
+
+function analyzeSession(rows: ProgressSnapshot[]) {
+  const first = rows[0];
+  const begin = parseHospitalTimestamp(first.ShiftBeginTimeStamp, first.VisitDate);
+  const samples: Sample[] = [];
+  let lastSeq = parseInt(first.CurrentVisitSeq);
+  let lastChangeAt: number | null = null;
+  let pausedSince = false;
+  let numbersCalled = 0;
+
+  for (const row of rows.slice(1)) {
+    const at = Date.parse(row.RecordedAt);
+    const seq = parseInt(row.CurrentVisitSeq);
+    if (row.ClinicVisitState !== "1") pausedSince = true;
+    if (isNaN(seq) || !(seq > lastSeq || isNaN(lastSeq))) continue;
+    const advanced = isNaN(lastSeq) ? 0 : seq - lastSeq;
+    numbersCalled += advanced;
+    if (lastChangeAt !== null && advanced > 0 && !pausedSince) {
+      const minutes = (at - lastChangeAt) / MINUTE / advanced;
+      if (minutes <= MAX_MINUTES_PER_PATIENT) {
+        for (let n = 0; n < advanced; n++) samples.push({ minutes, at: lastChangeAt });
+      }
+    }
+    lastSeq = seq;
+    lastChangeAt = at;
+    pausedSince = row.ClinicVisitState !== "1";
+  }
+
+  // Only a recorded opening says when the shift really started
+  const opened = rows.find(isCalling);
+  const startDelayMinutes = begin !== null && opened && !isCalling(first)
+    ? (Date.parse(opened.RecordedAt) - begin) / MINUTE
+    : null;
+
+  const session: AnalyticsSession = {
+    VisitDate: first.VisitDate,
+    ClinicCode: first.ClinicCode,
+    ClinicName: first.ClinicName,
+    ShiftCode: first.ShiftCode,
+    ShiftName: first.ShiftName,
+    DoctorEmpNo: first.DoctorEmpNo,
+    DoctorName: first.DoctorName,
+    ShiftBeginTimeStamp: first.ShiftBeginTimeStamp,
+    startDelayMinutes: round(startDelayMinutes),
+    numbersCalled,
+    minutesPerPatient: samples.length ? summarize(samples.map(s => s.minutes)).mean : null
+  };
+  return { session, samples, begin };
+}
+
+/** Throughput statistics for the history rows of one doctor or clinic between `from` and `to`. */
+export function analyzeThroughput(rows: ProgressSnapshot[], from: string, to: string): ThroughputAnalytics {
+  const all: number[] = [];
+  const byHour = new Map<number, number[]>();
+  const byDay = new Map<number, number[]>();
+  const delays: number[] = [];
+  const sessions: AnalyticsSession[] = [];
+
+  for (const sessionRows of groupSessions(rows)) {
+    const { session, samples, begin } = analyzeSession(sessionRows);
+    sessions.push(session);
+    if (session.startDelayMinutes !== null) delays.push(session.startDelayMinutes);
+    const day = new Date(`${session.VisitDate}T00:00:00Z`).getUTCDay();
+    for (const { minutes, at } of samples) {
+      all.push(minutes);
+      if (!isNaN(day)) addTo(byDay, day, minutes);
+      if (begin !== null && at >= begin) addTo(byHour, Math.floor((at - begin) / HOUR), minutes);
+    }
+  }
+
+  sessions.sort((a, b) => b.VisitDate.localeCompare(a.VisitDate) || b.ShiftCode.localeCompare(a.ShiftCode));
+  return {
+    from,
+    to,
+    minutesPerPatient: summarize(all),
+    byHourOfShift: buckets(byHour),
+    byDayOfWeek: buckets(byDay),
+    startDelayMinutes: summarize(delays),
+    sessions: sessions.slice(0, RECENT_SESSIONS)
+  };
+}
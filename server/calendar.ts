@@ -0,0 +1,186 @@
+/**
+ * iCalendar (RFC 5545) output for tracked visits. A visit is one event over
+ * its clinic session, titled with the predicted call time; calendar apps that
+ * subscribe to the URL re-fetch it and pick up the new prediction.
+ */
+
+import type { ClinicProgress, ProgressSnapshot } from "../src/types";
+import { estimateCallTime, recordObservation, type EtaEstimate, type SeqObservation } from "../src/lib/eta";
+import { usualShiftEndClock } from "../src/lib/alerts";
+import { clinicState } from "../src/lib/progress";
+import { translate, type Locale } from "../src/lib/i18n";
+import { parseHospitalTimestamp } from "./analytics";
+import { normalizeVisitDate } from "./history";
+
+const MINUTE = 60 * 1000;
+// When neither a closing time nor a usual one is known
+const DEFAULT_SESSION_MS = 3 * 60 * MINUTE;
+// Hint for subscribed calendars; most clients poll less often whatever it says
+const REFRESH_MINUTES = 10;
+
+export interface CalendarEvent {
+  uid: string;
+  summary: string;
+  description: string;
+  location?: string;
+  /** Epoch ms; an all-day event on `date` when null. */
+  start: number | null;
+  end: number | null;
+  /** YYYY-MM-DD, used for all-day events. */
+  date: string;
+  alarmAt?: number;
+  alarmText?: string;
+}
+
+const escapeText = (value: string) =>
+  value.replace(/\\/g, "\\\\").replace(/;/g, "\\;").replace(/,/g, "\\,").replace(/\r?\n/g, "\\n");
+
+const utc = (ms: number) => new Date(ms).toISOString().replace(/[-:]/g, "").replace(/\.\d{3}/, "");
+
+/** Folds a content line to 75 octets, never splitting a multi-byte character. */
+function fold(line: string) {
+  const parts: string[] = [];
+  let current = "";
+  let octets = 0;
+  for (const char of line) {
+    const size = Buffer.byteLength(char);
+    if (octets + size > (parts.length === 0 ? 75 : 74)) {
+      parts.push(current);
+      current = "";
+      octets = 0;
+    }
+    current += char;
+    octets += size;
+  }
+  parts.push(current);
+  return parts.join("\r\n ");
+}
+
+export function buildCalendar(name: string, events: CalendarEvent[], now = Date.now()) {
+  const lines = [
+    "BEGIN:VCALENDAR",
+    "VERSION:2.0",
+    "PRODID:-//EaseCheck//Clinic progress//EN",
+    "CALSCALE:GREGORIAN",
+    "METHOD:PUBLISH",
+    `X-WR-CALNAME:${escapeText(name)}`,
+    `REFRESH-INTERVAL;VALUE=DURATION:PT${REFRESH_MINUTES}M`,
+    `X-PUBLISHED-TTL:PT${REFRESH_MINUTES}M`
+  ];
+  for (const event of events) {
+    lines.push("BEGIN:VEVENT", `UID:${event.uid}`, `DTSTAMP:${utc(now)}`, `LAST-MODIFIED:${utc(now)}`);
+    if (event.start === null || event.end === null) {
+      const day = event.date.replace(/-/g, "");
+      const next = new Date(Date.parse(`${event.date}T00:00:00Z`) + 24 * 60 * MINUTE).toISOString().slice(0, 10).replace(/-/g, "");
+      lines.push(`DTSTART;VALUE=DATE:${day}`, `DTEND;VALUE=DATE:${next}`);
+    } else {
+      lines.push(`DTSTART:${utc(event.start)}`, `DTEND:${utc(event.end)}`);
+    }
+    lines.push(`SUMMARY:${escapeText(event.summary)}`, `DESCRIPTION:${escapeText(event.description)}`);
+    if (event.location) lines.push(`LOCATION:${escapeText(event.location)}`);
+    if (event.alarmAt !== undefined && event.alarmAt > now) {
+      lines.push(
+        "BEGIN:VALARM",
+        "ACTION:DISPLAY",
+        `DESCRIPTION:${escapeText(event.alarmText ?? event.summary)}`,
+        `TRIGGER;VALUE=DATE-TIME:${utc(event.alarmAt)}`,
+        "END:VALARM"
+      );
+    }
+    lines.push("END:VEVENT");
+  }
+  lines.push("END:VCALENDAR");
+  return `${lines.map(fold).join("\r\n")}\r\n`;
+}
+
+/**
+ * Predicted call time for `number` from the session's recorded history, the
+ * same estimate the web client makes from what it has watched itself.
+ */
+export function estimateVisit(item: ClinicProgress, timeline: ProgressSnapshot[], number: number, now = Date.now()) {
+  const observations = timeline.reduce<SeqObservation[]>(
+    (list, row) => recordObservation(list, parseInt(row.CurrentVisitSeq), Date.parse(row.RecordedAt)),
+    []
+  );
+  // eta.ts reads bare hospital times in the process's time zone; pin them to Taiwan first
+  const begin = parseHospitalTimestamp(item.ShiftBeginTimeStamp, normalizeVisitDate(item.VisitDate));
+  const pinned = begin === null ? item : { ...item, ShiftBeginTimeStamp: new Date(begin).toISOString() };
+  return clinicState(item) === "open" ? estimateCallTime(pinned, observations, number, now) : null;
+}
+
+/** A recorded row as a progress row, for sessions no longer in the live table. */
+export function progressFromSnapshot(row: ProgressSnapshot): ClinicProgress {
+  const { RecordedAt: _recordedAt, ...fields } = row;
+  return {
+    ...fields,
+    DivisionName: "",
+    CurrentVisitSeqCode: "",
+    CurrentVisitSeqDesc: "",
+    NextVisitSeq: "",
+    NextVisitSeqCode: "",
+    NextVisitSeqDesc: "",
+    CallSequenceCode: ""
+  };
+}
+
+/** Clock time in Taiwan, whatever the server's time zone. */
+const clock = (locale: Locale, ms: number) =>
+  new Date(ms).toLocaleTimeString(locale, { hour: "2-digit", minute: "2-digit", timeZone: "Asia/Taipei" });
+
+export interface VisitEventInput {
+  hospitalId: string;
+  hospitalName: string;
+  item: ClinicProgress;
+  number: number;
+  eta: EtaEstimate | null;
+  /** When the progress in `item` was fetched. */
+  fetchedAt: number;
+  locale: Locale;
+}
+
+/** The clinic session holding `number`, described as of the latest progress. */
+export function visitEvent({ hospitalId, hospitalName, item, number, eta, fetchedAt, locale }: VisitEventInput): CalendarEvent {
+  const visitDate = normalizeVisitDate(item.VisitDate);
+  const begin = parseHospitalTimestamp(item.ShiftBeginTimeStamp, visitDate);
+  const usualEnd = usualShiftEndClock(item.ShiftName);
+  const end =
+    parseHospitalTimestamp(item.ShiftEndTimeStamp, visitDate) ??
+    (usualEnd ? parseHospitalTimestamp(usualEnd, visitDate) : null) ??
+    (begin !== null ? begin + DEFAULT_SESSION_MS : null);
+  const timed = begin !== null && end !== null && end > begin;
+  const current = parseInt(item.CurrentVisitSeq);
+  const remaining = isNaN(current) ? null : number - current;
+  const clinic = `${item.ClinicName} (${item.DoctorName})`;
+  const params = { hospital: hospitalName, clinic, number, current: item.CurrentVisitSeq || "--", remaining: remaining ?? "--", shift: item.ShiftName };
+
+  const status = (() => {
+    if (remaining === 0) return translate(locale, "calendar.called", params);
+    if (remaining !== null && remaining < 0) return translate(locale, "calendar.passed", params);
+    if (clinicState(item) === "ended") return translate(locale, "calendar.ended", params);
+    return translate(locale, "calendar.waiting", params);
+  })();
+  const description = [
+    status,
+    ...(eta
+      ? [translate(locale, "calendar.expected", {
+          time: clock(locale, eta.expectedAt.getTime()),
+          earliest: clock(locale, eta.earliestAt.getTime()),
+          latest: clock(locale, eta.latestAt.getTime())
+        })]
+      : []),
+    translate(locale, "calendar.updated", { time: clock(locale, fetchedAt) })
+  ].join("\n");
+
+  return {
+    uid: `${hospitalId}-${visitDate}-${item.ClinicCode}-${item.ShiftCode}-${number}@easecheck`,
+    summary: eta
+      ? translate(locale, "calendar.summaryExpected", { ...params, time: clock(locale, eta.expectedAt.getTime()) })
+      : translate(locale, "calendar.summary", params),
+    description,
+    location: [hospitalName, item.DivisionName, item.ClinicName].filter(Boolean).join(" "),
+    start: timed ? begin : null,
+    end: timed ? end : null,
+    date: visitDate,
+    ...(eta ? { alarmAt: eta.earliestAt.getTime(), alarmText: translate(locale, "calendar.alarm", params) } : {})
+  };
+}
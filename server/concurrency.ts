@@ -0,0 +1,23 @@
+/**
+ * Runs `fn` over `items` with at most `limit` calls in flight, keeping the
+ * input order. Each result is settled on its own so one failure does not
+ * abort the batch.
+ */
+export async function mapSettled<T, R>(items: T[], limit: number, fn: (item: T) => Promise<R>) {
+  const results: PromiseSettledResult<R>[] = new Array(items.length);
+  let next = 0;
+
+  async function worker() {
+    while (next < items.length) {
+      const index = next++;
+      try {
+        results[index] = { status: "fulfilled", value: await fn(items[index]) };
+      } catch (reason) {
+        results[index] = { status: "rejected", reason };
+      }
+    }
+  }
+
+  await Promise.all(Array.from({ length: Math.min(limit, items.length) }, worker));
+  return results;
+}
@@ -0,0 +1,248 @@
+/**
+ * Server configuration. Every setting has a default, may be set in a JSON
+ * file using the nested keys of `SCHEMA` (CONFIG_FILE, or
+ * easecheck.config.json in the working directory when it exists), and is
+ * overridden by its environment variable. The whole configuration is checked
+ * once at startup, and every bad value is reported at once.
+ *
+ * The bundled fake upstream keeps reading its own FAKE_* variables, since it
+ * also runs on its own through `npm run fake-upstream`.
+ */
+
+import { existsSync, readFileSync } from "fs";
+import { LOG_LEVELS } from "./logger";
+import { SKH_BASE_URL, SKH_USER_AGENT } from "./adapters/skh";
+
+const DEFAULT_CONFIG_FILE = "easecheck.config.json";
+const REDACTED = "[redacted]";
+
+/** The configuration could not be loaded; `problems` lists every bad setting. */
+export class ConfigError extends Error {
+  constructor(public problems: string[]) {
+    super(`Invalid configuration:\n${problems.map(problem => `  - ${problem}`).join("\n")}`);
+  }
+}
+
+/** Turns a file or environment value into a setting, throwing a message when it does not fit. */
+type Parse<T> = (value: unknown) => T;
+
+interface Setting<T> {
+  env: string;
+  default: T;
+  parse: Parse<T>;
+  /** Redacted in `/api/config`: credentials, and paths on the server's disk. */
+  secret?: boolean;
+}
+
+const setting = <T>(env: string, defaultValue: T, parse: Parse<T>, secret = false): Setting<T> =>
+  ({ env, default: defaultValue, parse, secret });
+
+const isSetting = (value: unknown): value is Setting<unknown> =>
+  typeof value === "object" && value !== null && "env" in value && "parse" in value;
+
+const text: Parse<string> = value => {
+  if (typeof value !== "string" || value.trim() === "") throw new Error("expected a non-empty string");
+  return value.trim();
+};
+
+const optionalText: Parse<string | undefined> = value => (value === null || value === "" ? undefined : text(value));
+
+const integer = (min: number, max = Number.MAX_SAFE_INTEGER): Parse<number> => value => {
+  const parsed = typeof value === "string" ? Number(value) : value;
+  if (typeof parsed !== "number" || !Number.isInteger(parsed)) throw new Error("expected an integer");
+  if (parsed < min || parsed > max) throw new Error(max === Number.MAX_SAFE_INTEGER ? `must be at least ${min}` : `must be between ${min} and ${max}`);
+  return parsed;
+};
+
+const positive: Parse<number> = value => {
+  const parsed = typeof value === "string" ? Number(value) : value;
+  if (typeof parsed !== "number" || !Number.isFinite(parsed) || parsed <= 0) throw new Error("expected a positive number");
+  return parsed;
+};
+
+const oneOf = <T extends string>(values: readonly T[]): Parse<T> => value => {
+  if (!values.includes(value as T)) throw new Error(`must be one of ${values.join(", ")}`);
+  return value as T;
+};
+
+const url = (protocols: string[]): Parse<string> => value => {
+  const raw = text(value);
+  let parsed: URL;
+  try {
+    parsed = new URL(raw);
+  } catch {
+    throw new Error("expected a URL");
+  }
+  if (!protocols.includes(parsed.protocol)) throw new Error(`expected a ${protocols.join(" or ")} URL`);
+  return raw.replace(/\/+$/, "");
+};
+
+const optional = <T>(parse: Parse<T>): Parse<T | undefined> => value =>
+  value === null || value === "" ? undefined : parse(value);
+
+/** A comma-separated string, or an array in the config file. */
+const list = <T>(parse: Parse<T>): Parse<T[]> => value => {
+  const items = Array.isArray(value) ? value : typeof value === "string" ? value.split(",").map(item => item.trim()).filter(Boolean) : null;
+  if (!items) throw new Error("expected a list");
+  return items.map(item => parse(item));
+};
+
+/** Express "trust proxy": a hop count, `true`, or addresses and subnets. */
+const trustProxy: Parse<number | boolean | string> = value => {
+  if (value === false || value === "false" || value === "") return false;
+  if (value === true || value === "true") return true;
+  if (typeof value === "number" || (typeof value === "string" && /^\d+$/.test(value))) return integer(0)(value);
+  return text(value);
+};
+
+const SCHEMA = {
+  port: setting("PORT", 3000, integer(1, 65535)),
+  host: setting("HOST", "0.0.0.0", text),
+  trustProxy: setting("TRUST_PROXY", false as number | boolean | string, trustProxy),
+  logLevel: setting("LOG_LEVEL", "info" as (typeof LOG_LEVELS)[number], oneOf(LOG_LEVELS)),
+  historyDbPath: setting("HISTORY_DB_PATH", "data/easecheck.db", text, true),
+  apiKeys: setting("API_KEYS", [] as string[], list(text), true),
+  upstream: {
+    mode: setting("UPSTREAM_MODE", "live" as "live" | "record" | "fake", oneOf(["live", "record", "fake"] as const)),
+    recordDir: setting("RECORD_DIR", "fixtures/recorded", text, true),
+    skhBaseUrl: setting("SKH_BASE_URL", SKH_BASE_URL, url(["http:", "https:"])),
+    userAgent: setting("SKH_USER_AGENT", SKH_USER_AGENT, text),
+    /** Unset: the registration page under the base URL. */
+    referer: setting("SKH_REFERER", undefined as string | undefined, optional(url(["http:", "https:"]))),
+    /** Unset: the base URL. */
+    origin: setting("SKH_ORIGIN", undefined as string | undefined, optional(url(["http:", "https:"]))),
+    timeoutMs: setting("UPSTREAM_TIMEOUT_MS", 15 * 1000, integer(0)),
+    retries: setting("UPSTREAM_RETRIES", 2, integer(0, 10)),
+    breakerThreshold: setting("UPSTREAM_BREAKER_THRESHOLD", 5, integer(1)),
+    breakerCooldownMs: setting("UPSTREAM_BREAKER_COOLDOWN_MS", 30 * 1000, integer(0))
+  },
+  cache: {
+    progressTtlMs: setting("PROGRESS_POLL_INTERVAL_MS", 3000, integer(0)),
+    /** Floor under progressTtlMs, whatever it or the clients ask for. */
+    minRefreshMs: setting("MIN_REFRESH_MS", 3000, integer(0)),
+    divisionsTtlMs: setting("DIVISIONS_TTL_MS", 5 * 60 * 1000, integer(0)),
+    staleMaxAgeMs: setting("STALE_MAX_AGE_MS", 10 * 60 * 1000, integer(0))
+  },
+  progressBatch: {
+    /** Divisions fetched at once for one `/api/progress` request. */
+    concurrency: setting("PROGRESS_BATCH_CONCURRENCY", 4, integer(1, 20)),
+    maxDivisions: setting("PROGRESS_BATCH_MAX_DIVISIONS", 20, integer(1, 100))
+  },
+  watches: {
+    /** Background watches one client address may hold at once; each keeps a division polled. */
+    maxPerClient: setting("WATCH_MAX_PER_CLIENT", 10, integer(1)),
+    maxTotal: setting("WATCH_MAX_TOTAL", 1000, integer(1))
+  },
+  searchIndex: {
+    intervalMs: setting("SEARCH_INDEX_INTERVAL_MS", 10 * 60 * 1000, integer(1000)),
+    concurrency: setting("SEARCH_INDEX_CONCURRENCY", 3, integer(1, 20))
+  },
+  rateLimit: {
+    perIp: {
+      burst: setting("RATE_LIMIT_IP_BURST", 60, integer(1)),
+      perSecond: setting("RATE_LIMIT_IP_PER_SECOND", 2, positive)
+    },
+    global: {
+      burst: setting("RATE_LIMIT_GLOBAL_BURST", 600, integer(1)),
+      perSecond: setting("RATE_LIMIT_GLOBAL_PER_SECOND", 100, positive)
+    }
+  },
+  push: {
+    publicKey: setting("VAPID_PUBLIC_KEY", undefined as string | undefined, optionalText),
+    privateKey: setting("VAPID_PRIVATE_KEY", undefined as string | undefined, optionalText, true),
+    subject: setting("VAPID_SUBJECT", "mailto:easecheck@localhost", url(["mailto:", "https:"]))
+  },
+  webhookSecret: setting("WEBHOOK_SECRET", undefined as string | undefined, optionalText, true),
+  notifications: {
+    /** Push and webhook hosts allowed even though they resolve to private addresses. */
+    allowedHosts: setting("NOTIFY_ALLOWED_HOSTS", [] as string[], list(text))
+  },
+  email: {
+    smtpUrl: setting("SMTP_URL", undefined as string | undefined, optional(url(["smtp:", "smtps:"])), true),
+    from: setting("SMTP_FROM", "EaseCheck <easecheck@localhost>", text)
+  },
+  client: {
+    /** Auto-refresh choices the web client offers, in seconds. */
+    refreshIntervals: setting("CLIENT_REFRESH_INTERVALS", [3, 5, 10], list(integer(1, 3600))),
+    defaultRefreshInterval: setting("CLIENT_DEFAULT_REFRESH_INTERVAL", 5, integer(1, 3600))
+  }
+};
+
+type Resolved<S> = { [K in keyof S]: S[K] extends Setting<infer T> ? T : Resolved<S[K]> };
+
+export type ServerConfig = Resolved<typeof SCHEMA>;
+
+type Env = Record<string, string | undefined>;
+
+function readConfigFile(env: Env, problems: string[]): Record<string, unknown> {
+  const path = env.CONFIG_FILE || (existsSync(DEFAULT_CONFIG_FILE) ? DEFAULT_CONFIG_FILE : null);
+  if (!path) return {};
+  try {
+    const parsed = JSON.parse(readFileSync(path, "utf8"));
+    if (typeof parsed !== "object" || parsed === null || Array.isArray(parsed)) throw new Error("expected a JSON object");
+    return parsed;
+  } catch (error) {
+    problems.push(`${path}: ${(error as Error).message}`);
+    return {};
+  }
+}
+
+function resolve(schema: object, file: Record<string, unknown>, env: Env, prefix: string, problems: string[]) {
+  const known = new Set(Object.keys(schema));
+  for (const key of Object.keys(file)) {
+    if (!known.has(key)) problems.push(`${prefix}${key}: unknown setting`);
+  }
+  const result: Record<string, unknown> = {};
+  for (const [key, entry] of Object.entries(schema)) {
+    const path = `${prefix}${key}`;
+    if (!isSetting(entry)) {
+      const nested = file[key] ?? {};
+      if (typeof nested !== "object" || Array.isArray(nested)) {
+        problems.push(`${path}: expected an object`);
+        result[key] = resolve(entry, {}, env, `${path}.`, problems);
+      } else {
+        result[key] = resolve(entry, nested as Record<string, unknown>, env, `${path}.`, problems);
+      }
+      continue;
+    }
+    // Empty variables count as unset, as in .env.example
+    const fromEnv = env[entry.env] || undefined;
+    const raw = fromEnv ?? file[key];
+    try {
+      result[key] = raw === undefined ? entry.default : entry.parse(raw);
+    } catch (error) {
+      problems.push(`${path} (${fromEnv !== undefined ? entry.env : "config file"}): ${(error as Error).message}`);
+      result[key] = entry.default;
+    }
+  }
+  return result;
+}
+
+/** Reads, checks and returns the configuration; throws ConfigError naming every problem. */
+export function loadConfig(env: Env = process.env): ServerConfig {
+  const problems: string[] = [];
+  const file = readConfigFile(env, problems);
+  const config = resolve(SCHEMA, file, env, "", problems) as ServerConfig;
+
+  if (!config.client.refreshIntervals.includes(config.client.defaultRefreshInterval)) {
+    problems.push("client.defaultRefreshInterval: must be one of client.refreshIntervals");
+  }
+  if (Boolean(config.push.publicKey) !== Boolean(config.push.privateKey)) {
+    problems.push("push: set both VAPID_PUBLIC_KEY and VAPID_PRIVATE_KEY, or neither");
+  }
+  if (problems.length > 0) throw new ConfigError(problems);
+  return config;
+}
+
+function redact(schema: object, values: Record<string, unknown>): Record<string, unknown> {
+  return Object.fromEntries(Object.entries(schema).map(([key, entry]) => {
+    const value = values[key];
+    if (!isSetting(entry)) return [key, redact(entry, value as Record<string, unknown>)];
+    if (!entry.secret) return [key, value ?? null];
+    const isSet = Array.isArray(value) ? value.length > 0 : value !== undefined;
+    return [key, isSet ? REDACTED : null];
+  }));
+}
+
+/** The configuration with secrets replaced by "[redacted]" (or null when unset), as served by `/api/config`. */
+export const redactConfig = (config: ServerConfig) => redact(SCHEMA, config as unknown as Record<string, unknown>);
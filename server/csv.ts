@@ -0,0 +1,22 @@
+/**
+ * RFC 4180 CSV for the export endpoints, shaped for spreadsheets: a UTF-8
+ * byte-order mark so Excel reads the Chinese names correctly, CRLF line ends,
+ * and text cells that a spreadsheet would run as a formula defused with a
+ * leading apostrophe.
+ */
+
+const BOM = "\uFEFF";
+
+function cell(value: unknown) {
+  if (value === null || value === undefined) return "";
+  let text = String(value);
+  if (typeof value === "string" && /^[=+\-@\t\r]/.test(text)) text = `'${text}`;
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+/** One header row of `columns`, then one row per record with those fields in that order. */
+export function toCsv<T extends object>(records: T[], columns: readonly (keyof T & string)[]) {
+  const lines = [columns.map(cell).join(",")];
+  for (const record of records) lines.push(columns.map(column => cell(record[column])).join(","));
+  return `${BOM}${lines.join("\r\n")}\r\n`;
+}
@@ -0,0 +1,117 @@
+/**
+ * Keeps polling every DivisionCode that somebody is watching and tells the
+ * watchers which ClinicProgress rows changed since the previous poll.
+ *
+ * Polls go through the shared progress cache, so a division watched by the
+ * poller and requested by regular clients is still fetched once per interval.
+ */
+
+import type { ClinicProgress } from "../src/types";
+import { progressKey } from "../src/lib/progress";
+import type { PollingCache } from "./progressCache";
+import { divisionKey } from "./adapters";
+
+export interface DivisionUpdate {
+  hospitalId: string;
+  divisionCode: string;
+  rows: ClinicProgress[];
+  changed: ClinicProgress[];
+  removed: string[];
+  fetchedAt: number;
+}
+
+export interface DivisionListener {
+  onUpdate(update: DivisionUpdate): void;
+  onError?(error: unknown): void;
+  /** Called when polls start or stop falling back to last-known-good data. */
+  onStale?(stale: boolean, fetchedAt: number): void;
+}
+
+interface Watch {
+  listeners: Set<DivisionListener>;
+  signatures: Map<string, string>;
+  stale: boolean;
+  timer: NodeJS.Timeout | null;
+}
+
+export function createDivisionPoller(cache: PollingCache<ClinicProgress[]>, { intervalMs }: { intervalMs: number }) {
+  const watches = new Map<string, Watch>();
+
+  const signaturesOf = (rows: ClinicProgress[]) => new Map(rows.map(row => [progressKey(row), JSON.stringify(row)]));
+
+  function diff(watch: Watch, rows: ClinicProgress[]) {
+    const next = signaturesOf(rows);
+    const changed = rows.filter(row => watch.signatures.get(progressKey(row)) !== next.get(progressKey(row)));
+    const removed = [...watch.signatures.keys()].filter(key => !next.has(key));
+    watch.signatures = next;
+    return { changed, removed };
+  }
+
+  async function poll(hospitalId: string, divisionCode: string) {
+    const key = divisionKey(hospitalId, divisionCode);
+    const watch = watches.get(key);
+    if (!watch) return;
+    try {
+      const result = await cache.get(key);
+      const stale = result.status === "STALE";
+      if (stale !== watch.stale) {
+        watch.stale = stale;
+        for (const listener of watch.listeners) listener.onStale?.(stale, result.fetchedAt);
+      }
+      const { changed, removed } = diff(watch, result.data);
+      if (changed.length > 0 || removed.length > 0) {
+        const update = { hospitalId, divisionCode, rows: result.data, changed, removed, fetchedAt: result.fetchedAt };
+        for (const listener of watch.listeners) listener.onUpdate(update);
+      }
+    } catch (error) {
+      for (const listener of watch.listeners) listener.onError?.(error);
+    }
+    // The watch may have been dropped while we were waiting on upstream.
+    if (watches.get(key) === watch && watch.listeners.size > 0) {
+      watch.timer = setTimeout(() => poll(hospitalId, divisionCode), intervalMs);
+    }
+  }
+
+  /**
+   * Starts watching one hospital division; returns a function that stops this listener.
+   * `seen` are rows the listener already has, e.g. a snapshot sent to a stream, so a
+   * new watch only reports what changes after them.
+   */
+  function subscribe(hospitalId: string, divisionCode: string, listener: DivisionListener, seen: ClinicProgress[] = []) {
+    const key = divisionKey(hospitalId, divisionCode);
+    let watch = watches.get(key);
+    if (!watch) {
+      watch = { listeners: new Set(), signatures: signaturesOf(seen), stale: false, timer: null };
+      watches.set(key, watch);
+      watch.listeners.add(listener);
+      poll(hospitalId, divisionCode);
+    } else {
+      watch.listeners.add(listener);
+    }
+
+    return () => {
+      const current = watches.get(key);
+      if (!current) return;
+      current.listeners.delete(listener);
+      if (current.listeners.size === 0) {
+        if (current.timer) clearTimeout(current.timer);
+        watches.delete(key);
+      }
+    };
+  }
+
+  function watchedDivisions() {
+    return [...watches.keys()];
+  }
+
+  /** Open streams plus watch subscriptions across all divisions. */
+  function listenerCount() {
+    let count = 0;
+    for (const watch of watches.values()) count += watch.listeners.size;
+    return count;
+  }
+
+  return { subscribe, watchedDivisions, listenerCount };
+}
+
+export type DivisionPoller = ReturnType<typeof createDivisionPoller>;
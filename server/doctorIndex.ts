@@ -0,0 +1,108 @@
+/**
+ * Doctor search index. Patients know their doctor, not the SubDivision the
+ * doctor sits in today, so every division's progress is swept periodically
+ * and the clinic sessions are kept in memory for `/api/search`.
+ *
+ * Sweeps go through the shared progress cache, so they also feed history and
+ * never add upstream calls for divisions that clients are already polling.
+ */
+
+import type { ClinicProgress, Division, DoctorSearchResult } from "../src/types";
+import { divisionKey, type AdapterRegistry } from "./adapters";
+import { mapSettled } from "./concurrency";
+import type { PollingCache } from "./progressCache";
+import { log } from "./logger";
+
+export interface DoctorIndexOptions {
+  intervalMs: number;
+  /** Division fetches in flight at once during a sweep. */
+  concurrency: number;
+}
+
+const MAX_RESULTS = 50;
+
+export function createDoctorIndex(
+  { adapters, progressCache, divisionsCache }: {
+    adapters: AdapterRegistry;
+    progressCache: PollingCache<ClinicProgress[]>;
+    divisionsCache: PollingCache<Division[]>;
+  },
+  { intervalMs, concurrency }: DoctorIndexOptions
+) {
+  // Keyed by hospital division; a division that fails a sweep keeps its previous entries.
+  const entries = new Map<string, DoctorSearchResult[]>();
+  let indexedAt: number | null = null;
+  let sweeping = false;
+
+  async function sweepHospital(hospitalId: string) {
+    const { data: divisions } = await divisionsCache.get(hospitalId);
+    const subDivisions = divisions.flatMap(div => div.SubDivisions);
+    const results = await mapSettled(subDivisions, concurrency, async sub => {
+      const { data } = await progressCache.get(divisionKey(hospitalId, sub.DivisionCode));
+      entries.set(divisionKey(hospitalId, sub.DivisionCode), data.map(row => ({
+        hospital: hospitalId,
+        DivisionCode: sub.DivisionCode,
+        DivisionName: sub.DivisionName,
+        ClinicCode: row.ClinicCode,
+        ClinicName: row.ClinicName,
+        ShiftCode: row.ShiftCode,
+        ShiftName: row.ShiftName,
+        DoctorEmpNo: row.DoctorEmpNo,
+        DoctorName: row.DoctorName
+      })));
+    });
+    const failed = results.filter(result => result.status === "rejected").length;
+    if (failed > 0) log.warn(`Doctor index: ${failed}/${subDivisions.length} ${hospitalId} divisions failed to refresh`);
+  }
+
+  async function sweep() {
+    if (sweeping) return;
+    sweeping = true;
+    try {
+      for (const { id } of adapters.list()) {
+        try {
+          await sweepHospital(id);
+        } catch (e) {
+          log.error(`Doctor index: could not list ${id} divisions`, e);
+        }
+      }
+      indexedAt = Date.now();
+    } finally {
+      sweeping = false;
+    }
+  }
+
+  /** Case-insensitive match on doctor name, employee number and clinic name; best matches first. */
+  function search(hospitalId: string, query: string) {
+    const needle = query.toLowerCase();
+    const rank = (result: DoctorSearchResult) => {
+      const fields = [result.DoctorName, result.DoctorEmpNo, result.ClinicName].map(field => field.toLowerCase());
+      if (fields.some(field => field === needle)) return 0;
+      if (fields.some(field => field.startsWith(needle))) return 1;
+      return fields.some(field => field.includes(needle)) ? 2 : -1;
+    };
+    const matches: { result: DoctorSearchResult; rank: number }[] = [];
+    for (const [key, results] of entries) {
+      if (!key.startsWith(`${hospitalId}:`)) continue;
+      for (const result of results) {
+        const score = rank(result);
+        if (score >= 0) matches.push({ result, rank: score });
+      }
+    }
+    return matches
+      .sort((a, b) => a.rank - b.rank || a.result.DoctorName.localeCompare(b.result.DoctorName, "zh-Hant"))
+      .slice(0, MAX_RESULTS)
+      .map(match => match.result);
+  }
+
+  function start() {
+    sweep();
+    const timer = setInterval(sweep, intervalMs);
+    timer.unref();
+    return () => clearInterval(timer);
+  }
+
+  return { search, sweep, start, indexedAt: () => indexedAt };
+}
+
+export type DoctorIndex = ReturnType<typeof createDoctorIndex>;
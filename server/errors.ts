@@ -0,0 +1,71 @@
+/**
+ * The one error shape the API returns. Route handlers throw or pass anything
+ * to `sendError`; it is mapped to an ApiErrorEnvelope with a stable code.
+ */
+
+import type { Response } from "express";
+import type { ApiErrorCode, ApiErrorEnvelope } from "../src/types";
+import { UpstreamError, UpstreamPayloadError } from "./adapters/types";
+import { CircuitOpenError } from "./resilience";
+import { log } from "./logger";
+
+export class ApiError extends Error {
+  constructor(
+    public code: ApiErrorCode,
+    message: string,
+    public status: number,
+    public retryable = false,
+    public upstreamStatus?: number,
+    /** Sent as `Retry-After` when set. */
+    public retryAfterSeconds?: number
+  ) {
+    super(message);
+  }
+
+  toEnvelope(): ApiErrorEnvelope {
+    return {
+      error: {
+        code: this.code,
+        message: this.message,
+        ...(this.upstreamStatus !== undefined ? { upstreamStatus: this.upstreamStatus } : {}),
+        retryable: this.retryable
+      }
+    };
+  }
+}
+
+export const invalidParameter = (message: string) => new ApiError("INVALID_PARAMETER", message, 400);
+
+export const notFound = (message: string) => new ApiError("NOT_FOUND", message, 404);
+
+/** node-fetch reports DNS, connection and timeout failures as FetchError with type "system" or "request-timeout". */
+function isNetworkError(error: unknown) {
+  const type = (error as { type?: string } | null)?.type;
+  return (error as Error | null)?.name === "FetchError" || type === "system" || type === "request-timeout";
+}
+
+export function toApiError(error: unknown): ApiError {
+  if (error instanceof ApiError) return error;
+  if (error instanceof UpstreamError) {
+    const retryable = error.status >= 500 || error.status === 429 || error.status === 401;
+    return new ApiError("UPSTREAM_HTTP_ERROR", `Hospital API returned ${error.status}`, 502, retryable, error.status);
+  }
+  if (error instanceof UpstreamPayloadError) {
+    return new ApiError("UPSTREAM_INVALID_PAYLOAD", error.message, 502, false);
+  }
+  if (error instanceof CircuitOpenError) {
+    const seconds = Math.ceil(error.retryAfterMs / 1000);
+    return new ApiError("UPSTREAM_CIRCUIT_OPEN", `Hospital API is failing, paused for ${seconds}s`, 503, true, undefined, seconds);
+  }
+  if (isNetworkError(error)) {
+    return new ApiError("UPSTREAM_UNREACHABLE", "Hospital API is unreachable", 504, true);
+  }
+  return new ApiError("INTERNAL_ERROR", "Internal server error", 500, true);
+}
+
+export function sendError(res: Response, error: unknown) {
+  const apiError = toApiError(error);
+  if (apiError.code === "INTERNAL_ERROR") log.error("Unhandled error:", error);
+  if (apiError.retryAfterSeconds !== undefined) res.set("Retry-After", String(apiError.retryAfterSeconds));
+  return res.status(apiError.status).json(apiError.toEnvelope());
+}
@@ -0,0 +1,86 @@
+/**
+ * A stand-in for SKH's site that speaks the same endpoints the SKH adapter
+ * calls: a cookie-issuing landing page plus regis_api's RegistrationDivision
+ * and AppointmentProgress. It either replays recorded fixtures or runs one of
+ * the scripted scenarios.
+ */
+
+import express from "express";
+import type { AddressInfo } from "net";
+import { createFixtureReplay } from "./replay";
+import { SCENARIOS, scenarioDivisions, scenarioProgress, type ScenarioOptions } from "./scenarios";
+
+export interface FakeUpstreamOptions extends Partial<ScenarioOptions> {
+  /** `replay` or the name of a scripted scenario (`advance`, `pause`, `skip`, `shift-end`). */
+  scenario: string;
+  fixturesDir?: string;
+  replaySpeed?: number;
+}
+
+export const FAKE_SCENARIOS = ["replay", ...Object.keys(SCENARIOS)];
+
+export function createFakeUpstreamApp({
+  scenario,
+  fixturesDir = "fixtures/recorded",
+  replaySpeed = 1,
+  advanceMs = 30 * 1000,
+  pauseAt = "10:15",
+  pauseMinutes = 15,
+  shiftLength = 20
+}: FakeUpstreamOptions) {
+  if (!FAKE_SCENARIOS.includes(scenario)) {
+    throw new Error(`Unknown fake upstream scenario "${scenario}". Use one of: ${FAKE_SCENARIOS.join(", ")}`);
+  }
+
+  const app = express();
+  const startedAt = new Date();
+  const scenarioOptions = { advanceMs, pauseAt, pauseMinutes, shiftLength };
+  const replay = scenario === "replay" ? createFixtureReplay(fixturesDir, replaySpeed) : null;
+  // A replay starts with the first progress request, like the recording did.
+  let replayStartedAt: number | null = null;
+
+  app.get("/skh/index.html", (req, res) => {
+    res.cookie("ASP.NET_SessionId", `fake-${startedAt.getTime()}`, { httpOnly: true });
+    res.type("html").send("<!doctype html><title>Fake SKH</title>");
+  });
+
+  app.get("/regis_api/RegistrationDivision", (req, res) => {
+    res.json(replay ? replay.divisions() : scenarioDivisions());
+  });
+
+  app.get("/regis_api/AppointmentProgress", (req, res) => {
+    const divisionCode = String(req.query.DivisionCode ?? "");
+    const now = new Date();
+    replayStartedAt ??= now.getTime();
+    res.json(replay
+      ? replay.progress(divisionCode, now.getTime() - replayStartedAt)
+      : scenarioProgress(scenario, divisionCode, startedAt, now, scenarioOptions));
+  });
+
+  return app;
+}
+
+/** Starts the fake upstream; port 0 picks a free port. Resolves to its base URL. */
+export function startFakeUpstream(options: FakeUpstreamOptions & { port?: number }) {
+  const app = createFakeUpstreamApp(options);
+  return new Promise<string>((resolve, reject) => {
+    const server = app.listen(options.port ?? 0, "127.0.0.1", () => {
+      resolve(`http://127.0.0.1:${(server.address() as AddressInfo).port}`);
+    });
+    server.on("error", reject);
+  });
+}
+
+/** Reads FAKE_* environment variables into fake upstream options. */
+export function fakeUpstreamOptionsFromEnv(env = process.env): FakeUpstreamOptions {
+  const numberOr = (value: string | undefined, fallback: number) => (value && !isNaN(Number(value)) ? Number(value) : fallback);
+  return {
+    scenario: env.FAKE_SCENARIO || "advance",
+    fixturesDir: env.FAKE_FIXTURES_DIR || undefined,
+    replaySpeed: numberOr(env.FAKE_REPLAY_SPEED, 1),
+    advanceMs: numberOr(env.FAKE_ADVANCE_MS, 30 * 1000),
+    pauseAt: env.FAKE_PAUSE_AT || "10:15",
+    pauseMinutes: numberOr(env.FAKE_PAUSE_MINUTES, 15),
+    shiftLength: numberOr(env.FAKE_SHIFT_LENGTH, 20)
+  };
+}
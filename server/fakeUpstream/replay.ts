@@ -0,0 +1,45 @@
+/**
+ * Replays fixtures written by the upstream recorder, keeping the original
+ * spacing between progress changes (scaled by `speed`). Once a division runs
+ * out of recorded states it keeps serving the last one.
+ */
+
+import { existsSync, readdirSync, readFileSync } from "fs";
+import { join } from "path";
+
+export function createFixtureReplay(dir: string, speed = 1) {
+  const progressDir = join(dir, "AppointmentProgress");
+  const timelines = new Map<string, Array<{ offsetMs: number; file: string }>>();
+
+  function timeline(divisionCode: string) {
+    let entries = timelines.get(divisionCode);
+    if (!entries) {
+      const divisionDir = join(progressDir, divisionCode.replace(/[^\w.-]/g, "_"));
+      const stamps = existsSync(divisionDir)
+        ? readdirSync(divisionDir).filter(f => f.endsWith(".json")).map(f => Number(f.replace(/\.json$/, ""))).filter(n => !isNaN(n)).sort((a, b) => a - b)
+        : [];
+      entries = stamps.map(stamp => ({ offsetMs: stamp - stamps[0], file: join(divisionDir, `${stamp}.json`) }));
+      timelines.set(divisionCode, entries);
+    }
+    return entries;
+  }
+
+  function divisions() {
+    const file = join(dir, "RegistrationDivision.json");
+    return existsSync(file) ? JSON.parse(readFileSync(file, "utf8")) : [];
+  }
+
+  function progress(divisionCode: string, elapsedMs: number) {
+    const entries = timeline(divisionCode);
+    if (entries.length === 0) return [];
+    const position = elapsedMs * speed;
+    let current = entries[0];
+    for (const entry of entries) {
+      if (entry.offsetMs > position) break;
+      current = entry;
+    }
+    return JSON.parse(readFileSync(current.file, "utf8"));
+  }
+
+  return { divisions, progress };
+}
@@ -0,0 +1,142 @@
+/**
+ * Scripted upstream behaviour for offline development. Every scenario is a
+ * pure function of the time elapsed since the fake upstream started, so a
+ * given moment always produces the same payload.
+ */
+
+import { SEED_DIVISIONS, type SeedClinic, type SeedSubDivision } from "./seed";
+
+export interface ScenarioOptions {
+  /** Time between number changes. */
+  advanceMs: number;
+  /** Wall-clock "HH:mm" at which the `pause` scenario pauses its clinics. */
+  pauseAt: string;
+  pauseMinutes: number;
+  /** Numbers seen per clinic before the `shift-end` scenario closes it. */
+  shiftLength: number;
+}
+
+interface ClinicState {
+  seq: number;
+  passed: number;
+  state: "1" | "2" | "0";
+  desc: string;
+  ended: boolean;
+}
+
+type Scenario = (clinic: SeedClinic, index: number, elapsedMs: number, now: Date, options: ScenarioOptions) => ClinicState;
+
+// The hospital reports naive local times in Taiwan, whatever timezone this process runs in.
+const TAIPEI_OFFSET_MS = 8 * 60 * 60 * 1000;
+
+/** `YYYY-MM-DDTHH:mm:ss` in Taipei time. */
+const taipeiIso = (date: Date) => new Date(date.getTime() + TAIPEI_OFFSET_MS).toISOString().slice(0, 19);
+
+const steps = (elapsedMs: number, options: ScenarioOptions) => Math.floor(elapsedMs / options.advanceMs);
+
+function pausedMsSoFar(now: Date, startedAt: Date, options: ScenarioOptions) {
+  const [hours, minutes] = options.pauseAt.split(":").map(Number);
+  const pauseStart = new Date(`${taipeiIso(now).slice(0, 10)}T${String(hours).padStart(2, "0")}:${String(minutes).padStart(2, "0")}:00+08:00`);
+  const pauseEnd = new Date(pauseStart.getTime() + options.pauseMinutes * 60 * 1000);
+  const from = Math.max(pauseStart.getTime(), startedAt.getTime());
+  const to = Math.min(pauseEnd.getTime(), now.getTime());
+  return {
+    pausedMs: Math.max(0, to - from),
+    pausedNow: now >= pauseStart && now < pauseEnd
+  };
+}
+
+export const SCENARIOS: Record<string, Scenario> = {
+  // Every clinic calls the next number once per advanceMs.
+  advance(clinic, _index, elapsedMs, _now, options) {
+    return { seq: clinic.startSeq + steps(elapsedMs, options), passed: 0, state: "1", desc: "", ended: false };
+  },
+
+  // Like `advance`, but every clinic stops calling numbers during the pause window.
+  pause(clinic, _index, elapsedMs, now, options) {
+    const startedAt = new Date(now.getTime() - elapsedMs);
+    const { pausedMs, pausedNow } = pausedMsSoFar(now, startedAt, options);
+    return {
+      seq: clinic.startSeq + steps(elapsedMs - pausedMs, options),
+      passed: 0,
+      state: pausedNow ? "2" : "1",
+      desc: pausedNow ? "暫停看診" : "",
+      ended: false
+    };
+  },
+
+  // Every third number is a no-show: the clinic jumps past it and PassedSeqCount grows.
+  skip(clinic, _index, elapsedMs, _now, options) {
+    const n = steps(elapsedMs, options);
+    const skipped = Math.floor(n / 3);
+    return {
+      seq: clinic.startSeq + n + skipped,
+      passed: skipped,
+      state: "1",
+      desc: n % 3 === 0 && n > 0 ? "過號" : "",
+      ended: false
+    };
+  },
+
+  // Clinics close one after another once they have seen shiftLength numbers.
+  "shift-end"(clinic, index, elapsedMs, _now, options) {
+    const limit = Math.max(1, options.shiftLength - index * 2);
+    const n = Math.min(steps(elapsedMs, options), limit);
+    const ended = n >= limit;
+    return { seq: clinic.startSeq + n, passed: 0, state: ended ? "0" : "1", desc: ended ? "看診結束" : "", ended };
+  }
+};
+
+export function scenarioDivisions() {
+  return SEED_DIVISIONS.map(division => ({
+    DivisionCode: division.DivisionCode,
+    DivisionName: division.DivisionName,
+    SubDivisions: division.SubDivisions.map(sub => ({
+      DivisionCode: sub.DivisionCode,
+      DivisionName: sub.DivisionName,
+      NetworkDivisionDesc: null
+    }))
+  }));
+}
+
+function findSubDivision(divisionCode: string): SeedSubDivision | undefined {
+  return SEED_DIVISIONS.flatMap(division => division.SubDivisions).find(sub => sub.DivisionCode === divisionCode);
+}
+
+/** AppointmentProgress payload for one division at `now`, in SKH's raw shape. */
+export function scenarioProgress(name: string, divisionCode: string, startedAt: Date, now: Date, options: ScenarioOptions) {
+  const scenario = SCENARIOS[name];
+  const sub = findSubDivision(divisionCode);
+  if (!scenario || !sub) return [];
+
+  const elapsedMs = now.getTime() - startedAt.getTime();
+  const visitDate = `${taipeiIso(now).slice(0, 10)}T00:00:00`;
+  return sub.clinics.map((clinic, index) => {
+    const state = scenario(clinic, index, elapsedMs, now, options);
+    // Pretend the shift began early enough for the starting number to have been reached.
+    const shiftBegin = new Date(startedAt.getTime() - clinic.startSeq * options.advanceMs);
+    return {
+      VisitDate: visitDate,
+      ShiftCode: "1",
+      ShiftName: "上午",
+      DivisionCode: sub.DivisionCode,
+      DivisionName: sub.DivisionName,
+      ClinicCode: clinic.ClinicCode,
+      ClinicName: clinic.ClinicName,
+      DoctorEmpNo: clinic.DoctorEmpNo,
+      DoctorName: clinic.DoctorName,
+      ClinicVisitState: state.state,
+      ShiftBeginTimeStamp: taipeiIso(shiftBegin),
+      ShiftEndTimeStamp: state.ended ? taipeiIso(now) : "",
+      PassedSeqCount: state.passed,
+      CurrentVisitSeq: String(state.seq),
+      CurrentVisitSeqCode: String(state.seq),
+      CurrentVisitSeqDesc: state.desc,
+      NextVisitSeq: state.ended ? "" : String(state.seq + 1),
+      NextVisitSeqCode: state.ended ? "" : String(state.seq + 1),
+      NextVisitSeqDesc: "",
+      CallSequenceCode: "",
+      CheckInCount: String(state.seq + 6 + index)
+    };
+  });
+}
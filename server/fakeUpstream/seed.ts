@@ -0,0 +1,91 @@
+/**
+ * Made-up divisions and clinic sessions the scripted scenarios run on. Shapes
+ * follow SKH's regis_api payloads; codes and names are fictional.
+ */
+
+export interface SeedClinic {
+  ClinicCode: string;
+  ClinicName: string;
+  DoctorEmpNo: string;
+  DoctorName: string;
+  /** Number already reached when the scenario starts. */
+  startSeq: number;
+}
+
+export interface SeedSubDivision {
+  DivisionCode: string;
+  DivisionName: string;
+  clinics: SeedClinic[];
+}
+
+export interface SeedDivision {
+  DivisionCode: string;
+  DivisionName: string;
+  SubDivisions: SeedSubDivision[];
+}
+
+export const SEED_DIVISIONS: SeedDivision[] = [
+  {
+    DivisionCode: "0100",
+    DivisionName: "內科部",
+    SubDivisions: [
+      {
+        DivisionCode: "0110",
+        DivisionName: "心臟內科",
+        clinics: [
+          { ClinicCode: "101", ClinicName: "101診", DoctorEmpNo: "D10001", DoctorName: "林志明", startSeq: 12 },
+          { ClinicCode: "102", ClinicName: "102診", DoctorEmpNo: "D10002", DoctorName: "陳怡君", startSeq: 5 }
+        ]
+      },
+      {
+        DivisionCode: "0120",
+        DivisionName: "胸腔內科",
+        clinics: [
+          { ClinicCode: "111", ClinicName: "111診", DoctorEmpNo: "D10011", DoctorName: "王建華", startSeq: 20 }
+        ]
+      },
+      {
+        DivisionCode: "0130",
+        DivisionName: "腸胃內科",
+        clinics: [
+          { ClinicCode: "121", ClinicName: "121診", DoctorEmpNo: "D10021", DoctorName: "張雅婷", startSeq: 8 },
+          { ClinicCode: "122", ClinicName: "122診", DoctorEmpNo: "D10022", DoctorName: "李承翰", startSeq: 15 }
+        ]
+      }
+    ]
+  },
+  {
+    DivisionCode: "0200",
+    DivisionName: "外科部",
+    SubDivisions: [
+      {
+        DivisionCode: "0210",
+        DivisionName: "一般外科",
+        clinics: [
+          { ClinicCode: "201", ClinicName: "201診", DoctorEmpNo: "D20001", DoctorName: "黃冠宇", startSeq: 3 }
+        ]
+      }
+    ]
+  },
+  {
+    DivisionCode: "0300",
+    DivisionName: "兒童醫學部",
+    SubDivisions: [
+      {
+        DivisionCode: "0310",
+        DivisionName: "小兒科",
+        clinics: [
+          { ClinicCode: "301", ClinicName: "301診", DoctorEmpNo: "D30001", DoctorName: "吳佩珊", startSeq: 10 },
+          { ClinicCode: "302", ClinicName: "302診", DoctorEmpNo: "D30002", DoctorName: "林志明", startSeq: 2 }
+        ]
+      },
+      {
+        DivisionCode: "0320",
+        DivisionName: "耳鼻喉科",
+        clinics: [
+          { ClinicCode: "311", ClinicName: "311診", DoctorEmpNo: "D30011", DoctorName: "周家豪", startSeq: 18 }
+        ]
+      }
+    ]
+  }
+];
@@ -0,0 +1,96 @@
+/**
+ * Liveness and readiness checks for `/healthz` and `/readyz`.
+ *
+ * Liveness only says the process and its database answer. Readiness asks
+ * every hospital: the circuit must not be open, the division list must have
+ * come from upstream recently (not served stale), and the adapter must hold
+ * a session cookie.
+ */
+
+import type Database from "better-sqlite3";
+import type { Division } from "../src/types";
+import type { AdapterRegistry } from "./adapters";
+import type { PollingCache } from "./progressCache";
+import type { CircuitState } from "./resilience";
+
+export interface HospitalReadiness {
+  ready: boolean;
+  circuit: CircuitState;
+  upstream: "ok" | "stale" | "error";
+  session: boolean;
+  /** Seconds since the division list was last fetched from upstream. */
+  ageSeconds?: number;
+  error?: string;
+}
+
+const UPSTREAM_CHECK_TIMEOUT_MS = 5000;
+
+function withTimeout<T>(promise: Promise<T>, ms: number) {
+  let timer: NodeJS.Timeout;
+  const timeout = new Promise<never>((_resolve, reject) => {
+    timer = setTimeout(() => reject(new Error(`No answer within ${ms} ms`)), ms);
+  });
+  return Promise.race([promise, timeout]).finally(() => clearTimeout(timer));
+}
+
+export function createHealthChecks({ db, adapters, divisionsCache }: {
+  db: Database.Database;
+  adapters: AdapterRegistry;
+  divisionsCache: PollingCache<Division[]>;
+}) {
+  const startedAt = Date.now();
+  const ping = db.prepare("SELECT 1");
+
+  function health() {
+    let database = true;
+    try {
+      ping.get();
+    } catch {
+      database = false;
+    }
+    return {
+      status: database ? "ok" : "error",
+      uptimeSeconds: Math.round((Date.now() - startedAt) / 1000),
+      database
+    };
+  }
+
+  async function hospitalReadiness(id: string): Promise<HospitalReadiness> {
+    const adapter = adapters.get(id)!;
+    const circuit = adapter.breaker.state();
+    // An open circuit would only reject the check; report it without calling upstream
+    if (circuit === "open") return { ready: false, circuit, upstream: "error", session: adapter.hasSession() };
+    try {
+      const result = await withTimeout(divisionsCache.get(id), UPSTREAM_CHECK_TIMEOUT_MS);
+      const upstream = result.status === "STALE" ? "stale" : "ok";
+      const session = adapter.hasSession();
+      return {
+        ready: upstream === "ok" && session,
+        circuit: adapter.breaker.state(),
+        upstream,
+        session,
+        ageSeconds: Math.round((Date.now() - result.fetchedAt) / 1000)
+      };
+    } catch (error) {
+      return {
+        ready: false,
+        circuit: adapter.breaker.state(),
+        upstream: "error",
+        session: adapter.hasSession(),
+        error: (error as Error).message
+      };
+    }
+  }
+
+  async function readiness() {
+    const ids = adapters.list().map(info => info.id);
+    const checks = await Promise.all(ids.map(hospitalReadiness));
+    const hospitals = Object.fromEntries(ids.map((id, i) => [id, checks[i]]));
+    const ready = health().database && checks.every(check => check.ready);
+    return { status: ready ? "ready" : "not_ready", hospitals };
+  }
+
+  return { health, readiness };
+}
+
+export type HealthChecks = ReturnType<typeof createHealthChecks>;
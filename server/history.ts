@@ -0,0 +1,250 @@
+/**
+ * SQLite-backed record of every ClinicProgress row the proxy sees.
+ *
+ * A row is only written when one of the progress fields changes, so the table
+ * is a per-clinic timeline rather than a copy of every poll.
+ */
+
+import type Database from "better-sqlite3";
+import type { ClinicProgress, ProgressSnapshot } from "../src/types";
+
+interface SnapshotRow {
+  hospital_id: string;
+  recorded_at: number;
+  visit_date: string;
+  shift_code: string;
+  shift_name: string;
+  division_code: string;
+  clinic_code: string;
+  clinic_name: string;
+  doctor_emp_no: string;
+  doctor_name: string;
+  clinic_visit_state: string;
+  shift_begin: string;
+  shift_end: string;
+  current_visit_seq: string;
+  passed_seq_count: number;
+  check_in_count: string;
+}
+
+export interface TimelineQuery {
+  hospitalId: string;
+  divisionCode: string;
+  clinicCode?: string;
+  date: string;
+}
+
+/** Every recorded row for one doctor or one clinic across a range of visit dates. */
+export interface RangeQuery {
+  hospitalId: string;
+  doctorEmpNo?: string;
+  clinicCode?: string;
+  from: string;
+  to: string;
+}
+
+/** Normalizes upstream VisitDate variants (2024/03/04, 20240304, ISO) to YYYY-MM-DD. */
+export function normalizeVisitDate(value: string) {
+  const digits = String(value ?? "").replace(/T.*$/, "").replace(/\D/g, "");
+  if (digits.length !== 8) return String(value ?? "");
+  return `${digits.slice(0, 4)}-${digits.slice(4, 6)}-${digits.slice(6, 8)}`;
+}
+
+/** Today's date at the hospital, which is what VisitDate refers to. */
+export function todayVisitDate() {
+  return new Intl.DateTimeFormat("en-CA", { timeZone: "Asia/Taipei" }).format(new Date());
+}
+
+function snapshotKey(row: Pick<SnapshotRow, "hospital_id" | "visit_date" | "division_code" | "clinic_code" | "shift_code" | "doctor_emp_no">) {
+  return [row.hospital_id, row.visit_date, row.division_code, row.clinic_code, row.shift_code, row.doctor_emp_no].join("|");
+}
+
+function progressSignature(row: Pick<SnapshotRow, "current_visit_seq" | "passed_seq_count" | "check_in_count" | "clinic_visit_state">) {
+  return [row.current_visit_seq, row.passed_seq_count, row.check_in_count, row.clinic_visit_state].join("|");
+}
+
+function toRow(hospitalId: string, item: ClinicProgress, recordedAt: number): SnapshotRow {
+  return {
+    hospital_id: hospitalId,
+    recorded_at: recordedAt,
+    visit_date: normalizeVisitDate(item.VisitDate),
+    shift_code: String(item.ShiftCode ?? ""),
+    shift_name: String(item.ShiftName ?? ""),
+    division_code: String(item.DivisionCode ?? ""),
+    clinic_code: String(item.ClinicCode ?? ""),
+    clinic_name: String(item.ClinicName ?? ""),
+    doctor_emp_no: String(item.DoctorEmpNo ?? ""),
+    doctor_name: String(item.DoctorName ?? ""),
+    clinic_visit_state: String(item.ClinicVisitState ?? ""),
+    shift_begin: String(item.ShiftBeginTimeStamp ?? ""),
+    shift_end: String(item.ShiftEndTimeStamp ?? ""),
+    current_visit_seq: String(item.CurrentVisitSeq ?? ""),
+    passed_seq_count: Number(item.PassedSeqCount) || 0,
+    check_in_count: String(item.CheckInCount ?? "")
+  };
+}
+
+function fromRow(row: SnapshotRow): ProgressSnapshot {
+  return {
+    RecordedAt: new Date(row.recorded_at).toISOString(),
+    VisitDate: row.visit_date,
+    ShiftCode: row.shift_code,
+    ShiftName: row.shift_name,
+    DivisionCode: row.division_code,
+    ClinicCode: row.clinic_code,
+    ClinicName: row.clinic_name,
+    DoctorEmpNo: row.doctor_emp_no,
+    DoctorName: row.doctor_name,
+    ClinicVisitState: row.clinic_visit_state,
+    ShiftBeginTimeStamp: row.shift_begin,
+    ShiftEndTimeStamp: row.shift_end,
+    CurrentVisitSeq: row.current_visit_seq,
+    PassedSeqCount: row.passed_seq_count,
+    CheckInCount: row.check_in_count
+  };
+}
+
+export function createHistoryStore(db: Database.Database) {
+  db.exec(`
+    CREATE TABLE IF NOT EXISTS progress_snapshots (
+      id INTEGER PRIMARY KEY AUTOINCREMENT,
+      recorded_at INTEGER NOT NULL,
+      visit_date TEXT NOT NULL,
+      shift_code TEXT NOT NULL,
+      shift_name TEXT NOT NULL,
+      division_code TEXT NOT NULL,
+      clinic_code TEXT NOT NULL,
+      clinic_name TEXT NOT NULL,
+      doctor_emp_no TEXT NOT NULL,
+      doctor_name TEXT NOT NULL,
+      clinic_visit_state TEXT NOT NULL,
+      shift_begin TEXT NOT NULL,
+      shift_end TEXT NOT NULL,
+      current_visit_seq TEXT NOT NULL,
+      passed_seq_count INTEGER NOT NULL,
+      check_in_count TEXT NOT NULL
+    );
+  `);
+  // Databases created before multi-hospital support only ever held SKH data.
+  const columns = db.prepare("PRAGMA table_info(progress_snapshots)").all() as Array<{ name: string }>;
+  if (!columns.some(column => column.name === "hospital_id")) {
+    db.exec("ALTER TABLE progress_snapshots ADD COLUMN hospital_id TEXT NOT NULL DEFAULT 'skh'");
+  }
+  db.exec(`
+    DROP INDEX IF EXISTS idx_snapshots_clinic;
+    CREATE INDEX IF NOT EXISTS idx_snapshots_hospital_clinic
+      ON progress_snapshots (hospital_id, division_code, visit_date, clinic_code, recorded_at);
+    CREATE INDEX IF NOT EXISTS idx_snapshots_doctor_date
+      ON progress_snapshots (hospital_id, doctor_emp_no, visit_date);
+    CREATE INDEX IF NOT EXISTS idx_snapshots_clinic_date
+      ON progress_snapshots (hospital_id, clinic_code, visit_date);
+  `);
+
+  const insertStmt = db.prepare(`
+    INSERT INTO progress_snapshots (
+      hospital_id, recorded_at, visit_date, shift_code, shift_name, division_code, clinic_code, clinic_name,
+      doctor_emp_no, doctor_name, clinic_visit_state, shift_begin, shift_end,
+      current_visit_seq, passed_seq_count, check_in_count
+    ) VALUES (
+      @hospital_id, @recorded_at, @visit_date, @shift_code, @shift_name, @division_code, @clinic_code, @clinic_name,
+      @doctor_emp_no, @doctor_name, @clinic_visit_state, @shift_begin, @shift_end,
+      @current_visit_seq, @passed_seq_count, @check_in_count
+    )
+  `);
+  const latestStmt = db.prepare(`
+    SELECT * FROM progress_snapshots
+    WHERE hospital_id = ? AND visit_date = ? AND division_code = ? AND clinic_code = ? AND shift_code = ? AND doctor_emp_no = ?
+    ORDER BY recorded_at DESC LIMIT 1
+  `);
+  const timelineStmt = db.prepare(`
+    SELECT * FROM progress_snapshots
+    WHERE hospital_id = @hospitalId AND division_code = @divisionCode AND visit_date = @date
+      AND (@clinicCode IS NULL OR clinic_code = @clinicCode)
+    ORDER BY clinic_code, recorded_at
+  `);
+  const rangeStmt = db.prepare(`
+    SELECT * FROM progress_snapshots
+    WHERE hospital_id = @hospitalId AND visit_date BETWEEN @from AND @to
+      AND (@doctorEmpNo IS NULL OR doctor_emp_no = @doctorEmpNo)
+      AND (@clinicCode IS NULL OR clinic_code = @clinicCode)
+    ORDER BY visit_date, clinic_code, shift_code, doctor_emp_no, recorded_at
+  `);
+  const clinicsStmt = db.prepare(`
+    SELECT clinic_code, clinic_name, shift_code, shift_name, doctor_emp_no, doctor_name, COUNT(*) AS snapshots
+    FROM progress_snapshots
+    WHERE hospital_id = ? AND division_code = ? AND visit_date = ?
+    GROUP BY clinic_code, shift_code, doctor_emp_no
+    ORDER BY clinic_code, shift_code
+  `);
+
+  // Last recorded signature per clinic key; primed from the DB on first sight
+  // so a restart does not duplicate the latest snapshot. Past visit dates are
+  // dropped by forgetPastDates.
+  const lastSignatures = new Map<string, string>();
+
+  const insertMany = db.transaction((rows: SnapshotRow[]) => {
+    for (const row of rows) insertStmt.run(row);
+  });
+
+  function record(hospitalId: string, items: ClinicProgress[], recordedAt = Date.now()) {
+    const changed: SnapshotRow[] = [];
+    for (const item of items) {
+      const row = toRow(hospitalId, item, recordedAt);
+      const key = snapshotKey(row);
+      if (!lastSignatures.has(key)) {
+        const latest = latestStmt.get(row.hospital_id, row.visit_date, row.division_code, row.clinic_code, row.shift_code, row.doctor_emp_no) as SnapshotRow | undefined;
+        if (latest) lastSignatures.set(key, progressSignature(latest));
+      }
+      const signature = progressSignature(row);
+      if (lastSignatures.get(key) === signature) continue;
+      lastSignatures.set(key, signature);
+      changed.push(row);
+    }
+    if (changed.length > 0) insertMany(changed);
+    return changed.length;
+  }
+
+  /** Drops signatures of visit dates before `today`, which are not polled any more; returns how many. */
+  function forgetPastDates(today = todayVisitDate()) {
+    let forgotten = 0;
+    for (const key of lastSignatures.keys()) {
+      if (key.split("|")[1] >= today) continue;
+      lastSignatures.delete(key);
+      forgotten++;
+    }
+    return forgotten;
+  }
+
+  function getTimeline({ hospitalId, divisionCode, clinicCode, date }: TimelineQuery): ProgressSnapshot[] {
+    const rows = timelineStmt.all({ hospitalId, divisionCode, clinicCode: clinicCode ?? null, date: normalizeVisitDate(date) }) as SnapshotRow[];
+    return rows.map(fromRow);
+  }
+
+  function getRange({ hospitalId, doctorEmpNo, clinicCode, from, to }: RangeQuery): ProgressSnapshot[] {
+    const rows = rangeStmt.all({
+      hospitalId,
+      doctorEmpNo: doctorEmpNo ?? null,
+      clinicCode: clinicCode ?? null,
+      from: normalizeVisitDate(from),
+      to: normalizeVisitDate(to)
+    }) as SnapshotRow[];
+    return rows.map(fromRow);
+  }
+
+  function listClinics(hospitalId: string, divisionCode: string, date: string) {
+    const rows = clinicsStmt.all(hospitalId, divisionCode, normalizeVisitDate(date)) as Array<Record<string, string | number>>;
+    return rows.map(row => ({
+      ClinicCode: row.clinic_code,
+      ClinicName: row.clinic_name,
+      ShiftCode: row.shift_code,
+      ShiftName: row.shift_name,
+      DoctorEmpNo: row.doctor_emp_no,
+      DoctorName: row.doctor_name,
+      Snapshots: row.snapshots
+    }));
+  }
+
+  return { record, forgetPastDates, getTimeline, getRange, listClinics };
+}
+
+export type HistoryStore = ReturnType<typeof createHistoryStore>;
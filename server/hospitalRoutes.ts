@@ -0,0 +1,396 @@
+/**
+ * Routes that act on one hospital. Mounted at `/api/:hospital/...` and, for
+ * the default hospital, at the original `/api/...` paths.
+ */
+
+import express, { type Response } from "express";
+import type { BatchProgressResponse, ClinicProgress, Division, ProgressSnapshot, WatchRegistration } from "../src/types";
+import { DEFAULT_HOSPITAL, divisionKey, type AdapterRegistry, type HospitalAdapter } from "./adapters";
+import { ApiError, invalidParameter, notFound, sendError, toApiError } from "./errors";
+import { MAX_CODE_LENGTH, optionalCode, optionalDate, requireCode, requireText } from "./validation";
+import type { DivisionPoller } from "./divisionPoller";
+import type { DoctorIndex } from "./doctorIndex";
+import { normalizeVisitDate, todayVisitDate, type HistoryStore } from "./history";
+import { analyzeThroughput } from "./analytics";
+import { DEFAULT_LOCALE, isLocale, LOCALES, translate } from "../src/lib/i18n";
+import { buildCalendar, estimateVisit, progressFromSnapshot, visitEvent } from "./calendar";
+import { toCsv } from "./csv";
+import { mapSettled } from "./concurrency";
+import type { CacheResult, PollingCache } from "./progressCache";
+import type { Watch, WatchRegistry } from "./watchRegistry";
+import type { Notifier } from "./notifiers";
+
+interface HospitalRouteDeps {
+  adapters: AdapterRegistry;
+  progressCache: PollingCache<ClinicProgress[]>;
+  /** Keyed by hospital id. */
+  divisionsCache: PollingCache<Division[]>;
+  poller: DivisionPoller;
+  doctorIndex: DoctorIndex;
+  history: HistoryStore;
+  watchRegistry: WatchRegistry;
+  notifier: Notifier;
+  /** Called after a watch is added, with that watch. */
+  syncWatches: (added?: Watch) => void;
+  watchLimits: { maxPerClient: number; maxTotal: number };
+  /** Limits for `/progress` with several divisions. */
+  batch: { concurrency: number; maxDivisions: number };
+}
+
+const ageSeconds = (fetchedAt: number) => Math.floor((Date.now() - fetchedAt) / 1000);
+
+const DAY = 24 * 60 * 60 * 1000;
+const ANALYTICS_DEFAULT_DAYS = 56;
+// One code and the comma after it in a `divisions` list
+const LISTED_CODE_LENGTH = MAX_CODE_LENGTH + 1;
+const MAX_RANGE_DAYS = 366;
+
+/** `from`/`to` visit dates from the query; by default the `defaultDays` up to today. */
+function visitDateRange(query: Record<string, unknown>, defaultDays: number) {
+  const to = normalizeVisitDate(optionalDate(query.to, "to") ?? todayVisitDate());
+  const fromQuery = optionalDate(query.from, "from");
+  const from = fromQuery
+    ? normalizeVisitDate(fromQuery)
+    : new Date(Date.parse(`${to}T00:00:00Z`) - (defaultDays - 1) * DAY).toISOString().slice(0, 10);
+  if (from > to) throw invalidParameter("from must not be after to");
+  if (Date.parse(to) - Date.parse(from) >= MAX_RANGE_DAYS * DAY) throw invalidParameter(`The range must be at most ${MAX_RANGE_DAYS} days`);
+  return { from, to };
+}
+
+const PROGRESS_COLUMNS: (keyof ClinicProgress)[] = [
+  "VisitDate", "ShiftCode", "ShiftName", "DivisionCode", "DivisionName", "ClinicCode", "ClinicName",
+  "DoctorEmpNo", "DoctorName", "ClinicVisitState", "ShiftBeginTimeStamp", "ShiftEndTimeStamp", "PassedSeqCount",
+  "CurrentVisitSeq", "CurrentVisitSeqCode", "CurrentVisitSeqDesc", "NextVisitSeq", "NextVisitSeqCode",
+  "NextVisitSeqDesc", "CallSequenceCode", "CheckInCount"
+];
+
+const SNAPSHOT_COLUMNS: (keyof ProgressSnapshot)[] = [
+  "RecordedAt", "VisitDate", "ShiftCode", "ShiftName", "DivisionCode", "ClinicCode", "ClinicName", "DoctorEmpNo",
+  "DoctorName", "ClinicVisitState", "ShiftBeginTimeStamp", "ShiftEndTimeStamp", "CurrentVisitSeq", "PassedSeqCount",
+  "CheckInCount"
+];
+
+function exportFormat(value: unknown) {
+  if (value === undefined || value === "csv") return "csv";
+  if (value === "json") return "json";
+  throw invalidParameter("format must be csv or json");
+}
+
+/** Sends rows as a CSV or JSON download named `<name>.<format>`. */
+function sendExport<T extends object>(res: Response, format: "csv" | "json", name: string, rows: T[], columns: (keyof T & string)[]) {
+  res.attachment(`${name}.${format}`);
+  if (format === "json") return res.json(rows);
+  res.type("text/csv; charset=utf-8").send(toCsv(rows, columns));
+}
+
+/** Cache status and age as headers, so array bodies keep their shape. */
+function sendCached<T>(res: Response, result: CacheResult<T>) {
+  res.set("X-Cache", result.status);
+  res.set("Age", String(ageSeconds(result.fetchedAt)));
+  if (result.status === "STALE") res.set("X-Stale", "true");
+  res.json(result.data);
+}
+
+export function createHospitalRouter({ adapters, progressCache, divisionsCache, poller, doctorIndex, history, watchRegistry, notifier, syncWatches, watchLimits, batch }: HospitalRouteDeps) {
+  const router = express.Router({ mergeParams: true });
+  const adapterOf = (res: Response) => res.locals.adapter as HospitalAdapter;
+
+  router.use((req, res, next) => {
+    const params = req.params as { hospital?: string };
+    const adapter = adapters.get(params.hospital ?? DEFAULT_HOSPITAL);
+    if (!adapter) return sendError(res, notFound(`Unknown hospital: ${params.hospital}`));
+    res.locals.adapter = adapter;
+    next();
+  });
+
+  // Proxy for RegistrationDivision
+  router.get("/RegistrationDivision", async (req, res) => {
+    try {
+      sendCached(res, await divisionsCache.get(adapterOf(res).info.id));
+    } catch (error) {
+      sendError(res, error);
+    }
+  });
+
+  // Proxy for AppointmentProgress
+  router.get("/AppointmentProgress", async (req, res) => {
+    try {
+      const divisionCode = requireCode(req.query.DivisionCode, "DivisionCode");
+      sendCached(res, await progressCache.get(divisionKey(adapterOf(res).info.id, divisionCode)));
+    } catch (error) {
+      sendError(res, error);
+    }
+  });
+
+  // Several divisions in one round trip. Each is fetched through the shared cache, and one
+  // failing division is reported in its own entry rather than failing the whole request
+  router.get("/progress", async (req, res) => {
+    try {
+      const hospitalId = adapterOf(res).info.id;
+      const list = requireText(req.query.divisions, "divisions", batch.maxDivisions * LISTED_CODE_LENGTH);
+      const listed = list.split(",").map(code => code.trim());
+      if (listed.length > batch.maxDivisions) throw invalidParameter(`At most ${batch.maxDivisions} divisions per request`);
+      const divisionCodes = [...new Set(listed.map(code => requireCode(code, "divisions")))];
+      const results = await mapSettled(divisionCodes, batch.concurrency, code => progressCache.get(divisionKey(hospitalId, code)));
+      const body: BatchProgressResponse = { divisions: {} };
+      results.forEach((result, i) => {
+        body.divisions[divisionCodes[i]] = result.status === "fulfilled"
+          ? {
+              rows: result.value.data,
+              fetchedAt: new Date(result.value.fetchedAt).toISOString(),
+              stale: result.value.status === "STALE",
+              ageSeconds: ageSeconds(result.value.fetchedAt)
+            }
+          : toApiError(result.reason).toEnvelope();
+      });
+      res.json(body);
+    } catch (error) {
+      sendError(res, error);
+    }
+  });
+
+  // Doctor / clinic search across every division, served from the periodic index
+  router.get("/search", (req, res) => {
+    try {
+      res.json(doctorIndex.search(adapterOf(res).info.id, requireText(req.query.q, "q", 50)));
+    } catch (error) {
+      sendError(res, error);
+    }
+  });
+
+  // Server-Sent Events: a full snapshot on connect, then only the rows that changed
+  router.get("/stream", async (req, res) => {
+    const hospitalId = adapterOf(res).info.id;
+    // Registered before the first upstream fetch, which may outlast the client
+    let stop = () => {};
+    req.on("close", () => stop());
+    let divisionCode: string;
+    let snapshot;
+    try {
+      divisionCode = requireCode(req.query.DivisionCode, "DivisionCode");
+      snapshot = await progressCache.get(divisionKey(hospitalId, divisionCode));
+    } catch (error) {
+      return sendError(res, error);
+    }
+    if (req.destroyed || res.writableEnded) return;
+
+    res.writeHead(200, {
+      "Content-Type": "text/event-stream",
+      "Cache-Control": "no-cache",
+      "Connection": "keep-alive",
+      "X-Accel-Buffering": "no"
+    });
+    const send = (event: string, data: unknown) => {
+      res.write(`event: ${event}\ndata: ${JSON.stringify(data)}\n\n`);
+    };
+    send("snapshot", {
+      DivisionCode: divisionCode,
+      rows: snapshot.data,
+      fetchedAt: new Date(snapshot.fetchedAt).toISOString(),
+      stale: snapshot.status === "STALE",
+      ageSeconds: ageSeconds(snapshot.fetchedAt)
+    });
+
+    const unsubscribe = poller.subscribe(hospitalId, divisionCode, {
+      onUpdate: update => send("update", {
+        DivisionCode: divisionCode,
+        changed: update.changed,
+        removed: update.removed,
+        fetchedAt: new Date(update.fetchedAt).toISOString()
+      }),
+      onError: error => send("upstream-error", { DivisionCode: divisionCode, ...toApiError(error).toEnvelope() }),
+      onStale: (stale, fetchedAt) => send("status", { DivisionCode: divisionCode, stale, ageSeconds: ageSeconds(fetchedAt) })
+    }, snapshot.data);
+    const heartbeat = setInterval(() => res.write(": ping\n\n"), 15000);
+
+    stop = () => {
+      clearInterval(heartbeat);
+      unsubscribe();
+    };
+  });
+
+  // Register a background watch for one number in a division (optionally one clinic/shift),
+  // delivered to push, webhook and/or email channels
+  router.post("/watches", async (req, res) => {
+    const body = req.body as Partial<WatchRegistration>;
+    try {
+      const hospitalId = adapterOf(res).info.id;
+      const divisionCode = requireCode(body?.DivisionCode, "DivisionCode");
+      const clinicCode = optionalCode(body?.ClinicCode ?? undefined, "ClinicCode");
+      const shiftCode = optionalCode(body?.ShiftCode ?? undefined, "ShiftCode");
+      if (!Number.isInteger(body.number) || body.number! <= 0) throw invalidParameter("number must be a positive integer");
+      if (!Number.isInteger(body.notifyBefore) || body.notifyBefore! <= 0) throw invalidParameter("notifyBefore must be a positive integer");
+      if (body.locale !== undefined && !isLocale(body.locale)) throw invalidParameter(`locale must be one of ${LOCALES.join(", ")}`);
+      // Every watch keeps its division polled, so only real divisions and a bounded number of them
+      const divisions = (await divisionsCache.get(hospitalId)).data;
+      const known = divisions.some(division =>
+        division.DivisionCode === divisionCode || division.SubDivisions.some(sub => sub.DivisionCode === divisionCode));
+      if (!known) throw invalidParameter(`DivisionCode ${divisionCode} is not a division of this hospital`);
+      const client = req.ip ?? req.socket.remoteAddress ?? "unknown";
+      if (watchRegistry.countByClient(client) >= watchLimits.maxPerClient) {
+        throw new ApiError("RATE_LIMITED", `At most ${watchLimits.maxPerClient} watches per client`, 429);
+      }
+      if (watchRegistry.count() >= watchLimits.maxTotal) {
+        throw new ApiError("RATE_LIMITED", "The server is holding as many watches as it can, try again later", 429, true);
+      }
+      const channels = await notifier.parseChannels(body.channels, body.subscription);
+      const watch = watchRegistry.add({
+        hospital: hospitalId,
+        DivisionCode: divisionCode,
+        ClinicCode: clinicCode ?? null,
+        ShiftCode: shiftCode ?? null,
+        number: body.number!,
+        notifyBefore: body.notifyBefore!,
+        locale: body.locale,
+        channels,
+        client
+      });
+      syncWatches(watch);
+      res.status(201).json({ id: watch.id });
+    } catch (error) {
+      sendError(res, error);
+    }
+  });
+
+  // Recorded per-clinic timeline for one visit date
+  router.get("/history", (req, res) => {
+    try {
+      res.json(history.getTimeline({
+        hospitalId: adapterOf(res).info.id,
+        divisionCode: requireCode(req.query.DivisionCode, "DivisionCode"),
+        clinicCode: optionalCode(req.query.ClinicCode, "ClinicCode"),
+        date: optionalDate(req.query.date, "date") ?? todayVisitDate()
+      }));
+    } catch (error) {
+      sendError(res, error);
+    }
+  });
+
+  // Minutes per patient and shift start delays for one doctor, across every clinic they ran
+  router.get("/analytics/doctor/:DoctorEmpNo", (req, res) => {
+    try {
+      const doctorEmpNo = requireCode(req.params.DoctorEmpNo, "DoctorEmpNo");
+      const { from, to } = visitDateRange(req.query, ANALYTICS_DEFAULT_DAYS);
+      const rows = history.getRange({ hospitalId: adapterOf(res).info.id, doctorEmpNo, from, to });
+      if (rows.length === 0) return sendError(res, notFound(`No recorded history for doctor ${doctorEmpNo}`));
+      const latest = rows[rows.length - 1];
+      res.json({ DoctorEmpNo: doctorEmpNo, DoctorName: latest.DoctorName, ...analyzeThroughput(rows, from, to) });
+    } catch (error) {
+      sendError(res, error);
+    }
+  });
+
+  // The same statistics for one clinic, whoever was seeing patients in it
+  router.get("/analytics/clinic/:ClinicCode", (req, res) => {
+    try {
+      const clinicCode = requireCode(req.params.ClinicCode, "ClinicCode");
+      const { from, to } = visitDateRange(req.query, ANALYTICS_DEFAULT_DAYS);
+      const rows = history.getRange({ hospitalId: adapterOf(res).info.id, clinicCode, from, to });
+      if (rows.length === 0) return sendError(res, notFound(`No recorded history for clinic ${clinicCode}`));
+      const analytics = analyzeThroughput(rows, from, to);
+      const doctors = new Map<string, { DoctorEmpNo: string; DoctorName: string; sessions: Set<string> }>();
+      for (const row of rows) {
+        const doctor = doctors.get(row.DoctorEmpNo) ?? { DoctorEmpNo: row.DoctorEmpNo, DoctorName: row.DoctorName, sessions: new Set() };
+        doctor.sessions.add(`${row.VisitDate}|${row.ShiftCode}`);
+        doctors.set(row.DoctorEmpNo, doctor);
+      }
+      res.json({
+        ClinicCode: clinicCode,
+        ClinicName: rows[rows.length - 1].ClinicName,
+        doctors: [...doctors.values()]
+          .map(({ sessions, ...doctor }) => ({ ...doctor, sessions: sessions.size }))
+          .sort((a, b) => b.sessions - a.sessions),
+        ...analytics
+      });
+    } catch (error) {
+      sendError(res, error);
+    }
+  });
+
+  // One clinic session as an iCalendar event. Subscribed calendars re-fetch the URL and
+  // pick up the latest predicted call time; past dates are served from history
+  router.get("/calendar.ics", async (req, res) => {
+    try {
+      const { id: hospitalId, name: hospitalName } = adapterOf(res).info;
+      const divisionCode = requireCode(req.query.DivisionCode, "DivisionCode");
+      const clinicCode = requireCode(req.query.ClinicCode, "ClinicCode");
+      const shiftCode = requireCode(req.query.ShiftCode, "ShiftCode");
+      const number = Number(req.query.number);
+      if (!Number.isInteger(number) || number <= 0) throw invalidParameter("number must be a positive integer");
+      const locale = req.query.locale ?? DEFAULT_LOCALE;
+      if (!isLocale(locale)) throw invalidParameter(`locale must be one of ${LOCALES.join(", ")}`);
+      const today = todayVisitDate();
+      const date = normalizeVisitDate(optionalDate(req.query.date, "date") ?? today);
+
+      const inSession = (row: { ClinicCode: string; ShiftCode: string }) => row.ClinicCode === clinicCode && row.ShiftCode === shiftCode;
+      const timeline = history.getTimeline({ hospitalId, divisionCode, clinicCode, date }).filter(inSession);
+      let item: ClinicProgress | undefined;
+      let fetchedAt = Date.now();
+      if (date === today) {
+        const live = await progressCache.get(divisionKey(hospitalId, divisionCode));
+        item = live.data.find(inSession);
+        fetchedAt = live.fetchedAt;
+      }
+      const last = timeline[timeline.length - 1];
+      if (!item && last) {
+        item = progressFromSnapshot(last);
+        fetchedAt = Date.parse(last.RecordedAt);
+      }
+      // A session that has not been published yet is an empty calendar, so a subscription made early keeps working
+      if (!item && date < today) return sendError(res, notFound(`No recorded session for clinic ${clinicCode} on ${date}`));
+
+      const name = translate(locale, "calendar.name", { hospital: hospitalName, clinic: item?.ClinicName ?? clinicCode, number });
+      const events = item
+        ? [visitEvent({ hospitalId, hospitalName, item, number, fetchedAt, locale, eta: date === today ? estimateVisit(item, timeline, number) : null })]
+        : [];
+      res.set("Cache-Control", "no-cache");
+      res.set("Content-Disposition", `inline; filename="${hospitalId}-${date}-${clinicCode}-${number}.ics"`);
+      res.type("text/calendar; charset=utf-8").send(buildCalendar(name, events));
+    } catch (error) {
+      sendError(res, error);
+    }
+  });
+
+  // The current ClinicProgress table of a division as CSV or JSON
+  router.get("/export/progress", async (req, res) => {
+    try {
+      const hospitalId = adapterOf(res).info.id;
+      const divisionCode = requireCode(req.query.DivisionCode, "DivisionCode");
+      const format = exportFormat(req.query.format);
+      const result = await progressCache.get(divisionKey(hospitalId, divisionCode));
+      sendExport(res, format, `progress-${hospitalId}-${divisionCode}-${todayVisitDate()}`, result.data, PROGRESS_COLUMNS);
+    } catch (error) {
+      sendError(res, error);
+    }
+  });
+
+  // Recorded timeline of one clinic or one doctor over a range of visit dates; today by default
+  router.get("/export/timeline", (req, res) => {
+    try {
+      const hospitalId = adapterOf(res).info.id;
+      const clinicCode = optionalCode(req.query.ClinicCode, "ClinicCode");
+      const doctorEmpNo = optionalCode(req.query.DoctorEmpNo, "DoctorEmpNo");
+      if (!clinicCode === !doctorEmpNo) throw invalidParameter("Exactly one of ClinicCode or DoctorEmpNo is required");
+      const format = exportFormat(req.query.format);
+      const { from, to } = visitDateRange(req.query, 1);
+      const rows = history.getRange({ hospitalId, clinicCode, doctorEmpNo, from, to });
+      const subject = clinicCode ? `clinic-${clinicCode}` : `doctor-${doctorEmpNo}`;
+      sendExport(res, format, `timeline-${hospitalId}-${subject}-${from}-${to}`, rows, SNAPSHOT_COLUMNS);
+    } catch (error) {
+      sendError(res, error);
+    }
+  });
+
+  // Clinics that have recorded history in a division on one visit date
+  router.get("/history/clinics", (req, res) => {
+    try {
+      const divisionCode = requireCode(req.query.DivisionCode, "DivisionCode");
+      const date = optionalDate(req.query.date, "date") ?? todayVisitDate();
+      res.json(history.listClinics(adapterOf(res).info.id, divisionCode, date));
+    } catch (error) {
+      sendError(res, error);
+    }
+  });
+
+  return router;
+}
@@ -0,0 +1,25 @@
+/**
+ * Leveled console logging. Messages below the configured level (LOG_LEVEL,
+ * `info` by default) are dropped; `debug` adds a line per upstream call.
+ */
+
+export const LOG_LEVELS = ["debug", "info", "warn", "error"] as const;
+
+export type LogLevel = (typeof LOG_LEVELS)[number];
+
+let threshold = LOG_LEVELS.indexOf("info");
+
+export function setLogLevel(level: LogLevel) {
+  threshold = LOG_LEVELS.indexOf(level);
+}
+
+const at = (level: LogLevel) => (...args: unknown[]) => {
+  if (LOG_LEVELS.indexOf(level) >= threshold) console[level](...args);
+};
+
+export const log = {
+  debug: at("debug"),
+  info: at("info"),
+  warn: at("warn"),
+  error: at("error")
+};
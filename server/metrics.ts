@@ -0,0 +1,163 @@
+/**
+ * Prometheus metrics for `/metrics`.
+ *
+ * Modules do not import prom-client themselves; they take the small hook
+ * interfaces below as options (like the upstream recorder), and this file
+ * turns the hooks into counters and histograms.
+ */
+
+import type { NextFunction, Request, Response } from "express";
+import { Counter, Gauge, Histogram, Registry, collectDefaultMetrics } from "prom-client";
+import type { CacheStatus } from "./progressCache";
+import type { CircuitState } from "./resilience";
+import type { RateLimitScope } from "./rateLimit";
+
+/** Reported by hospital adapters for every upstream call. */
+export interface UpstreamMetrics {
+  request(endpoint: string, status: number | "network_error", seconds: number): void;
+  sessionRefreshed(): void;
+}
+
+const CIRCUIT_VALUES: Record<CircuitState, number> = { closed: 0, "half-open": 1, open: 2 };
+
+export interface MetricsSources {
+  activeWatchers: () => number;
+  registeredWatches: () => number;
+  polledDivisions: () => number;
+  circuits: () => Record<string, CircuitState>;
+}
+
+export function createMetrics() {
+  const registry = new Registry();
+  collectDefaultMetrics({ register: registry, prefix: "easecheck_" });
+
+  const httpRequests = new Counter({
+    name: "easecheck_http_requests_total",
+    help: "API requests by route and response status",
+    labelNames: ["method", "route", "status"],
+    registers: [registry]
+  });
+  const upstreamDuration = new Histogram({
+    name: "easecheck_upstream_request_duration_seconds",
+    help: "Latency of hospital API calls",
+    labelNames: ["hospital", "endpoint"],
+    buckets: [0.05, 0.1, 0.25, 0.5, 1, 2, 5, 10],
+    registers: [registry]
+  });
+  const upstreamResponses = new Counter({
+    name: "easecheck_upstream_responses_total",
+    help: "Hospital API responses by status code (network_error when there was none)",
+    labelNames: ["hospital", "endpoint", "status"],
+    registers: [registry]
+  });
+  const sessionRefreshes = new Counter({
+    name: "easecheck_upstream_session_refreshes_total",
+    help: "Times a hospital session cookie was (re)fetched",
+    labelNames: ["hospital"],
+    registers: [registry]
+  });
+  const cacheLookups = new Counter({
+    name: "easecheck_cache_lookups_total",
+    help: "Polling cache lookups by result",
+    labelNames: ["cache", "result"],
+    registers: [registry]
+  });
+  const rateLimitedRequests = new Counter({
+    name: "easecheck_rate_limited_requests_total",
+    help: "API requests rejected with 429, by the bucket that ran out",
+    labelNames: ["scope"],
+    registers: [registry]
+  });
+  const cacheCounts = new Map<string, { hits: number; total: number }>();
+
+  function upstream(hospital: string): UpstreamMetrics {
+    return {
+      request(endpoint, status, seconds) {
+        upstreamDuration.observe({ hospital, endpoint }, seconds);
+        upstreamResponses.inc({ hospital, endpoint, status: String(status) });
+      },
+      sessionRefreshed() {
+        sessionRefreshes.inc({ hospital });
+      }
+    };
+  }
+
+  /** Hook for createPollingCache's `onLookup`. HIT and COALESCED did not call upstream. */
+  function cache(name: string) {
+    return (status: CacheStatus) => {
+      cacheLookups.inc({ cache: name, result: status });
+      const counts = cacheCounts.get(name) ?? { hits: 0, total: 0 };
+      counts.total++;
+      if (status === "HIT" || status === "COALESCED") counts.hits++;
+      cacheCounts.set(name, counts);
+    };
+  }
+
+  /** Hook for createRateLimiter's `onLimited`. */
+  function rateLimited(scope: RateLimitScope) {
+    rateLimitedRequests.inc({ scope });
+  }
+
+  /** Gauges read from live state whenever Prometheus scrapes. */
+  function observe(sources: MetricsSources) {
+    new Gauge({
+      name: "easecheck_cache_hit_ratio",
+      help: "Share of cache lookups served without an upstream call",
+      labelNames: ["cache"],
+      registers: [registry],
+      collect() {
+        for (const [name, { hits, total }] of cacheCounts) this.set({ cache: name }, total ? hits / total : 0);
+      }
+    });
+    new Gauge({
+      name: "easecheck_active_watchers",
+      help: "Open /stream connections plus background watch subscriptions on the division poller",
+      registers: [registry],
+      collect() { this.set(sources.activeWatchers()); }
+    });
+    new Gauge({
+      name: "easecheck_registered_watches",
+      help: "Background watches waiting to notify",
+      registers: [registry],
+      collect() { this.set(sources.registeredWatches()); }
+    });
+    new Gauge({
+      name: "easecheck_polled_divisions",
+      help: "Divisions the server is currently polling for streams and watches",
+      registers: [registry],
+      collect() { this.set(sources.polledDivisions()); }
+    });
+    new Gauge({
+      name: "easecheck_upstream_circuit_state",
+      help: "Upstream circuit breaker: 0 closed, 1 half-open, 2 open",
+      labelNames: ["hospital"],
+      registers: [registry],
+      collect() {
+        for (const [hospital, state] of Object.entries(sources.circuits())) this.set({ hospital }, CIRCUIT_VALUES[state]);
+      }
+    });
+  }
+
+  /** Counts every /api request once it has been answered, labelled by its route pattern. */
+  function httpMiddleware(req: Request, res: Response, next: NextFunction) {
+    res.on("finish", () => {
+      const params = req.params as { hospital?: string };
+      const base = params.hospital ? "/api/:hospital" : req.baseUrl;
+      const route = req.route ? `${base}${req.route.path}` : "unmatched";
+      httpRequests.inc({ method: req.method, route, status: String(res.statusCode) });
+    });
+    next();
+  }
+
+  return {
+    upstream,
+    cache,
+    rateLimited,
+    observe,
+    httpMiddleware,
+    contentType: registry.contentType,
+    render: () => registry.metrics()
+  };
+}
+
+export type Metrics = ReturnType<typeof createMetrics>;
@@ -0,0 +1,133 @@
+/**
+ * Fans a WatchEvent out to a watch's channels: browser push, signed webhook
+ * or email. Channels that are not configured on this server are rejected
+ * when the watch is registered rather than failing silently later.
+ */
+
+import type { NotificationChannel, PushSubscriptionData, WatchEvent } from "../../src/types";
+import { DEFAULT_LOCALE, translate, type Locale, type MessageKey } from "../../src/lib/i18n";
+import { notificationTag } from "../../src/lib/alerts";
+import { invalidParameter } from "../errors";
+import type { PushSender } from "../webPush";
+import type { TargetGuard } from "../notifyTargets";
+import { createEmailChannel, type EmailOptions } from "./email";
+import { createPushChannel } from "./push";
+import type { ChannelSenders, NotificationMessage } from "./types";
+import { createWebhookChannel } from "./webhook";
+
+export { ChannelGoneError } from "./types";
+export { loadWebhookSecret } from "./webhook";
+
+const EVENT_MESSAGES: Record<WatchEvent["type"], { title: MessageKey; body: MessageKey }> = {
+  approaching: { title: "event.approaching.title", body: "event.approaching.body" },
+  paused: { title: "event.paused.title", body: "event.paused.body" },
+  "shift-ended": { title: "event.shiftEnded.title", body: "event.shiftEnded.body" }
+};
+
+/** Notification text for an event in the watch's locale, from the client's message catalogs. */
+export function describeEvent(event: WatchEvent, locale: Locale = DEFAULT_LOCALE): NotificationMessage {
+  const messages = EVENT_MESSAGES[event.type];
+  const params = {
+    hospital: event.hospitalName,
+    clinic: `${event.ClinicName} (${event.DoctorName})`,
+    current: event.CurrentVisitSeq,
+    number: event.number,
+    remaining: event.remaining,
+    shift: event.ShiftName
+  };
+  return {
+    title: translate(locale, messages.title, params),
+    body: translate(locale, messages.body, params),
+    tag: notificationTag(event.type, event, event.number),
+    url: "/"
+  };
+}
+
+export function createNotifier({ push, webhookSecret, email, targets }: {
+  push: PushSender;
+  webhookSecret: string;
+  email?: EmailOptions;
+  targets: TargetGuard;
+}) {
+  const senders: ChannelSenders = {
+    push: createPushChannel(push),
+    webhook: createWebhookChannel(webhookSecret, targets),
+    ...(email ? { email: createEmailChannel(email) } : {})
+  };
+
+  const supports = (type: string) => type in senders;
+
+  function send(channel: NotificationChannel, event: WatchEvent, locale?: Locale) {
+    const message = describeEvent(event, locale);
+    // Narrowed per type, so each sender only ever gets its own kind of channel
+    const sent = channel.type === "push" ? senders.push?.send(channel, event, message)
+      : channel.type === "webhook" ? senders.webhook?.send(channel, event, message)
+      : senders.email?.send(channel, event, message);
+    return sent ?? Promise.reject(new Error(`Notification channel ${channel.type} is not configured`));
+  }
+
+  async function requirePublic(url: string, message: string) {
+    try {
+      await targets.check(url);
+    } catch {
+      throw invalidParameter(message);
+    }
+  }
+
+  /**
+   * Validates a request's `channels` (plus the `subscription` shorthand) into NotificationChannel[].
+   * Push endpoints and webhook URLs must resolve to public addresses.
+   */
+  async function parseChannels(channels: unknown, subscription: unknown): Promise<NotificationChannel[]> {
+    const input = [
+      ...(subscription !== undefined ? [{ type: "push", subscription }] : []),
+      ...(channels === undefined ? [] : Array.isArray(channels) ? channels : [null])
+    ];
+    if (input.length === 0) throw invalidParameter("At least one notification channel is required");
+    if (input.length > 5) throw invalidParameter("At most 5 notification channels are allowed");
+    const parsed = input.map((raw, index): NotificationChannel => {
+      const channel = raw as {
+        type?: unknown;
+        subscription?: Partial<PushSubscriptionData> & { keys?: Partial<PushSubscriptionData["keys"]> };
+        url?: unknown;
+        secret?: unknown;
+        to?: unknown;
+      } | null;
+      const at = `channels[${index}]`;
+      if (!channel || typeof channel.type !== "string") throw invalidParameter(`${at} must be an object with a type`);
+      if (!supports(channel.type)) throw invalidParameter(`${at}: ${channel.type} notifications are not available on this server`);
+      switch (channel.type) {
+        case "push": {
+          const sub = channel.subscription;
+          if (
+            typeof sub?.endpoint !== "string" || !/^https?:\/\//.test(sub.endpoint) ||
+            typeof sub.keys?.p256dh !== "string" || typeof sub.keys?.auth !== "string"
+          ) {
+            throw invalidParameter(`${at}: subscription must be a PushSubscription with endpoint and keys`);
+          }
+          return { type: "push", subscription: { endpoint: sub.endpoint, keys: { p256dh: sub.keys.p256dh, auth: sub.keys.auth } } };
+        }
+        case "webhook":
+          if (typeof channel.url !== "string" || !/^https?:\/\/\S+$/.test(channel.url)) throw invalidParameter(`${at}: url must be an http(s) URL`);
+          if (channel.secret !== undefined && (typeof channel.secret !== "string" || channel.secret.length > 256)) {
+            throw invalidParameter(`${at}: secret must be a string of at most 256 characters`);
+          }
+          return { type: "webhook", url: channel.url, ...(channel.secret ? { secret: channel.secret as string } : {}) };
+        case "email":
+          if (typeof channel.to !== "string" || !/^[^\s@]+@[^\s@]+$/.test(channel.to)) throw invalidParameter(`${at}: to must be an email address`);
+          return { type: "email", to: channel.to };
+        default:
+          throw invalidParameter(`${at}: unknown channel type ${channel.type}`);
+      }
+    });
+    await Promise.all(parsed.map((channel, index) => {
+      if (channel.type === "push") return requirePublic(channel.subscription.endpoint, `channels[${index}]: subscription endpoint must be on a public host`);
+      if (channel.type === "webhook") return requirePublic(channel.url, `channels[${index}]: url must be on a public host`);
+    }));
+    return parsed;
+  }
+
+  return { send, supports, parseChannels };
+}
+
+export type Notifier = ReturnType<typeof createNotifier>;
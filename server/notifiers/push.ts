@@ -0,0 +1,16 @@
+import type { NotificationChannel } from "../../src/types";
+import { PushSubscriptionGoneError, type PushSender } from "../webPush";
+import { ChannelGoneError, type ChannelSender } from "./types";
+
+export function createPushChannel(push: PushSender): ChannelSender<Extract<NotificationChannel, { type: "push" }>> {
+  return {
+    async send(channel, _event, message) {
+      try {
+        await push.send(channel.subscription, message);
+      } catch (error) {
+        if (error instanceof PushSubscriptionGoneError) throw new ChannelGoneError("push", error.status);
+        throw error;
+      }
+    }
+  };
+}
@@ -0,0 +1,26 @@
+import type { NotificationChannel, WatchEvent } from "../../src/types";
+
+/** What a human reads: push title/body, email subject/text. */
+export interface NotificationMessage {
+  title: string;
+  body: string;
+  tag: string;
+  url: string;
+}
+
+/** Delivers one kind of NotificationChannel. */
+export interface ChannelSender<C extends NotificationChannel = NotificationChannel> {
+  send(channel: C, event: WatchEvent, message: NotificationMessage): Promise<void>;
+}
+
+/** The sender for each configured channel type. */
+export type ChannelSenders = {
+  [T in NotificationChannel["type"]]?: ChannelSender<Extract<NotificationChannel, { type: T }>>;
+};
+
+/** The destination says it no longer exists; the watch should stop using this channel. */
+export class ChannelGoneError extends Error {
+  constructor(public channelType: NotificationChannel["type"], status: number) {
+    super(`${channelType} destination gone (${status})`);
+  }
+}
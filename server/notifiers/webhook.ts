@@ -0,0 +1,56 @@
+/**
+ * Generic JSON webhook. The body is the WatchEvent; receivers verify it with
+ *
+ *   X-EaseCheck-Signature: sha256=HMAC_SHA256(secret, `${X-EaseCheck-Timestamp}.${body}`)
+ *
+ * using the channel's own secret, or the server-wide WEBHOOK_SECRET.
+ */
+
+import type Database from "better-sqlite3";
+import fetch from "node-fetch";
+import { createHmac, randomBytes } from "crypto";
+import type { NotificationChannel } from "../../src/types";
+import { getSetting, setSetting } from "../db";
+import type { TargetGuard } from "../notifyTargets";
+import { ChannelGoneError, type ChannelSender } from "./types";
+
+const TIMEOUT_MS = 10 * 1000;
+
+/** The configured WEBHOOK_SECRET, or a secret generated once and kept in the settings table. */
+export function loadWebhookSecret(db: Database.Database, configured?: string) {
+  if (configured) return configured;
+  const stored = getSetting(db, "webhook_secret");
+  if (stored) return stored;
+  const generated = randomBytes(32).toString("hex");
+  setSetting(db, "webhook_secret", generated);
+  return generated;
+}
+
+export function signWebhook(secret: string, timestamp: string, body: string) {
+  return `sha256=${createHmac("sha256", secret).update(`${timestamp}.${body}`).digest("hex")}`;
+}
+
+export function createWebhookChannel(defaultSecret: string, targets: TargetGuard): ChannelSender<Extract<NotificationChannel, { type: "webhook" }>> {
+  return {
+    async send(channel, event) {
+      const body = JSON.stringify(event);
+      const timestamp = String(Math.floor(Date.now() / 1000));
+      await targets.check(channel.url);
+      const response = await fetch(channel.url, {
+        ...targets.fetchOptions(channel.url),
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+          "User-Agent": "EaseCheck-Webhook",
+          "X-EaseCheck-Event": event.type,
+          "X-EaseCheck-Timestamp": timestamp,
+          "X-EaseCheck-Signature": signWebhook(channel.secret || defaultSecret, timestamp, body)
+        },
+        body,
+        timeout: TIMEOUT_MS
+      });
+      if (response.status === 404 || response.status === 410) throw new ChannelGoneError("webhook", response.status);
+      if (!response.ok) throw new Error(`Webhook ${channel.url} returned ${response.status}`);
+    }
+  };
+}
@@ -0,0 +1,107 @@
+/**
+ * Guards the URLs that anonymous clients hand us for push endpoints and
+ * webhooks, so a watch cannot make the server POST to itself or into the
+ * network it runs in. Hosts must resolve to public addresses only, unless
+ * they are listed in NOTIFY_ALLOWED_HOSTS (e.g. localhost for the sinks).
+ *
+ * The check runs when a watch is registered and again on every delivery:
+ * connections go through agents that refuse private addresses at lookup
+ * time, so a host cannot pass the check and then re-resolve elsewhere.
+ */
+
+import { BlockList, isIP, type LookupFunction } from "net";
+import { lookup, type LookupAddress } from "dns";
+import { Agent as HttpAgent } from "http";
+import { Agent as HttpsAgent } from "https";
+
+const PRIVATE = new BlockList();
+for (const [network, prefix] of [
+  ["0.0.0.0", 8], // "this" network
+  ["10.0.0.0", 8],
+  ["100.64.0.0", 10], // carrier-grade NAT
+  ["127.0.0.0", 8],
+  ["169.254.0.0", 16], // link-local, including cloud metadata at 169.254.169.254
+  ["172.16.0.0", 12],
+  ["192.0.0.0", 24],
+  ["192.168.0.0", 16],
+  ["198.18.0.0", 15], // benchmarking
+  ["224.0.0.0", 4], // multicast
+  ["240.0.0.0", 4] // reserved and broadcast
+] as const) {
+  PRIVATE.addSubnet(network, prefix, "ipv4");
+}
+for (const [network, prefix] of [
+  ["::", 128],
+  ["::1", 128],
+  ["fc00::", 7], // unique local, including fd00:ec2::254 metadata
+  ["fe80::", 10],
+  ["ff00::", 8]
+] as const) {
+  PRIVATE.addSubnet(network, prefix, "ipv6");
+}
+
+/** Loopback, private, link-local, metadata and other addresses that are not on the public internet. */
+export function isPrivateAddress(address: string) {
+  const mapped = address.match(/^::ffff:(\d+\.\d+\.\d+\.\d+)$/i);
+  if (mapped) return PRIVATE.check(mapped[1], "ipv4");
+  const family = isIP(address);
+  if (family === 0) return true;
+  return PRIVATE.check(address, family === 4 ? "ipv4" : "ipv6");
+}
+
+export class BlockedTargetError extends Error {
+  constructor(public host: string) {
+    super(`${host} is not a public address`);
+  }
+}
+
+export function createTargetGuard(allowedHosts: string[]) {
+  const allowed = new Set(allowedHosts.map(host => host.toLowerCase()));
+  const isAllowed = (host: string) => allowed.has(host.toLowerCase());
+
+  /** dns.lookup that fails for private addresses, for agents to connect through. */
+  const guardedLookup: LookupFunction = (hostname, options, callback) => {
+    lookup(hostname, { ...options, all: true }, (error, addresses) => {
+      if (error) return callback(error, []);
+      if (!isAllowed(hostname) && addresses.some(entry => isPrivateAddress(entry.address))) {
+        return callback(Object.assign(new BlockedTargetError(hostname), { code: "EBLOCKED" }), []);
+      }
+      if (options.all) return callback(null, addresses);
+      callback(null, addresses[0].address, addresses[0].family);
+    });
+  };
+
+  const agents = {
+    http: new HttpAgent({ lookup: guardedLookup }),
+    https: new HttpsAgent({ lookup: guardedLookup })
+  };
+
+  /** Throws BlockedTargetError unless `url` is http(s) on a public (or allowed) host. */
+  async function check(url: string) {
+    const parsed = new URL(url);
+    if (parsed.protocol !== "http:" && parsed.protocol !== "https:") throw new BlockedTargetError(parsed.protocol);
+    const host = parsed.hostname.replace(/^\[(.*)\]$/, "$1");
+    if (isAllowed(host)) return;
+    const addresses = isIP(host) ? [host] : (await lookupAll(host)).map(entry => entry.address);
+    if (addresses.length === 0 || addresses.some(isPrivateAddress)) throw new BlockedTargetError(host);
+  }
+
+  /**
+   * node-fetch options for a request to `url`, which must have passed `check`.
+   * Redirects are not followed, since they could lead anywhere.
+   */
+  const fetchOptions = (url: string) => ({
+    agent: url.startsWith("https:") ? agents.https : agents.http,
+    redirect: "manual" as const
+  });
+
+  return { check, fetchOptions };
+}
+
+function lookupAll(host: string) {
+  return new Promise<LookupAddress[]>((resolve, reject) => {
+    lookup(host, { all: true }, (error, addresses) => (error ? reject(error) : resolve(addresses)));
+  });
+}
+
+export type TargetGuard = ReturnType<typeof createTargetGuard>;
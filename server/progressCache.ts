@@ -0,0 +1,92 @@
+/**
+ * Shared, per-key polling cache in front of the hospital API.
+ *
+ * Every browser tab asks for the same DivisionCode every few seconds; this
+ * cache makes sure the upstream is hit at most once per `ttlMs` per key and
+ * that concurrent misses share a single in-flight request. When a refresh
+ * fails, the last good entry is served as STALE for up to `maxStaleMs`.
+ */
+
+export type CacheStatus = "HIT" | "MISS" | "COALESCED" | "STALE";
+
+export interface CacheResult<T> {
+  data: T;
+  fetchedAt: number;
+  status: CacheStatus;
+}
+
+interface CacheEntry<T> {
+  data: T;
+  fetchedAt: number;
+  lastReadAt: number;
+}
+
+export interface PollingCacheOptions {
+  ttlMs: number;
+  /** Entries nobody has read for this long are dropped. */
+  idleEvictMs?: number;
+  /** How old a last-known-good entry may be and still stand in for a failed refresh. */
+  maxStaleMs?: number;
+  /** Called with the status of every successful lookup, e.g. for hit-ratio metrics. */
+  onLookup?: (status: CacheStatus) => void;
+}
+
+export function createPollingCache<T>(
+  fetcher: (key: string) => Promise<T>,
+  { ttlMs, idleEvictMs = 10 * 60 * 1000, maxStaleMs = 10 * 60 * 1000, onLookup }: PollingCacheOptions
+) {
+  const entries = new Map<string, CacheEntry<T>>();
+  const inFlight = new Map<string, Promise<CacheEntry<T>>>();
+
+  function load(key: string) {
+    const pending = fetcher(key)
+      .then(data => {
+        const now = Date.now();
+        const entry = { data, fetchedAt: now, lastReadAt: now };
+        entries.set(key, entry);
+        return entry;
+      })
+      .finally(() => {
+        inFlight.delete(key);
+      });
+    inFlight.set(key, pending);
+    return pending;
+  }
+
+  async function get(key: string): Promise<CacheResult<T>> {
+    const result = await lookup(key);
+    onLookup?.(result.status);
+    return result;
+  }
+
+  async function lookup(key: string): Promise<CacheResult<T>> {
+    const now = Date.now();
+    const cached = entries.get(key);
+    if (cached && now - cached.fetchedAt < ttlMs) {
+      cached.lastReadAt = now;
+      return { data: cached.data, fetchedAt: cached.fetchedAt, status: "HIT" };
+    }
+
+    const pending = inFlight.get(key);
+    try {
+      const entry = await (pending ?? load(key));
+      return { data: entry.data, fetchedAt: entry.fetchedAt, status: pending ? "COALESCED" : "MISS" };
+    } catch (error) {
+      if (!cached || Date.now() - cached.fetchedAt > maxStaleMs) throw error;
+      cached.lastReadAt = Date.now();
+      return { data: cached.data, fetchedAt: cached.fetchedAt, status: "STALE" };
+    }
+  }
+
+  const sweeper = setInterval(() => {
+    const cutoff = Date.now() - idleEvictMs;
+    for (const [key, entry] of entries) {
+      if (entry.lastReadAt < cutoff) entries.delete(key);
+    }
+  }, Math.min(idleEvictMs, 60 * 1000));
+  sweeper.unref();
+
+  return { get, ttlMs };
+}
+
+export type PollingCache<T> = ReturnType<typeof createPollingCache<T>>;
@@ -0,0 +1,96 @@
+/**
+ * Token-bucket rate limits for `/api`, so one misbehaving client cannot run
+ * the proxy (and through it the hospital) into the ground.
+ *
+ * Every request takes one token from its client's bucket and one from the
+ * global bucket. An empty bucket answers 429 with `Retry-After` set to when
+ * the next token is due. Client buckets are keyed by `req.ip`, so behind a
+ * reverse proxy the app needs `trust proxy` to see the real address.
+ */
+
+import type { NextFunction, Request, Response } from "express";
+import { ApiError, sendError } from "./errors";
+
+export interface BucketOptions {
+  /** Requests allowed in a burst. */
+  burst: number;
+  /** Tokens added back per second. */
+  perSecond: number;
+}
+
+export type RateLimitScope = "ip" | "global";
+
+export interface RateLimitOptions {
+  perIp: BucketOptions;
+  global: BucketOptions;
+  /** Called for every rejected request, e.g. for metrics. */
+  onLimited?: (scope: RateLimitScope) => void;
+}
+
+export function createTokenBucket({ burst, perSecond }: BucketOptions) {
+  let tokens = burst;
+  let updatedAt = Date.now();
+
+  function refill(now: number) {
+    tokens = Math.min(burst, tokens + ((now - updatedAt) / 1000) * perSecond);
+    updatedAt = now;
+  }
+
+  /** Takes a token and returns 0, or returns how many ms until one is available. */
+  function take(now = Date.now()) {
+    refill(now);
+    if (tokens >= 1) {
+      tokens -= 1;
+      return 0;
+    }
+    return Math.ceil(((1 - tokens) / perSecond) * 1000);
+  }
+
+  /** A full bucket carries no state worth keeping. */
+  function isFull(now = Date.now()) {
+    refill(now);
+    return tokens >= burst;
+  }
+
+  return { take, isFull };
+}
+
+export type TokenBucket = ReturnType<typeof createTokenBucket>;
+
+const rateLimited = (retryAfterMs: number) =>
+  new ApiError("RATE_LIMITED", "Too many requests, slow down", 429, true, undefined, Math.max(1, Math.ceil(retryAfterMs / 1000)));
+
+export function createRateLimiter({ perIp, global, onLimited }: RateLimitOptions) {
+  const globalBucket = createTokenBucket(global);
+  const clients = new Map<string, TokenBucket>();
+
+  // Forget clients whose buckets have refilled; they start from a full bucket anyway
+  setInterval(() => {
+    for (const [ip, bucket] of clients) if (bucket.isFull()) clients.delete(ip);
+  }, 60 * 1000).unref();
+
+  function middleware(req: Request, res: Response, next: NextFunction) {
+    const ip = req.ip ?? req.socket.remoteAddress ?? "unknown";
+    let bucket = clients.get(ip);
+    if (!bucket) {
+      bucket = createTokenBucket(perIp);
+      clients.set(ip, bucket);
+    }
+    // The client's own bucket first, so a flooding client does not drain the global one
+    const ipWait = bucket.take();
+    if (ipWait > 0) {
+      onLimited?.("ip");
+      return sendError(res, rateLimited(ipWait));
+    }
+    const globalWait = globalBucket.take();
+    if (globalWait > 0) {
+      onLimited?.("global");
+      return sendError(res, rateLimited(globalWait));
+    }
+    next();
+  }
+
+  return { middleware };
+}
+
+export type RateLimiter = ReturnType<typeof createRateLimiter>;
@@ -0,0 +1,102 @@
+/**
+ * Generic building blocks for talking to a flaky upstream: jittered retries,
+ * a circuit breaker and single-flight promise sharing.
+ */
+
+export interface RetryOptions {
+  retries: number;
+  baseDelayMs: number;
+  maxDelayMs: number;
+  /** `attempt` counts from 0 for the first call. */
+  shouldRetry: (error: unknown, attempt: number) => boolean;
+}
+
+const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+/**
+ * Calls `fn` until it succeeds, `shouldRetry` says no, or `retries` extra
+ * attempts are used up. Delays use "full jitter" exponential backoff so many
+ * callers failing together do not retry in lockstep.
+ */
+export async function retry<T>(fn: () => Promise<T>, { retries, baseDelayMs, maxDelayMs, shouldRetry }: RetryOptions): Promise<T> {
+  for (let attempt = 0; ; attempt++) {
+    try {
+      return await fn();
+    } catch (error) {
+      if (attempt >= retries || !shouldRetry(error, attempt)) throw error;
+      const ceiling = Math.min(maxDelayMs, baseDelayMs * 2 ** attempt);
+      await sleep(Math.random() * ceiling);
+    }
+  }
+}
+
+/** The breaker is open and the call was not attempted. */
+export class CircuitOpenError extends Error {
+  constructor(public retryAfterMs: number) {
+    super(`Circuit open, retry in ${Math.ceil(retryAfterMs / 1000)}s`);
+  }
+}
+
+export type CircuitState = "closed" | "open" | "half-open";
+
+export interface CircuitBreakerOptions {
+  /** Consecutive failures that open the circuit. */
+  failureThreshold: number;
+  /** How long the circuit stays open before one trial call is let through. */
+  cooldownMs: number;
+  /** Failures that say nothing about upstream health (e.g. bad input) are not counted. */
+  isFailure?: (error: unknown) => boolean;
+}
+
+export function createCircuitBreaker({ failureThreshold, cooldownMs, isFailure = () => true }: CircuitBreakerOptions) {
+  let state: CircuitState = "closed";
+  let failures = 0;
+  let openedAt = 0;
+  let trialInFlight = false;
+
+  function currentState(): CircuitState {
+    if (state === "open" && Date.now() - openedAt >= cooldownMs) state = "half-open";
+    return state;
+  }
+
+  async function call<T>(fn: () => Promise<T>): Promise<T> {
+    const now = currentState();
+    if (now === "open" || (now === "half-open" && trialInFlight)) {
+      throw new CircuitOpenError(Math.max(0, cooldownMs - (Date.now() - openedAt)));
+    }
+    const isTrial = now === "half-open";
+    if (isTrial) trialInFlight = true;
+    try {
+      const result = await fn();
+      failures = 0;
+      state = "closed";
+      return result;
+    } catch (error) {
+      if (isFailure(error)) {
+        failures++;
+        if (isTrial || failures >= failureThreshold) {
+          state = "open";
+          openedAt = Date.now();
+        }
+      }
+      throw error;
+    } finally {
+      if (isTrial) trialInFlight = false;
+    }
+  }
+
+  return { call, state: currentState };
+}
+
+export type CircuitBreaker = ReturnType<typeof createCircuitBreaker>;
+
+/** Wraps `fn` so concurrent callers share one in-flight call instead of starting their own. */
+export function singleFlight<T>(fn: () => Promise<T>): () => Promise<T> {
+  let pending: Promise<T> | null = null;
+  return () => {
+    pending ??= fn().finally(() => {
+      pending = null;
+    });
+    return pending;
+  };
+}
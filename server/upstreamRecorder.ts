@@ -0,0 +1,40 @@
+/**
+ * Writes raw upstream responses to fixture files so they can be replayed by
+ * the fake upstream. Layout under `dir`:
+ *
+ *   RegistrationDivision.json
+ *   AppointmentProgress/<DivisionCode>/<epoch ms>.json
+ *
+ * A progress file is only written when the payload differs from the previous
+ * one for that division, so a recording is the sequence of distinct states.
+ */
+
+import { mkdirSync, writeFileSync } from "fs";
+import { join } from "path";
+import { log } from "./logger";
+
+export type UpstreamRecorder = (endpoint: string, query: Record<string, string>, body: unknown) => void;
+
+const safeName = (value: string) => value.replace(/[^\w.-]/g, "_");
+
+export function createUpstreamRecorder(dir: string): UpstreamRecorder {
+  const lastBodies = new Map<string, string>();
+
+  return (endpoint, query, body) => {
+    const json = JSON.stringify(body, null, 2);
+    try {
+      if (endpoint === "AppointmentProgress") {
+        const divisionDir = join(dir, endpoint, safeName(query.DivisionCode ?? "unknown"));
+        if (lastBodies.get(divisionDir) === json) return;
+        lastBodies.set(divisionDir, json);
+        mkdirSync(divisionDir, { recursive: true });
+        writeFileSync(join(divisionDir, `${Date.now()}.json`), json);
+      } else {
+        mkdirSync(dir, { recursive: true });
+        writeFileSync(join(dir, `${safeName(endpoint)}.json`), json);
+      }
+    } catch (e) {
+      log.error("Failed to record upstream response", e);
+    }
+  };
+}
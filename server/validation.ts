@@ -0,0 +1,92 @@
+/**
+ * Minimal runtime checks for upstream payloads and request parameters.
+ *
+ * A check returns an error message or null. Object and array checks collect
+ * every problem with its path so a bad upstream response can be diagnosed
+ * from the log line alone.
+ */
+
+import { invalidParameter } from "./errors";
+
+export type Check = (value: unknown, path: string, issues: string[]) => void;
+
+export const string: Check = (value, path, issues) => {
+  if (typeof value !== "string") issues.push(`${path}: expected string`);
+};
+
+export const number: Check = (value, path, issues) => {
+  if (typeof value !== "number" || isNaN(value)) issues.push(`${path}: expected number`);
+};
+
+/** Fields SKH sends as either a numeric string or a number. */
+export const numeric: Check = (value, path, issues) => {
+  if (typeof value === "number" && !isNaN(value)) return;
+  if (typeof value === "string" && (value === "" || !isNaN(Number(value)))) return;
+  issues.push(`${path}: expected number or numeric string`);
+};
+
+export const stringOrNumber: Check = (value, path, issues) => {
+  if (typeof value !== "string" && typeof value !== "number") issues.push(`${path}: expected string or number`);
+};
+
+export const nullable = (check: Check): Check => (value, path, issues) => {
+  if (value !== null && value !== undefined) check(value, path, issues);
+};
+
+export const object = (fields: Record<string, Check>): Check => (value, path, issues) => {
+  if (typeof value !== "object" || value === null || Array.isArray(value)) {
+    issues.push(`${path}: expected object`);
+    return;
+  }
+  for (const [field, check] of Object.entries(fields)) {
+    check((value as Record<string, unknown>)[field], `${path}.${field}`, issues);
+  }
+};
+
+export const array = (item: Check): Check => (value, path, issues) => {
+  if (!Array.isArray(value)) {
+    issues.push(`${path}: expected array`);
+    return;
+  }
+  value.forEach((entry, index) => item(entry, `${path}[${index}]`, issues));
+};
+
+/** Runs `check` and returns the list of problems; empty means valid. */
+export function validate(value: unknown, check: Check, root = "$") {
+  const issues: string[] = [];
+  check(value, root, issues);
+  return issues;
+}
+
+/** Longest division/clinic/shift code accepted. */
+export const MAX_CODE_LENGTH = 32;
+const CODE_PATTERN = new RegExp(`^[A-Za-z0-9_-]{1,${MAX_CODE_LENGTH}}$`);
+const DATE_PATTERN = /^\d{4}-?\d{2}-?\d{2}$/;
+
+/** A required division/clinic/shift code from the query string. */
+export function requireCode(value: unknown, name: string) {
+  if (value === undefined || value === "") throw invalidParameter(`${name} is required`);
+  if (typeof value !== "string" || !CODE_PATTERN.test(value)) throw invalidParameter(`${name} must be 1-${MAX_CODE_LENGTH} letters, digits, "_" or "-"`);
+  return value;
+}
+
+export function optionalCode(value: unknown, name: string) {
+  return value === undefined || value === "" ? undefined : requireCode(value, name);
+}
+
+/** An optional YYYY-MM-DD (or YYYYMMDD) date from the query string. */
+export function optionalDate(value: unknown, name: string) {
+  if (value === undefined || value === "") return undefined;
+  if (typeof value !== "string" || !DATE_PATTERN.test(value) || isNaN(Date.parse(value.replace(/^(\d{4})(\d{2})(\d{2})$/, "$1-$2-$3")))) {
+    throw invalidParameter(`${name} must be a date like 2024-03-04`);
+  }
+  return value;
+}
+
+/** A required free-text query such as a search term, trimmed. */
+export function requireText(value: unknown, name: string, maxLength: number) {
+  const text = typeof value === "string" ? value.trim() : "";
+  if (text === "") throw invalidParameter(`${name} is required`);
+  if (text.length > maxLength) throw invalidParameter(`${name} must be at most ${maxLength} characters`);
+  return text;
+}
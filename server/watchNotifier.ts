@@ -0,0 +1,145 @@
+/**
+ * Connects registered watches to the division poller and notifies each
+ * watch's channels when its number comes within `notifyBefore`, when its
+ * clinic pauses, and when the clinic's shift ends before the number is called.
+ */
+
+import type { ClinicProgress, NotificationChannel, WatchEvent, WatchEventType } from "../src/types";
+import { clinicState } from "../src/lib/progress";
+import type { DivisionPoller, DivisionUpdate } from "./divisionPoller";
+import type { Watch, WatchRegistry } from "./watchRegistry";
+import { divisionKey, type AdapterRegistry } from "./adapters";
+import { ChannelGoneError, type Notifier } from "./notifiers";
+import { log } from "./logger";
+
+function matches(watch: Watch, row: ClinicProgress) {
+  if (watch.clinicCode && row.ClinicCode !== watch.clinicCode) return false;
+  if (watch.shiftCode && row.ShiftCode !== watch.shiftCode) return false;
+  return true;
+}
+
+export function createWatchNotifier({ registry, poller, notifier, adapters }: {
+  registry: WatchRegistry;
+  poller: DivisionPoller;
+  notifier: Notifier;
+  adapters: AdapterRegistry;
+}) {
+  const subscriptions = new Map<string, () => void>();
+  // The last rows seen per subscribed division, to check new watches against right away
+  const latestRows = new Map<string, ClinicProgress[]>();
+  // `${watch id}:${key}` of deliveries still in flight, so a quick next update does not repeat them
+  const sending = new Set<string>();
+
+  /** Resolves to whether at least one channel took the event. */
+  async function deliver(watch: Watch, event: WatchEvent) {
+    const gone: NotificationChannel[] = [];
+    let delivered = false;
+    await Promise.all(watch.channels.map(channel => notifier.send(channel, event, watch.locale).then(() => {
+      delivered = true;
+    }, error => {
+      if (error instanceof ChannelGoneError) gone.push(channel);
+      else log.error(`Failed to send ${channel.type} notification`, error);
+    })));
+    if (gone.length > 0) {
+      const remaining = watch.channels.filter(channel => !gone.includes(channel));
+      if (remaining.length === 0) remove(watch.id);
+      else registry.setChannels(watch, remaining);
+    }
+    return delivered;
+  }
+
+  /**
+   * Sends `type` once per `key`; the key is stored with the watch so restarts do not repeat it.
+   * It is only stored once a channel took the event, so a failed delivery is tried again with
+   * the division's next update. Resolves to whether the watch has been notified for `key`.
+   */
+  async function notify(watch: Watch, row: ClinicProgress, type: WatchEventType, key: string, remaining: number) {
+    if (watch.notifiedKeys.includes(key)) return true;
+    const sendKey = `${watch.id}:${key}`;
+    if (sending.has(sendKey)) return false;
+    sending.add(sendKey);
+    try {
+      const delivered = await deliver(watch, {
+      type,
+      watchId: watch.id,
+      hospital: watch.hospitalId,
+      hospitalName: adapters.get(watch.hospitalId)?.info.name ?? "",
+      DivisionCode: watch.divisionCode,
+      ClinicCode: row.ClinicCode,
+      ClinicName: row.ClinicName,
+      ShiftCode: row.ShiftCode,
+      ShiftName: row.ShiftName,
+      DoctorName: row.DoctorName,
+      CurrentVisitSeq: row.CurrentVisitSeq,
+      number: watch.number,
+      remaining,
+      occurredAt: new Date().toISOString()
+      });
+      if (delivered) registry.markNotified(watch, key);
+      return delivered;
+    } finally {
+      sending.delete(sendKey);
+    }
+  }
+
+  function check(watch: Watch, rows: ClinicProgress[]) {
+    for (const row of rows) {
+      if (!matches(watch, row)) continue;
+      const current = parseInt(row.CurrentVisitSeq);
+      if (isNaN(current)) continue;
+      const diff = watch.number - current;
+      const session = `${row.ClinicCode}-${row.ShiftCode}`;
+      if (diff <= 0) {
+        // The one clinic this watch cares about has reached the number.
+        if (watch.clinicCode) remove(watch.id);
+        continue;
+      }
+      const state = clinicState(row);
+      if (state === "ended") {
+        notify(watch, row, "shift-ended", `shift-ended:${session}`, diff)
+          .then(notified => { if (notified && watch.clinicCode) remove(watch.id); });
+      } else if (state === "paused") {
+        // Keyed by the number it paused at, so a later pause is reported again.
+        notify(watch, row, "paused", `paused:${session}-${row.CurrentVisitSeq}`, diff);
+      } else if (diff <= watch.notifyBefore) {
+        notify(watch, row, "approaching", `${session}-${watch.number}`, diff);
+      }
+    }
+  }
+
+  function evaluate(update: DivisionUpdate) {
+    latestRows.set(divisionKey(update.hospitalId, update.divisionCode), update.rows);
+    for (const watch of registry.listByDivision(update.hospitalId, update.divisionCode)) check(watch, update.rows);
+  }
+
+  /**
+   * Keeps one poller subscription per division that has at least one watch. A newly
+   * `added` watch is checked against its division's last rows, rather than waiting for
+   * one of them to change; a new subscription reports all rows on its first poll anyway.
+   */
+  function sync(added?: Watch) {
+    const wanted = new Map(registry.divisions().map(d => [divisionKey(d.hospitalId, d.divisionCode), d]));
+    for (const [key, { hospitalId, divisionCode }] of wanted) {
+      if (subscriptions.has(key)) continue;
+      subscriptions.set(key, poller.subscribe(hospitalId, divisionCode, { onUpdate: evaluate }));
+    }
+    for (const [key, unsubscribe] of subscriptions) {
+      if (wanted.has(key)) continue;
+      unsubscribe();
+      subscriptions.delete(key);
+      latestRows.delete(key);
+    }
+    const rows = added && latestRows.get(divisionKey(added.hospitalId, added.divisionCode));
+    if (added && rows) check(added, rows);
+  }
+
+  function remove(id: string) {
+    const removed = registry.remove(id);
+    if (removed) sync();
+    return removed;
+  }
+
+  sync();
+
+  return { sync, remove };
+}
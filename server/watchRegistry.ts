@@ -0,0 +1,181 @@
+/**
+ * Server-side registry of "tell me when my number is close" watches, each
+ * with its own notification channels so alerts arrive with the tab closed.
+ *
+ * Rows from before channels existed only have a push subscription; it is
+ * read back as a single push channel.
+ */
+
+import type Database from "better-sqlite3";
+import { randomUUID } from "crypto";
+import type { NotificationChannel, WatchRegistration } from "../src/types";
+import { DEFAULT_LOCALE, isLocale, type Locale } from "../src/lib/i18n";
+
+export interface Watch {
+  id: string;
+  hospitalId: string;
+  divisionCode: string;
+  clinicCode: string | null;
+  shiftCode: string | null;
+  number: number;
+  notifyBefore: number;
+  locale: Locale;
+  channels: NotificationChannel[];
+  notifiedKeys: string[];
+  createdAt: number;
+}
+
+interface WatchRow {
+  id: string;
+  hospital_id: string;
+  division_code: string;
+  clinic_code: string | null;
+  shift_code: string | null;
+  number: number;
+  notify_before: number;
+  locale: string;
+  subscription: string;
+  channels: string;
+  notified_keys: string;
+  client: string;
+  created_at: number;
+}
+
+function legacyChannels(row: WatchRow): NotificationChannel[] {
+  const channels = JSON.parse(row.channels) as NotificationChannel[];
+  const subscription = JSON.parse(row.subscription);
+  return channels.length === 0 && subscription ? [{ type: "push", subscription }] : channels;
+}
+
+function fromRow(row: WatchRow): Watch {
+  return {
+    id: row.id,
+    hospitalId: row.hospital_id,
+    divisionCode: row.division_code,
+    clinicCode: row.clinic_code,
+    shiftCode: row.shift_code,
+    number: row.number,
+    notifyBefore: row.notify_before,
+    locale: isLocale(row.locale) ? row.locale : DEFAULT_LOCALE,
+    channels: legacyChannels(row),
+    notifiedKeys: JSON.parse(row.notified_keys),
+    createdAt: row.created_at
+  };
+}
+
+export function createWatchRegistry(db: Database.Database) {
+  db.exec(`
+    CREATE TABLE IF NOT EXISTS watches (
+      id TEXT PRIMARY KEY,
+      hospital_id TEXT NOT NULL DEFAULT 'skh',
+      division_code TEXT NOT NULL,
+      clinic_code TEXT,
+      shift_code TEXT,
+      number INTEGER NOT NULL,
+      notify_before INTEGER NOT NULL,
+      locale TEXT NOT NULL DEFAULT 'zh-TW',
+      subscription TEXT NOT NULL DEFAULT 'null',
+      channels TEXT NOT NULL DEFAULT '[]',
+      notified_keys TEXT NOT NULL DEFAULT '[]',
+      client TEXT NOT NULL DEFAULT '',
+      created_at INTEGER NOT NULL
+    );
+  `);
+  const columns = db.prepare("PRAGMA table_info(watches)").all() as Array<{ name: string }>;
+  if (!columns.some(column => column.name === "hospital_id")) {
+    db.exec("ALTER TABLE watches ADD COLUMN hospital_id TEXT NOT NULL DEFAULT 'skh'");
+  }
+  if (!columns.some(column => column.name === "channels")) {
+    db.exec("ALTER TABLE watches ADD COLUMN channels TEXT NOT NULL DEFAULT '[]'");
+  }
+  if (!columns.some(column => column.name === "locale")) {
+    db.exec("ALTER TABLE watches ADD COLUMN locale TEXT NOT NULL DEFAULT 'zh-TW'");
+  }
+  if (!columns.some(column => column.name === "client")) {
+    db.exec("ALTER TABLE watches ADD COLUMN client TEXT NOT NULL DEFAULT ''");
+  }
+  db.exec("CREATE INDEX IF NOT EXISTS idx_watches_hospital_division ON watches (hospital_id, division_code)");
+
+  const insertStmt = db.prepare(`
+    INSERT INTO watches (id, hospital_id, division_code, clinic_code, shift_code, number, notify_before, locale, subscription, channels, client, created_at)
+    VALUES (@id, @hospital_id, @division_code, @clinic_code, @shift_code, @number, @notify_before, @locale, @subscription, @channels, @client, @created_at)
+  `);
+  const deleteStmt = db.prepare("DELETE FROM watches WHERE id = ?");
+  const getStmt = db.prepare("SELECT * FROM watches WHERE id = ?");
+  const byDivisionStmt = db.prepare("SELECT * FROM watches WHERE hospital_id = ? AND division_code = ?");
+  const divisionsStmt = db.prepare("SELECT DISTINCT hospital_id, division_code FROM watches");
+  const channelsStmt = db.prepare("UPDATE watches SET channels = ?, subscription = 'null' WHERE id = ?");
+  const notifiedStmt = db.prepare("UPDATE watches SET notified_keys = ? WHERE id = ?");
+  const pruneStmt = db.prepare("DELETE FROM watches WHERE created_at < ?");
+  const countStmt = db.prepare("SELECT COUNT(*) AS count FROM watches");
+  const clientCountStmt = db.prepare("SELECT COUNT(*) AS count FROM watches WHERE client = ?");
+
+  /** `client` identifies who registered the watch (their address), for per-client limits. */
+  function add(input: Omit<WatchRegistration, "subscription" | "channels"> & { channels: NotificationChannel[]; client: string }): Watch {
+    const row: WatchRow = {
+      id: randomUUID(),
+      hospital_id: input.hospital,
+      division_code: input.DivisionCode,
+      clinic_code: input.ClinicCode,
+      shift_code: input.ShiftCode,
+      number: input.number,
+      notify_before: input.notifyBefore,
+      locale: input.locale ?? DEFAULT_LOCALE,
+      subscription: "null",
+      channels: JSON.stringify(input.channels),
+      notified_keys: "[]",
+      client: input.client,
+      created_at: Date.now()
+    };
+    insertStmt.run(row);
+    return fromRow(row);
+  }
+
+  function remove(id: string) {
+    return deleteStmt.run(id).changes > 0;
+  }
+
+  function get(id: string) {
+    const row = getStmt.get(id) as WatchRow | undefined;
+    return row ? fromRow(row) : undefined;
+  }
+
+  function listByDivision(hospitalId: string, divisionCode: string) {
+    return (byDivisionStmt.all(hospitalId, divisionCode) as WatchRow[]).map(fromRow);
+  }
+
+  function divisions() {
+    return (divisionsStmt.all() as Array<{ hospital_id: string; division_code: string }>)
+      .map(row => ({ hospitalId: row.hospital_id, divisionCode: row.division_code }));
+  }
+
+  function markNotified(watch: Watch, key: string) {
+    // From the stored row: another delivery for this watch may have finished since `watch` was read
+    const stored = get(watch.id);
+    if (!stored) return;
+    watch.notifiedKeys = [...stored.notifiedKeys, key];
+    notifiedStmt.run(JSON.stringify(watch.notifiedKeys), watch.id);
+  }
+
+  function setChannels(watch: Watch, channels: NotificationChannel[]) {
+    watch.channels = channels;
+    channelsStmt.run(JSON.stringify(channels), watch.id);
+  }
+
+  /** Drops watches older than `maxAgeMs`; a queue number is only good for one visit. */
+  function prune(maxAgeMs: number) {
+    return pruneStmt.run(Date.now() - maxAgeMs).changes;
+  }
+
+  function count() {
+    return (countStmt.get() as { count: number }).count;
+  }
+
+  function countByClient(client: string) {
+    return (clientCountStmt.get(client) as { count: number }).count;
+  }
+
+  return { add, remove, get, listByDivision, divisions, markNotified, setChannels, prune, count, countByClient };
+}
+
+export type WatchRegistry = ReturnType<typeof createWatchRegistry>;
@@ -0,0 +1,78 @@
+/**
+ * VAPID Web Push delivery.
+ *
+ * Keys come from the configuration (VAPID_PUBLIC_KEY / VAPID_PRIVATE_KEY), or are generated once
+ * and kept in the settings table so existing subscriptions stay valid across
+ * restarts. The request is built by `web-push` but sent with our own fetch so
+ * plain-http stand-in push endpoints work during development.
+ */
+
+import type Database from "better-sqlite3";
+import fetch from "node-fetch";
+import webpush from "web-push";
+import type { PushSubscriptionData } from "../src/types";
+import { getSetting, setSetting } from "./db";
+import type { TargetGuard } from "./notifyTargets";
+
+// As for webhooks: a push service that hangs must not hold the notification forever
+const TIMEOUT_MS = 10 * 1000;
+
+/** The push service says this subscription no longer exists. */
+export class PushSubscriptionGoneError extends Error {
+  constructor(public status: number) {
+    super(`Push subscription gone (${status})`);
+  }
+}
+
+export interface PushMessage {
+  title: string;
+  body: string;
+  tag?: string;
+  url?: string;
+}
+
+export interface VapidOptions {
+  publicKey?: string;
+  privateKey?: string;
+  /** Contact the push services can reach, a mailto: or https: URL. */
+  subject: string;
+}
+
+function loadVapidKeys(db: Database.Database, { publicKey, privateKey }: VapidOptions) {
+  if (publicKey && privateKey) return { publicKey, privateKey };
+  const stored = getSetting(db, "vapid_keys");
+  if (stored) return JSON.parse(stored) as { publicKey: string; privateKey: string };
+  const generated = webpush.generateVAPIDKeys();
+  setSetting(db, "vapid_keys", JSON.stringify(generated));
+  return generated;
+}
+
+export function createPushSender(db: Database.Database, vapid: VapidOptions, targets: TargetGuard) {
+  const { publicKey, privateKey } = loadVapidKeys(db, vapid);
+  const { subject } = vapid;
+
+  async function send(subscription: PushSubscriptionData, message: PushMessage) {
+    const details = webpush.generateRequestDetails(subscription, JSON.stringify(message), {
+      vapidDetails: { subject, publicKey, privateKey },
+      TTL: 10 * 60
+    });
+    await targets.check(details.endpoint);
+    const response = await fetch(details.endpoint, {
+      ...targets.fetchOptions(details.endpoint),
+      method: details.method,
+      headers: details.headers as Record<string, string>,
+      body: details.body ?? undefined,
+      timeout: TIMEOUT_MS
+    });
+    if (response.status === 404 || response.status === 410) {
+      throw new PushSubscriptionGoneError(response.status);
+    }
+    if (!response.ok) {
+      throw new Error(`Push service returned ${response.status}: ${await response.text()}`);
+    }
+  }
+
+  return { publicKey, send };
+}
+
+export type PushSender = ReturnType<typeof createPushSender>;
@@ -18,53 +18,206 @@ import {
   Hospital,
   Bell,
   BellOff,
-  Volume2
+  Volume2,
+  Timer,
+  VolumeX,
+  Plus,
+  History,
+  BarChart3,
+  MonitorPlay,
+  Languages,
+  Download,
+  Upload,
+  Star,
+  Pin,
+  LayoutGrid
 } from 'lucide-react';
-import { Division, SubDivision, ClinicProgress } from './types';
+import { Division, SubDivision, ClinicProgress, HospitalInfo, DoctorSearchResult, NotificationChannel, ClientSettings } from './types';
+import { SeqObservation, recordObservation, estimateCallTime, shiftPace } from './lib/eta';
+import { progressKey, mergeProgressUpdate, ProgressStreamUpdate } from './lib/progress';
+import {
+  MirroredWatch,
+  fetchAvailableChannels,
+  loadMirroredWatches,
+  registerWatch,
+  saveMirroredWatches,
+  shareFallbackTitle,
+  unregisterWatch
+} from './lib/push';
+import { DEFAULT_HOSPITAL, fetchJson, fetchCachedJson, fetchClientSettings, fromEnvelope, describeApiError } from './lib/api';
+import { progressExportUrl } from './lib/exports';
+import {
+  SavedDivision,
+  exportFavorites,
+  importFavorites,
+  isFavoriteDivision,
+  isPinnedDoctor,
+  loadFavorites,
+  pinnedFirst,
+  recordRecentDivision,
+  saveFavorites,
+  toggleFavoriteDivision,
+  togglePinnedDoctor
+} from './lib/favorites';
+import {
+  Ticket,
+  createTicket,
+  findTicketRow,
+  isTicketFor,
+  loadTickets,
+  parseSourceKey,
+  saveTickets,
+  sourceKey,
+  ticketSource
+} from './lib/tickets';
+import { currentRoute, formatAnalyticsRoute, formatKioskRoute, formatOverviewRoute, formatRoute } from './lib/route';
+import { loadSettings, saveSettings } from './lib/settings';
+import { loadSnapshot, saveSnapshot } from './lib/snapshots';
+import { Alert, describeAlert, evaluateAlerts } from './lib/alerts';
+import { playChime } from './lib/sound';
+import { formatTime, LOCALES, LOCALE_NAMES, Locale } from './lib/i18n';
+import { getLocale, setLocale, t, useLocale } from './lib/locale';
+import { divisionHint } from './lib/divisionHints';
+import TicketSummary from './components/TicketSummary';
+import DoctorSearchResults from './components/DoctorSearchResults';
+import NotificationChannels from './components/NotificationChannels';
 
 const API_BASE = '/api';
 
+const hospitalApi = (hospitalId: string) => `${API_BASE}/${encodeURIComponent(hospitalId)}`;
+
+// How long to stay on polling after the event stream drops before trying it again
+const STREAM_RETRY_MS = 30000;
+const SEARCH_DEBOUNCE_MS = 300;
+
+const observationKey = (source: string, item: ClinicProgress) => `${source}:${progressKey(item)}`;
+
+// Until `/api/config` answers
+const DEFAULT_CLIENT_SETTINGS: ClientSettings = { refreshIntervals: [3, 5, 10], defaultRefreshInterval: 5 };
+
+/** What to show on load: a deep link wins, otherwise whatever was stored last time. */
+function startupState() {
+  const route = currentRoute();
+  const stored = loadSettings();
+  const fromLink = Boolean(route.divisionCode);
+  return {
+    hospitalId: route.hospital ?? (fromLink ? undefined : stored.hospitalId) ?? DEFAULT_HOSPITAL.id,
+    divisionCode: route.divisionCode ?? stored.divisionCode ?? null,
+    clinicCode: fromLink ? route.clinicCode : stored.targetClinicCode,
+    userNumber: route.number ? String(route.number) : fromLink ? '' : stored.userNumber ?? '',
+    notifyBefore: route.notifyBefore ?? stored.notifyBefore ?? 5,
+    // Checked against the server's choices once they arrive
+    refreshInterval: stored.refreshInterval ?? DEFAULT_CLIENT_SETTINGS.defaultRefreshInterval,
+    chime: stored.chime ?? true,
+    divisionHints: stored.divisionHints ?? true,
+    notify: Boolean(stored.notify) && typeof Notification !== 'undefined' && Notification.permission === 'granted',
+    channels: stored.channels ?? []
+  };
+}
+
 export default function App() {
+  const [startup] = useState(startupState);
+  const [hospitals, setHospitals] = useState<HospitalInfo[]>([DEFAULT_HOSPITAL]);
+  const [hospitalId, setHospitalId] = useState(startup.hospitalId);
   const [divisions, setDivisions] = useState<Division[]>([]);
   const [selectedSubDiv, setSelectedSubDiv] = useState<SubDivision | null>(null);
   const [progress, setProgress] = useState<ClinicProgress[]>([]);
   const [loading, setLoading] = useState(false);
-  const [refreshInterval, setRefreshInterval] = useState(5);
+  const [refreshInterval, setRefreshInterval] = useState(startup.refreshInterval);
+  const [clientSettings, setClientSettings] = useState<ClientSettings>(DEFAULT_CLIENT_SETTINGS);
   const [isAutoRefresh, setIsAutoRefresh] = useState(true);
   const [error, setError] = useState<string | null>(null);
   const [searchTerm, setSearchTerm] = useState('');
+  const [doctorResults, setDoctorResults] = useState<DoctorSearchResult[]>([]);
   const [lastUpdated, setLastUpdated] = useState<Date | null>(null);
   const [countdown, setCountdown] = useState(5);
-  const [userNumber, setUserNumber] = useState<string>('');
-  const [notifyBefore, setNotifyBefore] = useState<number>(5);
-  const [isNotifyEnabled, setIsNotifyEnabled] = useState(false);
+  const [isStreamLive, setIsStreamLive] = useState(false);
+  // Server-side fetch time of the shown progress while the server is serving its last good copy
+  const [staleFetchedAt, setStaleFetchedAt] = useState<number | null>(null);
+  const [clock, setClock] = useState(() => Date.now());
+  const [isOnline, setIsOnline] = useState(() => typeof navigator === 'undefined' || navigator.onLine);
+  const [userNumber, setUserNumber] = useState<string>(startup.userNumber);
+  const [notifyBefore, setNotifyBefore] = useState<number>(startup.notifyBefore);
+  const [isNotifyEnabled, setIsNotifyEnabled] = useState<boolean>(startup.notify);
+  const [isChimeEnabled, setIsChimeEnabled] = useState(startup.chime);
+  const [showDivisionHints, setShowDivisionHints] = useState(startup.divisionHints);
+  const [favorites, setFavorites] = useState(loadFavorites);
+  const locale = useLocale();
   const [targetClinicCode, setTargetClinicCode] = useState<string>('all');
+  const [tickets, setTickets] = useState<Ticket[]>(loadTickets);
+  const [ticketProgress, setTicketProgress] = useState<Record<string, ClinicProgress[]>>({});
+  const [availableChannels, setAvailableChannels] = useState<NotificationChannel['type'][]>([]);
+  const [extraChannels, setExtraChannels] = useState<NotificationChannel[]>(startup.channels);
   const [permissionStatus, setPermissionStatus] = useState<NotificationPermission>(
     typeof Notification !== 'undefined' ? Notification.permission : 'default'
   );
   const notifiedRef = useRef<Set<string>>(new Set());
+  // Each ticket's row at the previous reading, for alerts that depend on a change
+  const ticketRowsRef = useRef<Map<string, ClinicProgress>>(new Map());
+  const pendingClinicRef = useRef<string | null>(null);
+  const favoritesFileRef = useRef<HTMLInputElement>(null);
+  // Division (and clinic) from a link or storage, resolved once the division list arrives
+  const pendingDivisionRef = useRef<{ divisionCode: string; clinicCode?: string } | null>(
+    startup.divisionCode ? { divisionCode: startup.divisionCode, clinicCode: startup.clinicCode } : null
+  );
+  const observationsRef = useRef<Map<string, SeqObservation[]>>(new Map());
+  const streamRowsRef = useRef<ClinicProgress[]>([]);
+  const ticketsRef = useRef<Ticket[]>(tickets);
+  ticketsRef.current = tickets;
+  const isNotifyEnabledRef = useRef(isNotifyEnabled);
+  isNotifyEnabledRef.current = isNotifyEnabled;
+  const isChimeEnabledRef = useRef(isChimeEnabled);
+  isChimeEnabledRef.current = isChimeEnabled;
+  const selectedSourceRef = useRef<string | null>(null);
+  selectedSourceRef.current = selectedSubDiv ? sourceKey(hospitalId, selectedSubDiv.DivisionCode) : null;
+  const targetClinicCodeRef = useRef(targetClinicCode);
+  targetClinicCodeRef.current = targetClinicCode;
+  const hospital = hospitals.find(h => h.id === hospitalId) ?? DEFAULT_HOSPITAL;
+  const hospitalRef = useRef(hospital);
+  hospitalRef.current = hospital;
+
+  // Hospitals this deployment can monitor
+  useEffect(() => {
+    fetch(`${API_BASE}/hospitals`)
+      .then(res => (res.ok ? res.json() : null))
+      .then(data => {
+        if (Array.isArray(data) && data.length > 0) setHospitals(data);
+      })
+      .catch(err => console.error(err));
+  }, []);
+
+  // Refresh choices configured on the server
+  useEffect(() => {
+    fetchClientSettings().then(settings => {
+      if (!settings) return;
+      setClientSettings(settings);
+      setRefreshInterval((current: number) => (settings.refreshIntervals.includes(current) ? current : settings.defaultRefreshInterval));
+    });
+  }, []);
+
+  // Push alerts carry a title in the watch's language; this one, in the page's, covers any that arrive without
+  useEffect(() => {
+    shareFallbackTitle(t('alert.title', { hospital: hospital.name }));
+  }, [locale, hospital.name]);
 
   const timerRef = useRef<NodeJS.Timeout | null>(null);
   const countdownRef = useRef<NodeJS.Timeout | null>(null);
 
-  // Fetch divisions on mount
+  // Fetch divisions whenever the hospital changes
   useEffect(() => {
     const fetchDivisions = async () => {
       try {
         setLoading(true);
-        const res = await fetch(`${API_BASE}/RegistrationDivision`);
-        if (!res.ok) {
-          const errorData = await res.json().catch(() => ({}));
-          throw new Error(errorData.details || errorData.error || '無法取得科別清單');
-        }
-        const data = await res.json();
+        const data = await fetchJson<Division[]>(`${hospitalApi(hospitalId)}/RegistrationDivision`);
         if (Array.isArray(data)) {
           setDivisions(data);
+          resolvePendingDivision(data);
         } else {
-          throw new Error('資料格式錯誤');
+          throw new Error(t('error.badFormat'));
         }
       } catch (err) {
-        setError('取得科別清單失敗，請稍後再試。');
+        pendingDivisionRef.current = null;
+        setError(t('error.divisions', { reason: describeApiError(err) }));
         setDivisions([]); // Ensure it stays an array
         console.error(err);
       } finally {
@@ -72,7 +225,36 @@ export default function App() {
       }
     };
     fetchDivisions();
-  }, []);
+  }, [hospitalId]);
+
+  // Doctor / clinic search across every division, debounced while typing
+  useEffect(() => {
+    const query = searchTerm.trim();
+    if (!query) {
+      setDoctorResults([]);
+      return;
+    }
+    const timer = setTimeout(async () => {
+      try {
+        setDoctorResults(await fetchJson<DoctorSearchResult[]>(`${hospitalApi(hospitalId)}/search?q=${encodeURIComponent(query)}`));
+      } catch (err) {
+        console.error(err);
+        setDoctorResults([]);
+      }
+    }, SEARCH_DEBOUNCE_MS);
+    return () => clearTimeout(timer);
+  }, [searchTerm, hospitalId]);
+
+  // A search result picked a clinic before its division's progress arrived; focus it once it does
+  useEffect(() => {
+    const clinicCode = pendingClinicRef.current;
+    if (!clinicCode || !progress.some(p => p.ClinicCode === clinicCode)) return;
+    pendingClinicRef.current = null;
+    setTargetClinicCode(clinicCode);
+    requestAnimationFrame(() => {
+      document.querySelector(`[data-clinic="${CSS.escape(clinicCode)}"]`)?.scrollIntoView({ behavior: 'smooth', block: 'center' });
+    });
+  }, [progress]);
 
   // Re-sort progress when target clinic changes
   useEffect(() => {
@@ -88,65 +270,206 @@ export default function App() {
     }
   }, [targetClinicCode]);
 
-  const fetchProgress = useCallback(async (code: string) => {
-    try {
-      const res = await fetch(`${API_BASE}/AppointmentProgress?DivisionCode=${code}`);
-      if (!res.ok) {
-        const errorData = await res.json().catch(() => ({}));
-        throw new Error(errorData.details || errorData.error || '無法取得看診進度');
-      }
-      const data: ClinicProgress[] = await res.json();
-      
-      // Sort: Priority to targetClinicCode
-      const sortedData = [...data].sort((a, b) => {
-        if (targetClinicCode !== 'all') {
-          if (a.ClinicCode === targetClinicCode) return -1;
-          if (b.ClinicCode === targetClinicCode) return 1;
-        }
-        return 0;
+  // Remember each tracked division's rows and raise the alert rules for its tickets.
+  // Callbacks here outlive renders, so everything they read comes through refs.
+  const handleTicketRows = useCallback((source: string, data: ClinicProgress[]) => {
+    const divisionTickets = ticketsRef.current.filter(t => ticketSource(t) === source);
+    if (divisionTickets.length === 0) return;
+    setTicketProgress(prev => ({ ...prev, [source]: data }));
+
+    divisionTickets.forEach(ticket => {
+      const item = findTicketRow(ticket, data);
+      const previous = ticketRowsRef.current.get(ticket.id);
+      if (item) ticketRowsRef.current.set(ticket.id, item);
+      if (!isNotifyEnabledRef.current) return;
+      evaluateAlerts(ticket, previous, item, notifiedRef.current).forEach(alert => {
+        sendNotification(alert, ticket);
+        notifiedRef.current.add(alert.key);
       });
+    });
+  }, []);
 
-      setProgress(sortedData);
-      setLastUpdated(new Date());
-      setError(null);
-
-      // Notification Logic
-      if (isNotifyEnabled && userNumber) {
-        const target = parseInt(userNumber);
-        if (!isNaN(target)) {
-          data.forEach(item => {
-            // Check if this is the targeted clinic or if 'all' is selected
-            if (targetClinicCode !== 'all' && item.ClinicCode !== targetClinicCode) return;
-
-            const current = parseInt(item.CurrentVisitSeq);
-            if (!isNaN(current)) {
-              const diff = target - current;
-              const clinicKey = `${item.ClinicCode}-${item.ShiftCode}-${target}`;
-              
-              if (diff > 0 && diff <= notifyBefore && !notifiedRef.current.has(clinicKey)) {
-                sendNotification(item, diff);
-                notifiedRef.current.add(clinicKey);
-              }
-            }
-          });
-        }
+  const recordObservations = (source: string, data: ClinicProgress[], now: number) => {
+    data.forEach(item => {
+      const key = observationKey(source, item);
+      const list = observationsRef.current.get(key) ?? [];
+      observationsRef.current.set(key, recordObservation(list, parseInt(item.CurrentVisitSeq), now));
+    });
+  };
+
+  const applyProgress = useCallback((source: string, data: ClinicProgress[]) => {
+    // Sort: Priority to targetClinicCode
+    const targetClinicCode = targetClinicCodeRef.current;
+    const sortedData = [...data].sort((a, b) => {
+      if (targetClinicCode !== 'all') {
+        if (a.ClinicCode === targetClinicCode) return -1;
+        if (b.ClinicCode === targetClinicCode) return 1;
       }
+      return 0;
+    });
+
+    const now = Date.now();
+    recordObservations(source, data, now);
+
+    setProgress(sortedData);
+    setLastUpdated(new Date(now));
+    setError(null);
+    handleTicketRows(source, data);
+  }, [handleTicketRows]);
+
+  const fetchProgress = useCallback(async (hospital: string, code: string) => {
+    try {
+      const { data, stale, fetchedAt } = await fetchCachedJson<ClinicProgress[]>(`${hospitalApi(hospital)}/AppointmentProgress?DivisionCode=${encodeURIComponent(code)}`);
+      applyProgress(sourceKey(hospital, code), data);
+      saveSnapshot(sourceKey(hospital, code), data, fetchedAt);
+      setStaleFetchedAt(stale ? fetchedAt : null);
     } catch (err) {
       console.error(err);
-      setError('更新進度失敗');
+      // Keep showing the last snapshot, marked stale, rather than an empty list
+      const source = sourceKey(hospital, code);
+      const snapshot = loadSnapshot(source);
+      if (snapshot && selectedSourceRef.current === source) {
+        applyProgress(source, snapshot.rows);
+        setStaleFetchedAt(snapshot.fetchedAt);
+      }
+      setError(navigator.onLine ? describeApiError(err) : null);
     }
-  }, []);
+  }, [applyProgress]);
+
+  // Live updates over Server-Sent Events; polling below takes over while the stream is down
+  useEffect(() => {
+    if (!isAutoRefresh || !isOnline || !selectedSubDiv || typeof EventSource === 'undefined') return;
+
+    let source: EventSource | null = null;
+    let retryTimer: ReturnType<typeof setTimeout> | null = null;
+
+    const connect = () => {
+      source = new EventSource(`${hospitalApi(hospitalId)}/stream?DivisionCode=${encodeURIComponent(selectedSubDiv.DivisionCode)}`);
+      source.addEventListener('snapshot', (e) => {
+        const { rows, stale, ageSeconds } = JSON.parse((e as MessageEvent).data) as { rows: ClinicProgress[]; stale: boolean; ageSeconds: number };
+        const fetchedAt = Date.now() - ageSeconds * 1000;
+        streamRowsRef.current = rows;
+        applyProgress(sourceKey(hospitalId, selectedSubDiv.DivisionCode), rows);
+        saveSnapshot(sourceKey(hospitalId, selectedSubDiv.DivisionCode), rows, fetchedAt);
+        setStaleFetchedAt(stale ? fetchedAt : null);
+        setIsStreamLive(true);
+      });
+      source.addEventListener('update', (e) => {
+        const update = JSON.parse((e as MessageEvent).data) as ProgressStreamUpdate;
+        streamRowsRef.current = mergeProgressUpdate(streamRowsRef.current, update);
+        applyProgress(sourceKey(hospitalId, selectedSubDiv.DivisionCode), streamRowsRef.current);
+        saveSnapshot(sourceKey(hospitalId, selectedSubDiv.DivisionCode), streamRowsRef.current, Date.now());
+        setStaleFetchedAt(null);
+      });
+      source.addEventListener('status', (e) => {
+        const { stale, ageSeconds } = JSON.parse((e as MessageEvent).data) as { stale: boolean; ageSeconds: number };
+        setStaleFetchedAt(stale ? Date.now() - ageSeconds * 1000 : null);
+      });
+      source.addEventListener('upstream-error', (e) => {
+        setError(describeApiError(fromEnvelope(JSON.parse((e as MessageEvent).data), 502)));
+      });
+      source.onerror = () => {
+        source?.close();
+        setIsStreamLive(false);
+        retryTimer = setTimeout(connect, STREAM_RETRY_MS);
+      };
+    };
+    connect();
+
+    return () => {
+      source?.close();
+      if (retryTimer) clearTimeout(retryTimer);
+      setIsStreamLive(false);
+    };
+  }, [isAutoRefresh, isOnline, hospitalId, selectedSubDiv, applyProgress]);
+
+  // Keep the address bar a shareable link to what is on screen, and remember it for next time
+  useEffect(() => {
+    if (pendingDivisionRef.current) return;
+    const number = parseInt(userNumber);
+    const url = formatRoute({
+      hospital: hospitalId,
+      divisionCode: selectedSubDiv?.DivisionCode,
+      clinicCode: targetClinicCode !== 'all' ? targetClinicCode : undefined,
+      number: number > 0 ? number : undefined,
+      notifyBefore: number > 0 ? notifyBefore : undefined
+    }, DEFAULT_HOSPITAL.id);
+    if (url !== window.location.pathname + window.location.search) {
+      // A new division is a new history entry; tweaks to the same view are not
+      if (currentRoute().divisionCode !== selectedSubDiv?.DivisionCode) window.history.pushState(null, '', url);
+      else window.history.replaceState(null, '', url);
+    }
+    saveSettings({
+      hospitalId,
+      divisionCode: selectedSubDiv?.DivisionCode ?? null,
+      targetClinicCode,
+      userNumber,
+      notifyBefore,
+      refreshInterval,
+      chime: isChimeEnabled,
+      divisionHints: showDivisionHints,
+      notify: isNotifyEnabled,
+      channels: extraChannels
+    });
+  }, [
+    hospitalId,
+    selectedSubDiv,
+    targetClinicCode,
+    userNumber,
+    notifyBefore,
+    refreshInterval,
+    isChimeEnabled,
+    showDivisionHints,
+    isNotifyEnabled,
+    extraChannels
+  ]);
+
+  useEffect(() => saveTickets(tickets), [tickets]);
+
+  useEffect(() => saveFavorites(favorites), [favorites]);
+
+  // Back / forward between divisions
+  useEffect(() => {
+    const onPopState = () => {
+      const route = currentRoute();
+      const routeHospital = route.hospital ?? DEFAULT_HOSPITAL.id;
+      if (route.divisionCode && routeHospital !== hospitalId) {
+        pendingDivisionRef.current = { divisionCode: route.divisionCode, clinicCode: route.clinicCode };
+        handleHospitalChange(routeHospital);
+        return;
+      }
+      if (route.number) setUserNumber(String(route.number));
+      if (route.notifyBefore) setNotifyBefore(route.notifyBefore);
+      if (!route.divisionCode) {
+        setSelectedSubDiv(null);
+        setProgress([]);
+        return;
+      }
+      pendingDivisionRef.current = { divisionCode: route.divisionCode, clinicCode: route.clinicCode };
+      resolvePendingDivision(divisions);
+    };
+    window.addEventListener('popstate', onPopState);
+    return () => window.removeEventListener('popstate', onPopState);
+  }, [hospitalId, divisions]);
+
+  // Keep the stale-data badge's age ticking
+  useEffect(() => {
+    if (staleFetchedAt === null) return;
+    setClock(Date.now());
+    const timer = setInterval(() => setClock(Date.now()), 1000);
+    return () => clearInterval(timer);
+  }, [staleFetchedAt]);
 
   // Handle auto-refresh
   useEffect(() => {
     if (timerRef.current) clearInterval(timerRef.current);
     if (countdownRef.current) clearInterval(countdownRef.current);
 
-    if (isAutoRefresh && selectedSubDiv) {
+    if (isAutoRefresh && isOnline && selectedSubDiv && !isStreamLive) {
       setCountdown(refreshInterval);
       
       timerRef.current = setInterval(() => {
-        fetchProgress(selectedSubDiv.DivisionCode);
+        fetchProgress(hospitalId, selectedSubDiv.DivisionCode);
         setCountdown(refreshInterval);
       }, refreshInterval * 1000);
 
@@ -159,20 +482,215 @@ export default function App() {
       if (timerRef.current) clearInterval(timerRef.current);
       if (countdownRef.current) clearInterval(countdownRef.current);
     };
-  }, [isAutoRefresh, refreshInterval, selectedSubDiv, fetchProgress]);
+  }, [isAutoRefresh, isOnline, refreshInterval, hospitalId, selectedSubDiv, isStreamLive, fetchProgress]);
+
+  // Polling and the stream pause while offline; catch up as soon as the connection returns
+  useEffect(() => {
+    const onOnline = () => {
+      setIsOnline(true);
+      const source = selectedSourceRef.current;
+      if (source) {
+        const { hospitalId: hospital, divisionCode } = parseSourceKey(source);
+        fetchProgress(hospital, divisionCode);
+      }
+    };
+    const onOffline = () => {
+      setIsOnline(false);
+      // What is on screen stops updating now; age it from the last snapshot
+      const snapshot = selectedSourceRef.current ? loadSnapshot(selectedSourceRef.current) : null;
+      if (snapshot) setStaleFetchedAt(prev => prev ?? snapshot.fetchedAt);
+    };
+    window.addEventListener('online', onOnline);
+    window.addEventListener('offline', onOffline);
+    return () => {
+      window.removeEventListener('online', onOnline);
+      window.removeEventListener('offline', onOffline);
+    };
+  }, [fetchProgress]);
+
+  // Refresh every tracked division together; the selected one is already kept fresh above
+  const ticketSourcesKey = [...new Set(tickets.map(ticketSource))].sort().join(',');
+  useEffect(() => {
+    if (!ticketSourcesKey || !isAutoRefresh || !isOnline) return;
+    const sources = ticketSourcesKey.split(',');
+
+    const refreshTickets = () => {
+      sources
+        .filter(source => source !== selectedSourceRef.current)
+        .forEach(async source => {
+          const { hospitalId: hospital, divisionCode } = parseSourceKey(source);
+          try {
+            const data = await fetchJson<ClinicProgress[]>(`${hospitalApi(hospital)}/AppointmentProgress?DivisionCode=${encodeURIComponent(divisionCode)}`);
+            recordObservations(source, data, Date.now());
+            handleTicketRows(source, data);
+          } catch (err) {
+            console.error(err);
+          }
+        });
+    };
+    refreshTickets();
+    const timer = setInterval(refreshTickets, refreshInterval * 1000);
+    return () => clearInterval(timer);
+  }, [ticketSourcesKey, isAutoRefresh, isOnline, refreshInterval, handleTicketRows]);
+
+  useEffect(() => {
+    fetchAvailableChannels().then(setAvailableChannels);
+  }, []);
+
+  // Mirror each ticket to a server-side watch so alerts still arrive with the tab closed.
+  // The watches are stored with the tickets, so a reload takes them over rather than orphaning them.
+  const watchesRef = useRef<Map<string, MirroredWatch>>(loadMirroredWatches());
+  const watchSyncRef = useRef<Promise<void>>(Promise.resolve());
+  useEffect(() => {
+    const channelsKey = `${isNotifyEnabled}-${locale}-${JSON.stringify(extraChannels)}`;
+    const wanted = new Map<string, { ticket: Ticket; key: string }>(isNotifyEnabled || extraChannels.length > 0
+      ? tickets.map(ticket => [ticket.id, { ticket, key: `${ticket.number}-${ticket.notifyBefore}-${channelsKey}` }])
+      : []);
+
+    // One change at a time: a changed watch is only registered again once the old one is gone
+    const sync = async () => {
+      const watches = watchesRef.current;
+      for (const [ticketId, watch] of [...watches]) {
+        if (wanted.get(ticketId)?.key === watch.key) continue;
+        await unregisterWatch(watch.id);
+        watches.delete(ticketId);
+        saveMirroredWatches(watches);
+      }
+      for (const [ticketId, { ticket, key }] of wanted) {
+        if (watches.has(ticketId)) continue;
+        const id = await registerWatch({
+          hospital: ticket.hospitalId,
+          DivisionCode: ticket.divisionCode,
+          ClinicCode: ticket.clinicCode,
+          ShiftCode: ticket.shiftCode,
+          number: ticket.number,
+          notifyBefore: ticket.notifyBefore,
+          locale
+        }, { withPush: isNotifyEnabled, extraChannels }).catch(err => {
+          console.error('Background watch registration failed', err);
+          return null;
+        });
+        if (!id) continue;
+        watches.set(ticketId, { id, key });
+        saveMirroredWatches(watches);
+      }
+    };
+    watchSyncRef.current = watchSyncRef.current.then(sync);
+  }, [isNotifyEnabled, extraChannels, tickets, locale]);
+
+  const addTicket = (item: ClinicProgress) => {
+    const number = parseInt(userNumber);
+    if (!selectedSubDiv || isNaN(number) || number <= 0) {
+      alert(t('form.enterNumberFirst'));
+      return;
+    }
+    const source = sourceKey(hospitalId, selectedSubDiv.DivisionCode);
+    const exists = tickets.some(t => ticketSource(t) === source && isTicketFor(t, item) && t.number === number);
+    if (exists) return;
+    setTickets(prev => [...prev, createTicket(hospitalId, selectedSubDiv, item, number, notifyBefore)]);
+    setTicketProgress(prev => ({ ...prev, [source]: progress }));
+  };
+
+  const removeTicket = (id: string) => {
+    setTickets(prev => prev.filter(t => t.id !== id));
+    ticketRowsRef.current.delete(id);
+  };
+
+  const updateTicketNotifyBefore = (id: string, value: number) => {
+    setTickets(prev => prev.map(ticket => (ticket.id === id ? { ...ticket, notifyBefore: value } : ticket)));
+  };
+
+  const selectTicket = (ticket: Ticket) => {
+    if (ticket.hospitalId !== hospitalId) {
+      // Divisions of the other hospital load asynchronously; the ticket carries enough to select it now.
+      setHospitalId(ticket.hospitalId);
+      handleSubDivSelect({ DivisionCode: ticket.divisionCode, DivisionName: ticket.divisionName, NetworkDivisionDesc: null }, ticket.hospitalId);
+      setTargetClinicCode(ticket.clinicCode);
+      return;
+    }
+    const subDiv = divisions.flatMap(d => d.SubDivisions ?? []).find(sub => sub.DivisionCode === ticket.divisionCode);
+    handleSubDivSelect(subDiv ?? { DivisionCode: ticket.divisionCode, DivisionName: ticket.divisionName, NetworkDivisionDesc: null });
+    setTargetClinicCode(ticket.clinicCode);
+  };
+
+  const handleHospitalChange = (id: string) => {
+    if (id === hospitalId) return;
+    setHospitalId(id);
+    setDivisions([]);
+    setSelectedSubDiv(null);
+    setProgress([]);
+    setTargetClinicCode('all');
+  };
 
-  const handleSubDivSelect = (subDiv: SubDivision) => {
+  const handleSubDivSelect = (subDiv: SubDivision, hospital = hospitalId) => {
+    pendingClinicRef.current = null;
     setSelectedSubDiv(subDiv);
     setProgress([]);
+    setStaleFetchedAt(null);
     setTargetClinicCode('all');
-    notifiedRef.current.clear();
-    fetchProgress(subDiv.DivisionCode);
+    setFavorites(prev => recordRecentDivision(prev, { hospitalId: hospital, DivisionCode: subDiv.DivisionCode, DivisionName: subDiv.DivisionName }));
+    fetchProgress(hospital, subDiv.DivisionCode);
+  };
+
+  const subDivisionOf = (saved: SavedDivision): SubDivision =>
+    divisions.flatMap(div => div.SubDivisions ?? []).find(sub => sub.DivisionCode === saved.DivisionCode)
+      ?? { DivisionCode: saved.DivisionCode, DivisionName: saved.DivisionName, NetworkDivisionDesc: null };
+
+  const downloadFavorites = () => {
+    const url = URL.createObjectURL(new Blob([exportFavorites(favorites)], { type: 'application/json' }));
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = `easecheck-favorites-${new Date().toISOString().slice(0, 10)}.json`;
+    link.click();
+    URL.revokeObjectURL(url);
+  };
+
+  const uploadFavorites = async (file: File) => {
+    try {
+      setFavorites(importFavorites(favorites, await file.text()));
+    } catch {
+      alert(t('favorites.importFailed'));
+    }
+  };
+
+  const selectSearchResult = (result: DoctorSearchResult) => {
+    const subDiv = divisions.flatMap(div => div.SubDivisions).find(sub => sub.DivisionCode === result.DivisionCode)
+      ?? { DivisionCode: result.DivisionCode, DivisionName: result.DivisionName, NetworkDivisionDesc: null };
+    handleSubDivSelect(subDiv);
+    pendingClinicRef.current = result.ClinicCode;
+    setSearchTerm('');
+  };
+
+  /** Opens the division a link or stored settings asked for, if this hospital still has it. */
+  const resolvePendingDivision = (data: Division[]) => {
+    const pending = pendingDivisionRef.current;
+    if (!pending) return;
+    pendingDivisionRef.current = null;
+    const subDiv = data.flatMap(div => div.SubDivisions).find(sub => sub.DivisionCode === pending.divisionCode);
+    if (!subDiv) {
+      setError(t('error.linkedDivisionMissing', { code: pending.divisionCode }));
+      window.history.replaceState(null, '', '/');
+      return;
+    }
+    handleSubDivSelect(subDiv);
+    if (pending.clinicCode && pending.clinicCode !== 'all') pendingClinicRef.current = pending.clinicCode;
+  };
+
+  // A card follows its tracked ticket; untracked cards preview the number typed in the header
+  const ticketFor = (item: ClinicProgress) =>
+    tickets.find(t => selectedSubDiv && ticketSource(t) === sourceKey(hospitalId, selectedSubDiv.DivisionCode) && isTicketFor(t, item));
+
+  const getTargetNumber = (item: ClinicProgress) => {
+    const ticket = ticketFor(item);
+    if (ticket) return ticket.number;
+    if (targetClinicCode !== 'all' && item.ClinicCode !== targetClinicCode) return NaN;
+    return parseInt(userNumber);
   };
 
   const getNumberColorClass = (item: ClinicProgress) => {
-    if (!userNumber || isNaN(parseInt(userNumber))) return 'text-emerald-600';
+    const target = getTargetNumber(item);
+    if (isNaN(target)) return 'text-emerald-600';
     
-    const target = parseInt(userNumber);
     const current = parseInt(item.CurrentVisitSeq);
     if (isNaN(current)) return 'text-emerald-600';
     
@@ -186,15 +704,24 @@ export default function App() {
     return 'text-emerald-600';
   };
 
+  const getEta = (item: ClinicProgress) => {
+    const target = getTargetNumber(item);
+    if (isNaN(target) || !selectedSubDiv) return null;
+    return estimateCallTime(item, observationsRef.current.get(observationKey(sourceKey(hospitalId, selectedSubDiv.DivisionCode), item)) ?? [], target);
+  };
+
+  const getTicketEta = (ticket: Ticket, item: ClinicProgress) =>
+    estimateCallTime(item, observationsRef.current.get(observationKey(ticketSource(ticket), item)) ?? [], ticket.number);
+
   const requestNotificationPermission = async () => {
     if (!('Notification' in window)) {
-      alert('此瀏覽器不支援桌面通知');
+      alert(t('notify.unsupported'));
       return;
     }
     
     // If permission is already denied, we can't request it again via code
     if (Notification.permission === 'denied') {
-      alert('您先前已拒絕通知權限。請在瀏覽器網址列左側的設定中手動開啟通知權限，然後重新整理頁面。');
+      alert(t('notify.denied'));
       return;
     }
 
@@ -203,17 +730,17 @@ export default function App() {
         const permission = await Notification.requestPermission();
         setPermissionStatus(permission);
         if (permission !== 'granted') {
-          alert('未能取得通知權限。請確保您已點擊「允許」，或檢查瀏覽器設定。');
+          alert(t('notify.notGranted'));
           return;
         }
         // Success! Send a test notification
-        new Notification('通知功能已開啟', {
-          body: '當看診進度接近您的號碼時，系統將會發送提醒。',
+        new Notification(t('notify.enabledTitle'), {
+          body: t('notify.enabledBody'),
           icon: 'https://www.skh.org.tw/skh/images/logo.png'
         });
       } catch (error) {
         console.error('Error requesting notification permission:', error);
-        alert('要求通知權限時發生錯誤，請確認您不是在私密瀏覽模式下。');
+        alert(t('notify.requestFailed'));
         return;
       }
     }
@@ -221,28 +748,17 @@ export default function App() {
     setIsNotifyEnabled(!isNotifyEnabled);
   };
 
-  const sendNotification = (item: ClinicProgress, diff: number) => {
+  const hintFor = (name: string) => (showDivisionHints ? divisionHint(name, locale) : null);
+
+  const sendNotification = (alert: Alert, ticket: Ticket) => {
     if (Notification.permission === 'granted') {
-      new Notification('新光醫院到號通知', {
-        body: `${item.ClinicName} (${item.DoctorName}) 目前號碼 ${item.CurrentVisitSeq}，距離您的號碼 ${userNumber} 還有 ${diff} 號！`,
+      const { title, body, tag } = describeAlert(alert, ticket, hospitalRef.current.name, getLocale());
+      new Notification(title, {
+        body,
+        tag,
         icon: 'https://www.skh.org.tw/skh/images/logo.png'
       });
-      
-      // Play a simple beep sound if possible
-      try {
-        const audioCtx = new (window.AudioContext || (window as any).webkitAudioContext)();
-        const oscillator = audioCtx.createOscillator();
-        const gainNode = audioCtx.createGain();
-        oscillator.connect(gainNode);
-        gainNode.connect(audioCtx.destination);
-        oscillator.type = 'sine';
-        oscillator.frequency.setValueAtTime(880, audioCtx.currentTime);
-        gainNode.gain.setValueAtTime(0.1, audioCtx.currentTime);
-        oscillator.start();
-        oscillator.stop(audioCtx.currentTime + 0.5);
-      } catch (e) {
-        console.error('Audio play failed', e);
-      }
+      if (isChimeEnabledRef.current) playChime();
     }
   };
 
@@ -254,6 +770,48 @@ export default function App() {
     )
   })).filter(div => div.SubDivisions.length > 0);
 
+  // Saved divisions of the current hospital, shown above the full list while not searching
+  const savedSections = [
+    { id: 'favorites', title: t('favorites.title'), Icon: Star, entries: favorites.divisions.filter(d => d.hospitalId === hospitalId) },
+    { id: 'recent', title: t('favorites.recent'), Icon: History, entries: favorites.recent.filter(d => d.hospitalId === hospitalId) }
+  ].filter(section => !searchTerm && section.entries.length > 0);
+
+  const shownProgress = pinnedFirst<ClinicProgress>(favorites, hospitalId, progress);
+
+  const divisionRow = (sub: SubDivision, key: string) => {
+    const isSelected = selectedSubDiv?.DivisionCode === sub.DivisionCode;
+    const isFavorite = isFavoriteDivision(favorites, hospitalId, sub.DivisionCode);
+    return (
+      <div
+        key={key}
+        className={`flex items-center transition-all hover:bg-emerald-50 group ${isSelected ? 'bg-emerald-50 text-emerald-700' : ''}`}
+      >
+        <button
+          onClick={() => handleSubDivSelect(sub)}
+          className="flex-1 min-w-0 flex items-center justify-between pl-6 pr-2 py-4 text-left"
+        >
+          <span className="min-w-0">
+            <span className="block text-sm font-medium">{sub.DivisionName}</span>
+            {hintFor(sub.DivisionName) && <span className="block text-[10px] text-black/40">{hintFor(sub.DivisionName)}</span>}
+          </span>
+          <ChevronRight 
+            size={16} 
+            className={`transition-transform duration-300 ${
+              isSelected ? 'translate-x-1 text-emerald-500' : 'text-black/10 group-hover:text-emerald-300'
+            }`} 
+          />
+        </button>
+        <button
+          onClick={() => setFavorites(prev => toggleFavoriteDivision(prev, { hospitalId, DivisionCode: sub.DivisionCode, DivisionName: sub.DivisionName }))}
+          className={`shrink-0 p-2 mr-2 rounded-lg transition-colors ${isFavorite ? 'text-amber-400' : 'text-black/10 hover:text-amber-400'}`}
+          title={isFavorite ? t('favorites.remove') : t('favorites.add')}
+        >
+          <Star size={14} className={isFavorite ? 'fill-current' : ''} />
+        </button>
+      </div>
+    );
+  };
+
   return (
     <div className="min-h-screen bg-[#F5F5F4] text-[#141414] font-sans selection:bg-emerald-100">
       {/* Header */}
@@ -266,9 +824,31 @@ export default function App() {
                 <Hospital size={24} className="hidden sm:block" />
               </div>
               <div>
-                <h1 className="text-lg sm:text-xl font-black tracking-tight leading-tight">新光醫院看診進度</h1>
+                <h1 className="text-lg sm:text-xl font-black tracking-tight leading-tight">{t('app.title', { hospital: hospital.name })}</h1>
                 <p className="text-[10px] text-black/20 font-bold uppercase tracking-wider hidden xs:block">Real-time Monitor</p>
               </div>
+              {hospitals.length > 1 && (
+                <select
+                  value={hospitalId}
+                  onChange={(e) => handleHospitalChange(e.target.value)}
+                  className="bg-black/5 rounded-lg px-2 py-1 text-xs font-bold outline-none cursor-pointer"
+                  title={t('app.selectHospital')}
+                >
+                  {hospitals.map(h => (
+                    <option key={h.id} value={h.id}>{h.name}</option>
+                  ))}
+                </select>
+              )}
+              <select
+                value={locale}
+                onChange={(e) => setLocale(e.target.value as Locale)}
+                className="bg-black/5 rounded-lg px-2 py-1 text-xs font-bold outline-none cursor-pointer"
+                title={t('app.language')}
+              >
+                {LOCALES.map(code => (
+                  <option key={code} value={code}>{LOCALE_NAMES[code]}</option>
+                ))}
+              </select>
             </div>
             
             {/* Mobile Notification Toggle - Moved to header for better access */}
@@ -293,13 +873,13 @@ export default function App() {
             {selectedSubDiv && (
               <div className="hidden md:flex items-center gap-2 bg-emerald-50 border border-emerald-100 px-3 py-1.5 rounded-xl">
                 <div className="flex items-center gap-2">
-                  <span className="text-[10px] font-bold text-emerald-600 uppercase">診別</span>
+                  <span className="text-[10px] font-bold text-emerald-600 uppercase">{t('form.clinic')}</span>
                   <select 
                     value={targetClinicCode}
                     onChange={(e) => setTargetClinicCode(e.target.value)}
                     className="max-w-[100px] bg-white border border-emerald-200 rounded-md px-1 py-0.5 text-xs font-bold outline-none cursor-pointer truncate"
                   >
-                    <option value="all">全部診別</option>
+                    <option value="all">{t('form.allClinics')}</option>
                     {progress.map((p, idx) => (
                       <option key={`${p.ClinicCode}-${p.ShiftCode}-${idx}`} value={p.ClinicCode}>{p.ClinicName} ({p.ShiftName})</option>
                     ))}
@@ -307,10 +887,10 @@ export default function App() {
                 </div>
                 <div className="h-4 w-[1px] bg-emerald-200 mx-1" />
                 <div className="flex items-center gap-2">
-                  <span className="text-[10px] font-bold text-emerald-600 uppercase">我的號碼</span>
+                  <span className="text-[10px] font-bold text-emerald-600 uppercase">{t('form.myNumber')}</span>
                   <input 
                     type="number"
-                    placeholder="號碼"
+                    placeholder={t('form.numberPlaceholder')}
                     value={userNumber}
                     onChange={(e) => setUserNumber(e.target.value)}
                     className="w-16 bg-white border border-emerald-200 rounded-md px-2 py-0.5 text-xs font-bold outline-none focus:ring-2 focus:ring-emerald-500/20"
@@ -318,7 +898,7 @@ export default function App() {
                 </div>
                 <div className="h-4 w-[1px] bg-emerald-200 mx-1" />
                 <div className="flex items-center gap-2">
-                  <span className="text-[10px] font-bold text-emerald-600 uppercase">前 N 號通知</span>
+                  <span className="text-[10px] font-bold text-emerald-600 uppercase">{t('form.notifyBefore')}</span>
                   <select 
                     value={notifyBefore}
                     onChange={(e) => setNotifyBefore(Number(e.target.value))}
@@ -329,6 +909,17 @@ export default function App() {
                     ))}
                   </select>
                 </div>
+                <button
+                  onClick={() => {
+                    const item = progress.find(p => p.ClinicCode === targetClinicCode);
+                    if (item) addTicket(item);
+                    else alert(t('form.selectClinicFirst'));
+                  }}
+                  className="ml-2 p-1.5 rounded-lg transition-all bg-white text-emerald-600 border border-emerald-200 hover:bg-emerald-600 hover:text-white"
+                  title={t('ticket.add')}
+                >
+                  <Plus size={14} />
+                </button>
                 <button 
                   onClick={requestNotificationPermission}
                   className={`ml-2 p-1.5 rounded-lg transition-all relative ${
@@ -338,8 +929,8 @@ export default function App() {
                   }`}
                   title={
                     permissionStatus === 'denied' 
-                      ? '權限已被拒絕，請手動開啟' 
-                      : isNotifyEnabled ? '關閉通知' : '開啟通知'
+                      ? t('notify.permissionDenied')
+                      : isNotifyEnabled ? t('notify.disable') : t('notify.enable')
                   }
                 >
                   {isNotifyEnabled ? <Bell size={14} /> : <BellOff size={14} />}
@@ -347,6 +938,23 @@ export default function App() {
                     <div className="absolute -top-1 -right-1 w-2 h-2 bg-red-500 rounded-full border border-white" />
                   )}
                 </button>
+                <button
+                  onClick={() => {
+                    if (!isChimeEnabled) playChime();
+                    setIsChimeEnabled(!isChimeEnabled);
+                  }}
+                  className="ml-2 p-1.5 rounded-lg transition-all bg-white text-emerald-600 border border-emerald-200"
+                  title={isChimeEnabled ? t('notify.chimeOff') : t('notify.chimeOn')}
+                >
+                  {isChimeEnabled ? <Volume2 size={14} /> : <VolumeX size={14} />}
+                </button>
+                <a
+                  href={formatKioskRoute([selectedSubDiv.DivisionCode], hospitalId, DEFAULT_HOSPITAL.id)}
+                  className="ml-2 p-1.5 rounded-lg transition-all bg-white text-emerald-600 border border-emerald-200 hover:bg-emerald-600 hover:text-white"
+                  title={t('clinic.kiosk')}
+                >
+                  <MonitorPlay size={14} />
+                </a>
               </div>
             )}
             
@@ -355,7 +963,7 @@ export default function App() {
                 <div className="flex items-center gap-2 bg-black/5 px-3 py-1.5 rounded-full shrink-0">
                   <div className="flex items-center gap-1.5 text-[10px] font-bold text-black/60">
                     <RefreshCw size={12} className={loading ? 'animate-spin' : ''} />
-                    <span className="tabular-nums">{countdown}s</span>
+                    <span className="tabular-nums">{!isOnline ? t('progress.offline') : isAutoRefresh && isStreamLive ? 'LIVE' : `${countdown}s`}</span>
                   </div>
                   <div className="h-3 w-[1px] bg-black/10" />
                   <button 
@@ -374,9 +982,9 @@ export default function App() {
                   onChange={(e) => setRefreshInterval(Number(e.target.value))}
                   className="bg-transparent text-[10px] font-bold px-1 py-0.5 outline-none cursor-pointer"
                 >
-                  <option value={3}>3s</option>
-                  <option value={5}>5s</option>
-                  <option value={10}>10s</option>
+                  {clientSettings.refreshIntervals.map((seconds: number) => (
+                    <option key={seconds} value={seconds}>{seconds}s</option>
+                  ))}
                 </select>
               </div>
             </div>
@@ -389,30 +997,30 @@ export default function App() {
         <div className="sm:hidden bg-emerald-50/50 border-b border-emerald-100 px-4 py-2 sticky top-[61px] z-40">
           <div className="flex items-center gap-3 overflow-x-auto no-scrollbar py-1">
             <div className="flex items-center gap-2 shrink-0 bg-white border border-emerald-100 px-2 py-1 rounded-lg shadow-sm">
-              <span className="text-[9px] font-black text-emerald-600 uppercase">診別</span>
+              <span className="text-[9px] font-black text-emerald-600 uppercase">{t('form.clinic')}</span>
               <select 
                 value={targetClinicCode}
                 onChange={(e) => setTargetClinicCode(e.target.value)}
                 className="bg-transparent text-[11px] font-bold outline-none max-w-[80px] truncate"
               >
-                <option value="all">全部</option>
+                <option value="all">{t('form.all')}</option>
                 {progress.map((p, idx) => (
                   <option key={`${p.ClinicCode}-${p.ShiftCode}-${idx}`} value={p.ClinicCode}>{p.ClinicName}</option>
                 ))}
               </select>
             </div>
             <div className="flex items-center gap-2 shrink-0 bg-white border border-emerald-100 px-2 py-1 rounded-lg shadow-sm">
-              <span className="text-[9px] font-black text-emerald-600 uppercase">我的號碼</span>
+              <span className="text-[9px] font-black text-emerald-600 uppercase">{t('form.myNumber')}</span>
               <input 
                 type="number"
                 value={userNumber}
                 onChange={(e) => setUserNumber(e.target.value)}
                 className="w-10 bg-transparent text-[11px] font-bold outline-none"
-                placeholder="號碼"
+                placeholder={t('form.numberPlaceholder')}
               />
             </div>
             <div className="flex items-center gap-2 shrink-0 bg-white border border-emerald-100 px-2 py-1 rounded-lg shadow-sm">
-              <span className="text-[9px] font-black text-emerald-600 uppercase">前 N 號</span>
+              <span className="text-[9px] font-black text-emerald-600 uppercase">{t('form.notifyBeforeShort')}</span>
               <select 
                 value={notifyBefore}
                 onChange={(e) => setNotifyBefore(Number(e.target.value))}
@@ -423,6 +1031,17 @@ export default function App() {
                 ))}
               </select>
             </div>
+            <button
+              onClick={() => {
+                const item = progress.find(p => p.ClinicCode === targetClinicCode);
+                if (item) addTicket(item);
+                else alert(t('form.selectClinicFirst'));
+              }}
+              className="shrink-0 flex items-center gap-1 bg-emerald-600 text-white px-2 py-1 rounded-lg shadow-sm text-[11px] font-bold"
+            >
+              <Plus size={12} />
+              {t('ticket.addShort')}
+            </button>
           </div>
         </div>
       )}
@@ -430,23 +1049,74 @@ export default function App() {
       <main className="max-w-7xl mx-auto p-6 grid grid-cols-1 lg:grid-cols-12 gap-8">
         {/* Sidebar: Division List - Collapsible on Mobile */}
         <aside className="lg:col-span-4 space-y-4 sm:space-y-6">
+          <TicketSummary
+            tickets={tickets}
+            ticketProgress={ticketProgress}
+            getEta={getTicketEta}
+            onSelect={selectTicket}
+            onRemove={removeTicket}
+            onChangeNotifyBefore={updateTicketNotifyBefore}
+          />
+
+          {tickets.length > 0 && (
+            <NotificationChannels available={availableChannels} channels={extraChannels} onChange={setExtraChannels} />
+          )}
+
           <div className="relative">
             <Search className="absolute left-4 top-1/2 -translate-y-1/2 text-black/20" size={18} />
             <input
               type="text"
-              placeholder="搜尋科別..."
+              placeholder={t('search.placeholder')}
               value={searchTerm}
               onChange={(e) => setSearchTerm(e.target.value)}
               className="w-full pl-12 pr-6 py-3 sm:py-4 bg-white rounded-2xl sm:rounded-3xl border border-black/5 shadow-sm focus:ring-4 focus:ring-emerald-500/10 focus:border-emerald-500 outline-none transition-all text-sm sm:text-base"
             />
           </div>
 
+          <DoctorSearchResults results={pinnedFirst<DoctorSearchResult>(favorites, hospitalId, doctorResults)} onSelect={selectSearchResult} />
+
           <div className="bg-white rounded-2xl sm:rounded-3xl border border-black/5 shadow-sm overflow-hidden">
             <div className="p-3 sm:p-4 border-b border-black/5 bg-black/[0.02] flex items-center justify-between">
-              <h2 className="text-[10px] sm:text-xs font-bold text-black/40 uppercase tracking-widest">科別清單</h2>
+              <div className="flex items-center gap-2">
+                <h2 className="text-[10px] sm:text-xs font-bold text-black/40 uppercase tracking-widest">{t('divisions.title')}</h2>
+                {locale !== 'zh-TW' && (
+                  <button
+                    onClick={() => setShowDivisionHints(!showDivisionHints)}
+                    className={`p-1 rounded-md transition-colors ${showDivisionHints ? 'text-emerald-600 bg-emerald-50' : 'text-black/20 hover:bg-black/5'}`}
+                    title={showDivisionHints ? t('app.hints.hide') : t('app.hints.show')}
+                  >
+                    <Languages size={12} />
+                  </button>
+                )}
+                <button
+                  onClick={downloadFavorites}
+                  className="p-1 rounded-md text-black/20 hover:bg-black/5 transition-colors"
+                  title={t('favorites.export')}
+                >
+                  <Download size={12} />
+                </button>
+                <button
+                  onClick={() => favoritesFileRef.current?.click()}
+                  className="p-1 rounded-md text-black/20 hover:bg-black/5 transition-colors"
+                  title={t('favorites.import')}
+                >
+                  <Upload size={12} />
+                </button>
+                <input
+                  ref={favoritesFileRef}
+                  type="file"
+                  accept="application/json,.json"
+                  className="hidden"
+                  onChange={(e) => {
+                    const file = e.target.files?.[0];
+                    e.target.value = '';
+                    if (file) uploadFavorites(file);
+                  }}
+                />
+              </div>
               {selectedSubDiv && (
                 <span className="md:hidden text-[10px] font-bold text-emerald-600 bg-emerald-50 px-2 py-0.5 rounded-full">
-                  已選擇: {selectedSubDiv.DivisionName}
+                  {t('divisions.selected', { name: selectedSubDiv.DivisionName })}
                 </span>
               )}
             </div>
@@ -454,33 +1124,40 @@ export default function App() {
               {loading && divisions.length === 0 ? (
                 <div className="p-8 text-center space-y-3">
                   <RefreshCw className="mx-auto animate-spin text-emerald-500" size={24} />
-                  <p className="text-sm text-black/40">載入中...</p>
+                  <p className="text-sm text-black/40">{t('common.loading')}</p>
                 </div>
               ) : (
-                filteredDivisions.map((div, dIdx) => (
+                <>
+                {savedSections.map(({ id, title, Icon, entries }) => (
+                  <div key={id} className="border-b border-black/5">
+                    <div className="px-4 py-2 bg-amber-50/60 text-[10px] font-bold text-amber-700/70 uppercase tracking-tighter flex items-center gap-1">
+                      <Icon size={10} />
+                      {title}
+                    </div>
+                    {entries.map(saved => divisionRow(subDivisionOf(saved), `${id}-${saved.DivisionCode}`))}
+                  </div>
+                ))}
+                {filteredDivisions.map((div, dIdx) => (
                   <div key={`${div.DivisionCode}-${dIdx}`} className="border-b border-black/5 last:border-0">
-                    <div className="px-4 py-2 bg-black/[0.01] text-[10px] font-bold text-black/30 uppercase tracking-tighter">
-                      {div.DivisionName}
+                    <div className="px-4 py-2 bg-black/[0.01] text-[10px] font-bold text-black/30 uppercase tracking-tighter flex items-center">
+                      <span className="flex-1 min-w-0">
+                        {div.DivisionName}
+                        {hintFor(div.DivisionName) && <span className="ml-2 font-medium normal-case tracking-normal">{hintFor(div.DivisionName)}</span>}
+                      </span>
+                      {div.SubDivisions.length > 1 && (
+                        <a
+                          href={formatOverviewRoute(div.SubDivisions.map(sub => sub.DivisionCode), hospitalId, DEFAULT_HOSPITAL.id)}
+                          className="shrink-0 p-1 rounded-md text-black/20 hover:text-emerald-600 hover:bg-emerald-50 transition-colors"
+                          title={t('overview.open')}
+                        >
+                          <LayoutGrid size={12} />
+                        </a>
+                      )}
                     </div>
-                    {div.SubDivisions.map((sub, sIdx) => (
-                      <button
-                        key={`${sub.DivisionCode}-${sIdx}`}
-                        onClick={() => handleSubDivSelect(sub)}
-                        className={`w-full flex items-center justify-between px-6 py-4 text-left transition-all hover:bg-emerald-50 group ${
-                          selectedSubDiv?.DivisionCode === sub.DivisionCode ? 'bg-emerald-50 text-emerald-700' : ''
-                        }`}
-                      >
-                        <span className="text-sm font-medium">{sub.DivisionName}</span>
-                        <ChevronRight 
-                          size={16} 
-                          className={`transition-transform duration-300 ${
-                            selectedSubDiv?.DivisionCode === sub.DivisionCode ? 'translate-x-1 text-emerald-500' : 'text-black/10 group-hover:text-emerald-300'
-                          }`} 
-                        />
-                      </button>
-                    ))}
+                    {div.SubDivisions.map((sub, sIdx) => divisionRow(sub, `${sub.DivisionCode}-${sIdx}`))}
                   </div>
-                ))
+                ))}
+                </>
               )}
             </div>
           </div>
@@ -499,8 +1176,8 @@ export default function App() {
                 <div className="w-20 h-20 bg-emerald-50 rounded-full flex items-center justify-center text-emerald-500 mb-6">
                   <Activity size={40} />
                 </div>
-                <h3 className="text-2xl font-bold mb-2">請選擇一個科別</h3>
-                <p className="text-black/40 max-w-xs">從左側清單中選擇您想查看的科別，即可即時追蹤看診進度。</p>
+                <h3 className="text-2xl font-bold mb-2">{t('divisions.emptyTitle')}</h3>
+                <p className="text-black/40 max-w-xs">{t('divisions.emptyBody')}</p>
               </motion.div>
             ) : (
               <motion.div 
@@ -512,11 +1189,33 @@ export default function App() {
                 <div className="flex items-end justify-between px-2">
                   <div className="w-full">
                     <h2 className="text-2xl sm:text-4xl font-black tracking-tight mb-1 break-words">{selectedSubDiv.DivisionName}</h2>
+                    {hintFor(selectedSubDiv.DivisionName) && (
+                      <p className="text-xs sm:text-sm text-black/40 -mt-1 mb-1">{hintFor(selectedSubDiv.DivisionName)}</p>
+                    )}
                     <div className="flex flex-wrap items-center gap-x-3 gap-y-1 text-[10px] sm:text-sm text-black/40">
                       <span className="flex items-center gap-1">
                         <Clock size={12} className="sm:size-[14px]" />
-                        更新: {lastUpdated?.toLocaleTimeString([], { hour: '2-digit', minute: '2-digit', second: '2-digit' }) || '--:--:--'}
+                        {t('progress.updated', { time: lastUpdated ? formatTime(locale, lastUpdated, true) : '--:--:--' })}
                       </span>
+                      <span className="flex items-center gap-1" title={t('export.progress')}>
+                        <Download size={12} className="sm:size-[14px]" />
+                        {(['csv', 'json'] as const).map(format => (
+                          <a
+                            key={format}
+                            href={progressExportUrl(hospitalId, selectedSubDiv.DivisionCode, format)}
+                            download
+                            className="font-bold uppercase hover:text-emerald-600 transition-colors"
+                          >
+                            {format}
+                          </a>
+                        ))}
+                      </span>
+                      {staleFetchedAt !== null && (
+                        <span className="flex items-center gap-1 px-2 py-0.5 rounded-full bg-amber-100 text-amber-700 font-bold">
+                          <History size={12} className="sm:size-[14px]" />
+                          {!isOnline && t('progress.offlinePrefix')}{t('progress.stale', { seconds: Math.max(0, Math.round((clock - staleFetchedAt) / 1000)) })}
+                        </span>
+                      )}
                       {error && (
                         <span className="flex items-center gap-1 text-red-500 font-medium">
                           <AlertCircle size={12} className="sm:size-[14px]" />
@@ -528,14 +1227,19 @@ export default function App() {
                 </div>
 
                 <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
-                  {progress.length > 0 ? (
-                    progress.map((item, idx) => (
+                  {shownProgress.length > 0 ? (
+                    shownProgress.map((item, idx) => {
+                      const isPinned = isPinnedDoctor(favorites, hospitalId, item.DoctorEmpNo);
+                      return (
                       <motion.div
                         key={`${item.ClinicCode}-${item.ShiftCode}-${item.DoctorEmpNo}-${idx}`}
+                        data-clinic={item.ClinicCode}
                         layout
                         initial={{ opacity: 0, scale: 0.95 }}
                         animate={{ opacity: 1, scale: 1 }}
-                        className="bg-white p-4 sm:p-6 rounded-2xl sm:rounded-[32px] border border-black/5 shadow-sm hover:shadow-xl hover:shadow-emerald-900/5 transition-all group"
+                        className={`bg-white p-4 sm:p-6 rounded-2xl sm:rounded-[32px] border shadow-sm hover:shadow-xl hover:shadow-emerald-900/5 transition-all group ${
+                          isPinned ? 'border-amber-300 ring-2 ring-amber-100' : 'border-black/5'
+                        }`}
                       >
                         <div className="flex justify-between items-start mb-4 sm:mb-6">
                           <div className="space-y-1">
@@ -545,6 +1249,20 @@ export default function App() {
                             <div className="flex items-center gap-2 text-base sm:text-lg font-bold">
                               <User size={16} className="text-black/20 sm:size-[18px]" />
                               {item.DoctorName}
+                              <a
+                                href={formatAnalyticsRoute({ hospital: hospitalId, kind: 'doctor', code: item.DoctorEmpNo }, DEFAULT_HOSPITAL.id)}
+                                title={t('clinic.analytics')}
+                                className="p-1 rounded-lg text-black/20 hover:text-emerald-600 hover:bg-emerald-50 transition-colors"
+                              >
+                                <BarChart3 size={14} />
+                              </a>
+                              <button
+                                onClick={() => setFavorites(prev => togglePinnedDoctor(prev, { hospitalId, DoctorEmpNo: item.DoctorEmpNo, DoctorName: item.DoctorName }))}
+                                title={isPinned ? t('favorites.unpin') : t('favorites.pin')}
+                                className={`p-1 rounded-lg transition-colors ${isPinned ? 'text-amber-500 bg-amber-50' : 'text-black/20 hover:text-amber-500 hover:bg-amber-50'}`}
+                              >
+                                <Pin size={14} className={isPinned ? 'fill-current' : ''} />
+                              </button>
                             </div>
                           </div>
                           <div className="text-right">
@@ -563,7 +1281,7 @@ export default function App() {
                               </AnimatePresence>
                             </div>
                             <div className="text-[9px] sm:text-[10px] font-bold text-black/30 uppercase tracking-widest">
-                              目前號碼
+                              {t('clinic.current')}
                             </div>
                           </div>
                         </div>
@@ -571,53 +1289,92 @@ export default function App() {
                         <div className="grid grid-cols-2 gap-4 pt-3 sm:pt-4 border-t border-black/5">
                           <div className="space-y-0.5 sm:space-y-1">
                             <div className="text-[9px] sm:text-[10px] font-bold text-black/30 uppercase tracking-widest flex items-center gap-1">
-                              <Stethoscope size={10} /> 下一號
+                              <Stethoscope size={10} /> {t('clinic.next')}
                             </div>
                             <div className="text-base sm:text-lg font-bold tabular-nums">{item.NextVisitSeq}</div>
                           </div>
                           <div className="space-y-0.5 sm:space-y-1 text-right">
                             <div className="text-[9px] sm:text-[10px] font-bold text-black/30 uppercase tracking-widest">
-                              報到人數
+                              {t('clinic.checkIns')}
                             </div>
                             <div className="text-base sm:text-lg font-bold tabular-nums">{item.CheckInCount}</div>
                           </div>
                         </div>
                         
+                        {(() => {
+                          const eta = getEta(item);
+                          const pace = eta?.minutesPerNumber ?? shiftPace(item);
+                          if (!eta && pace === null) return null;
+                          return (
+                            <div className="mt-3 flex items-center justify-between gap-2 px-3 py-2 bg-emerald-50/60 rounded-xl text-[10px] sm:text-xs">
+                              <div className="flex items-center gap-1.5 font-bold text-emerald-700">
+                                <Timer size={12} />
+                                {eta ? (
+                                  <span className="tabular-nums">
+                                    {t('eta.expected', { time: formatTime(locale, eta.expectedAt) })}
+                                    <span className="font-medium text-emerald-600/60 ml-1">
+                                      ({formatTime(locale, eta.earliestAt)}–{formatTime(locale, eta.latestAt)})
+                                    </span>
+                                  </span>
+                                ) : (
+                                  <span>{t('eta.unknown')}</span>
+                                )}
+                              </div>
+                              {pace !== null && (
+                                <span className="font-medium text-black/40 tabular-nums shrink-0" title={eta?.basis === 'observed' ? t('eta.basisObserved') : t('eta.basisShift')}>
+                                  {t('eta.pace', { minutes: pace.toFixed(1) })}
+                                </span>
+                              )}
+                            </div>
+                          );
+                        })()}
+
                         <div className="mt-4 flex items-center justify-between gap-2">
                           <div className="flex items-center gap-1.5">
                             <div className={`w-1.5 h-1.5 sm:w-2 sm:h-2 rounded-full ${item.ClinicVisitState === '1' ? 'bg-emerald-500 animate-pulse' : 'bg-black/10'}`} />
                             <span className="text-[9px] sm:text-[10px] font-bold text-black/40 uppercase tracking-widest">
-                              {item.ClinicVisitState === '1' ? '看診中' : '暫停/結束'}
+                              {item.ClinicVisitState === '1' ? t('clinic.open') : t('clinic.pausedOrEnded')}
                             </span>
                           </div>
                           
-                          <button
-                            onClick={() => {
-                              setTargetClinicCode(item.ClinicCode);
-                              if (!isNotifyEnabled) {
-                                requestNotificationPermission();
-                              }
-                            }}
-                            className={`flex items-center gap-1 px-2 py-1 sm:px-3 sm:py-1 rounded-full text-[9px] sm:text-[10px] font-bold uppercase tracking-widest transition-all ${
-                              targetClinicCode === item.ClinicCode 
-                                ? 'bg-emerald-600 text-white shadow-lg shadow-emerald-200' 
-                                : 'bg-black/5 text-black/40 hover:bg-emerald-50 hover:text-emerald-600'
-                            }`}
-                          >
-                            {targetClinicCode === item.ClinicCode ? <Bell size={10} /> : <BellOff size={10} />}
-                            <span className="xs:inline hidden">{targetClinicCode === item.ClinicCode ? '監測中' : '設為提醒目標'}</span>
-                            <span className="xs:hidden inline">{targetClinicCode === item.ClinicCode ? '監測' : '提醒'}</span>
-                          </button>
+                          {(() => {
+                            const ticket = ticketFor(item);
+                            return (
+                              <button
+                                onClick={() => {
+                                  if (ticket) {
+                                    removeTicket(ticket.id);
+                                    return;
+                                  }
+                                  setTargetClinicCode(item.ClinicCode);
+                                  if (userNumber) addTicket(item);
+                                  if (!isNotifyEnabled) {
+                                    requestNotificationPermission();
+                                  }
+                                }}
+                                className={`flex items-center gap-1 px-2 py-1 sm:px-3 sm:py-1 rounded-full text-[9px] sm:text-[10px] font-bold uppercase tracking-widest transition-all ${
+                                  ticket
+                                    ? 'bg-emerald-600 text-white shadow-lg shadow-emerald-200' 
+                                    : 'bg-black/5 text-black/40 hover:bg-emerald-50 hover:text-emerald-600'
+                                }`}
+                              >
+                                {ticket ? <Bell size={10} /> : <BellOff size={10} />}
+                                <span className="xs:inline hidden">{ticket ? t('ticket.monitoring', { number: ticket.number }) : t('ticket.setTarget')}</span>
+                                <span className="xs:hidden inline">{ticket ? t('ticket.monitoringShort') : t('ticket.setTargetShort')}</span>
+                              </button>
+                            );
+                          })()}
                         </div>
                       </motion.div>
-                    ))
+                      );
+                    })
                   ) : (
                     <div className="col-span-full py-20 text-center bg-white rounded-[40px] border border-black/5">
                       <div className="w-16 h-16 bg-black/5 rounded-full flex items-center justify-center text-black/20 mx-auto mb-4">
                         <RefreshCw size={32} className={loading ? 'animate-spin' : ''} />
                       </div>
                       <p className="text-black/40 font-medium">
-                        {loading ? '正在獲取最新進度...' : '目前此科別無看診資訊'}
+                        {loading ? t('progress.loading') : t('progress.empty')}
                       </p>
                     </div>
                   )}
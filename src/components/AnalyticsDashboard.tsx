@@ -0,0 +1,264 @@
+import { useEffect, useState } from 'react';
+import { ArrowLeft, BarChart3, Clock, Download, Timer, User } from 'lucide-react';
+import { ClinicAnalytics, DoctorAnalytics, PercentileSummary, ThroughputBucket } from '../types';
+import { fetchJson, describeApiError } from '../lib/api';
+import { AnalyticsRoute, formatAnalyticsRoute } from '../lib/route';
+import { LOCALES, LOCALE_NAMES, Locale, MessageKey } from '../lib/i18n';
+import { setLocale, t, useLocale } from '../lib/locale';
+import { timelineExportUrl } from '../lib/exports';
+
+const RANGES = [4, 8, 12];
+
+type Analytics = DoctorAnalytics | ClinicAnalytics;
+
+const isClinic = (data: Analytics): data is ClinicAnalytics => 'ClinicCode' in data;
+
+const minutes = (value: number | null) => (value === null ? '--' : t('analytics.minutes', { value }));
+const weekday = (day: number) => t(`weekday.${day}` as MessageKey);
+
+function fromDate(weeks: number) {
+  const date = new Date(Date.now() - (weeks * 7 - 1) * 24 * 60 * 60 * 1000);
+  return new Intl.DateTimeFormat('en-CA', { timeZone: 'Asia/Taipei' }).format(date);
+}
+
+function StatCard({ label, summary, note }: { label: string; summary: PercentileSummary; note: string }) {
+  return (
+    <div className="bg-white rounded-2xl border border-black/5 shadow-sm p-4 space-y-1">
+      <div className="text-[10px] font-bold text-black/30 uppercase tracking-widest">{label}</div>
+      <div className="text-2xl font-black tabular-nums">{minutes(summary.p50)}</div>
+      <div className="text-[11px] text-black/50 tabular-nums">
+        P75 {minutes(summary.p75)} · P90 {minutes(summary.p90)} · {summary.count} {note}
+      </div>
+    </div>
+  );
+}
+
+/** Median as a solid bar, P90 as the faint bar behind it. */
+function BucketChart({ title, buckets, label }: { title: string; buckets: ThroughputBucket[]; label: (bucket: number) => string }) {
+  const max = Math.max(1, ...buckets.map(b => b.p90 ?? 0));
+  return (
+    <div className="bg-white rounded-2xl border border-black/5 shadow-sm p-4">
+      <h3 className="text-[10px] sm:text-xs font-bold text-black/40 uppercase tracking-widest mb-4">{title}</h3>
+      {buckets.length === 0 ? (
+        <p className="text-sm text-black/30">{t('analytics.notEnough')}</p>
+      ) : (
+        <div className="flex items-end gap-2 h-40">
+          {buckets.map(bucket => (
+            <div key={bucket.bucket} className="flex-1 flex flex-col items-center gap-1 min-w-0" title={t('analytics.bucketTitle', { p50: bucket.p50 ?? '--', p90: bucket.p90 ?? '--', count: bucket.count })}>
+              <div className="relative w-full flex-1 flex items-end">
+                <div className="absolute bottom-0 w-full bg-emerald-100 rounded-t-md" style={{ height: `${((bucket.p90 ?? 0) / max) * 100}%` }} />
+                <div className="relative w-full bg-emerald-600 rounded-t-md" style={{ height: `${((bucket.p50 ?? 0) / max) * 100}%` }} />
+              </div>
+              <div className="text-[10px] font-bold text-black/50 tabular-nums">{bucket.p50 ?? '--'}</div>
+              <div className="text-[10px] text-black/30 truncate">{label(bucket.bucket)}</div>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
+
+function PercentileTable({ rows }: { rows: Array<{ label: string; summary: PercentileSummary }> }) {
+  return (
+    <div className="bg-white rounded-2xl border border-black/5 shadow-sm overflow-x-auto">
+      <table className="w-full text-sm tabular-nums">
+        <thead className="bg-black/[0.02] text-[10px] font-bold text-black/40 uppercase tracking-widest">
+          <tr>
+            <th className="text-left px-4 py-2">{t('analytics.tableTitle')}</th>
+            <th className="text-right px-4 py-2">{t('analytics.samples')}</th>
+            <th className="text-right px-4 py-2">{t('analytics.mean')}</th>
+            <th className="text-right px-4 py-2">P50</th>
+            <th className="text-right px-4 py-2">P75</th>
+            <th className="text-right px-4 py-2">P90</th>
+          </tr>
+        </thead>
+        <tbody className="divide-y divide-black/5">
+          {rows.map(({ label, summary }) => (
+            <tr key={label}>
+              <td className="px-4 py-2 font-medium">{label}</td>
+              <td className="px-4 py-2 text-right text-black/40">{summary.count}</td>
+              <td className="px-4 py-2 text-right">{summary.mean ?? '--'}</td>
+              <td className="px-4 py-2 text-right font-bold">{summary.p50 ?? '--'}</td>
+              <td className="px-4 py-2 text-right">{summary.p75 ?? '--'}</td>
+              <td className="px-4 py-2 text-right">{summary.p90 ?? '--'}</td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+    </div>
+  );
+}
+
+/** Turns the percentiles into "with N numbers ahead, expect X to Y minutes". */
+function ArrivalAdvice({ summary }: { summary: PercentileSummary }) {
+  const [ahead, setAhead] = useState(10);
+  if (summary.p50 === null || summary.p90 === null) return null;
+  return (
+    <div className="bg-emerald-50 rounded-2xl border border-emerald-100 p-4 flex flex-wrap items-center gap-2 text-sm text-emerald-900">
+      <Timer size={16} className="text-emerald-600" />
+      {t('analytics.adviceBefore')}
+      <input
+        type="number"
+        min={1}
+        value={ahead}
+        onChange={(e) => setAhead(Math.max(1, Number(e.target.value) || 1))}
+        className="w-16 px-2 py-1 rounded-lg border border-emerald-200 bg-white text-center font-bold tabular-nums"
+      />
+      {t('analytics.adviceAfter', { typical: Math.round(ahead * summary.p50), slow: Math.round(ahead * summary.p90) })}
+    </div>
+  );
+}
+
+export default function AnalyticsDashboard({ route, defaultHospital }: { route: AnalyticsRoute; defaultHospital: string }) {
+  const locale = useLocale();
+  const [weeks, setWeeks] = useState(8);
+  const [data, setData] = useState<Analytics | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [loading, setLoading] = useState(true);
+
+  useEffect(() => {
+    const base = `/api/${encodeURIComponent(route.hospital ?? defaultHospital)}`;
+    setLoading(true);
+    fetchJson<Analytics>(`${base}/analytics/${route.kind}/${encodeURIComponent(route.code)}?from=${fromDate(weeks)}`)
+      .then(result => {
+        setData(result);
+        setError(null);
+      })
+      .catch(err => {
+        setData(null);
+        setError(describeApiError(err));
+      })
+      .finally(() => setLoading(false));
+  }, [route.hospital, route.kind, route.code, weeks, defaultHospital]);
+
+  const title = data ? (isClinic(data) ? data.ClinicName || data.ClinicCode : data.DoctorName) : route.code;
+  const exportLink = (format: 'csv' | 'json') =>
+    timelineExportUrl({ hospitalId: route.hospital ?? defaultHospital, kind: route.kind, code: route.code, from: fromDate(weeks), format });
+  const doctorLink = (empNo: string) => formatAnalyticsRoute({ hospital: route.hospital, kind: 'doctor', code: empNo }, defaultHospital);
+
+  return (
+    <div className="min-h-screen bg-[#F5F5F4] text-[#141414] font-sans selection:bg-emerald-100">
+      <header className="bg-white border-b border-black/5 sticky top-0 z-10">
+        <div className="max-w-5xl mx-auto px-4 py-3 flex items-center gap-3">
+          <a href="/" className="p-2 rounded-xl hover:bg-black/5 text-black/40" title={t('analytics.back')}>
+            <ArrowLeft size={18} />
+          </a>
+          <BarChart3 size={18} className="text-emerald-600" />
+          <div className="min-w-0 flex-1">
+            <div className="text-[10px] font-bold text-black/30 uppercase tracking-widest">
+              {route.kind === 'doctor' ? t('analytics.doctorTitle') : t('analytics.clinicTitle')}
+            </div>
+            <h1 className="text-lg font-bold truncate">{title}</h1>
+          </div>
+          <select
+            value={weeks}
+            onChange={(e) => setWeeks(Number(e.target.value))}
+            className="px-3 py-2 rounded-xl bg-black/5 text-sm font-bold"
+          >
+            {RANGES.map(n => <option key={n} value={n}>{t('analytics.weeks', { weeks: n })}</option>)}
+          </select>
+          <div className="hidden sm:flex items-center gap-1 px-3 py-2 rounded-xl bg-black/5 text-sm text-black/50" title={t('export.timeline')}>
+            <Download size={14} />
+            {(['csv', 'json'] as const).map(format => (
+              <a key={format} href={exportLink(format)} download className="font-bold uppercase hover:text-emerald-600 transition-colors">
+                {format}
+              </a>
+            ))}
+          </div>
+          <select
+            value={locale}
+            onChange={(e) => setLocale(e.target.value as Locale)}
+            title={t('app.language')}
+            className="px-3 py-2 rounded-xl bg-black/5 text-sm font-bold"
+          >
+            {LOCALES.map(code => <option key={code} value={code}>{LOCALE_NAMES[code]}</option>)}
+          </select>
+        </div>
+      </header>
+
+      <main className="max-w-5xl mx-auto px-4 py-6 space-y-4">
+        {loading && !data && <p className="text-sm text-black/40">{t('common.loading')}</p>}
+        {error && <p className="text-sm text-red-500">{error}</p>}
+        {data && (
+          <>
+            <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+              <StatCard label={t('analytics.perPatient')} summary={data.minutesPerPatient} note={t('analytics.patients')} />
+              <StatCard label={t('analytics.startDelay')} summary={data.startDelayMinutes} note={t('analytics.sessions')} />
+            </div>
+
+            <ArrivalAdvice summary={data.minutesPerPatient} />
+
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+              <BucketChart title={t('analytics.byHour')} buckets={data.byHourOfShift} label={hour => t('analytics.hour', { hour: hour + 1 })} />
+              <BucketChart title={t('analytics.byDay')} buckets={data.byDayOfWeek} label={weekday} />
+            </div>
+
+            <PercentileTable
+              rows={[
+                { label: t('analytics.overall'), summary: data.minutesPerPatient },
+                ...data.byHourOfShift.map(b => ({ label: t('analytics.hourOfShift', { hour: b.bucket + 1 }), summary: b })),
+                ...data.byDayOfWeek.map(b => ({ label: weekday(b.bucket), summary: b }))
+              ]}
+            />
+
+            {isClinic(data) && data.doctors.length > 0 && (
+              <div className="bg-white rounded-2xl border border-black/5 shadow-sm p-4">
+                <h3 className="text-[10px] sm:text-xs font-bold text-black/40 uppercase tracking-widest mb-3">{t('analytics.doctors')}</h3>
+                <div className="flex flex-wrap gap-2">
+                  {data.doctors.map(doctor => (
+                    <a
+                      key={doctor.DoctorEmpNo}
+                      href={doctorLink(doctor.DoctorEmpNo)}
+                      className="flex items-center gap-1 px-3 py-1.5 rounded-full bg-black/5 hover:bg-emerald-50 text-sm font-medium"
+                    >
+                      <User size={12} /> {doctor.DoctorName}
+                      <span className="text-[10px] text-black/30">{t('analytics.doctorSessions', { count: doctor.sessions })}</span>
+                    </a>
+                  ))}
+                </div>
+              </div>
+            )}
+
+            <div className="bg-white rounded-2xl border border-black/5 shadow-sm overflow-x-auto">
+              <div className="p-4 border-b border-black/5 bg-black/[0.02] flex items-center gap-2">
+                <Clock size={14} className="text-emerald-600" />
+                <h3 className="text-[10px] sm:text-xs font-bold text-black/40 uppercase tracking-widest">{t('analytics.recentSessions')}</h3>
+              </div>
+              <table className="w-full text-sm tabular-nums">
+                <thead className="text-[10px] font-bold text-black/40 uppercase tracking-widest">
+                  <tr>
+                    <th className="text-left px-4 py-2">{t('analytics.date')}</th>
+                    <th className="text-left px-4 py-2">{t('analytics.shift')}</th>
+                    <th className="text-left px-4 py-2">{route.kind === 'doctor' ? t('analytics.clinic') : t('analytics.doctor')}</th>
+                    <th className="text-right px-4 py-2">{t('analytics.startDelayShort')}</th>
+                    <th className="text-right px-4 py-2">{t('analytics.numbersCalled')}</th>
+                    <th className="text-right px-4 py-2">{t('analytics.perPatientShort')}</th>
+                  </tr>
+                </thead>
+                <tbody className="divide-y divide-black/5">
+                  {data.sessions.map(session => (
+                    <tr key={`${session.VisitDate}-${session.ClinicCode}-${session.ShiftCode}-${session.DoctorEmpNo}`}>
+                      <td className="px-4 py-2">{session.VisitDate}</td>
+                      <td className="px-4 py-2">{session.ShiftName}</td>
+                      <td className="px-4 py-2">
+                        {route.kind === 'doctor' ? (
+                          <a href={formatAnalyticsRoute({ hospital: route.hospital, kind: 'clinic', code: session.ClinicCode }, defaultHospital)} className="hover:text-emerald-600 hover:underline">
+                            {session.ClinicName}
+                          </a>
+                        ) : session.DoctorName}
+                      </td>
+                      <td className="px-4 py-2 text-right">{minutes(session.startDelayMinutes)}</td>
+                      <td className="px-4 py-2 text-right">{session.numbersCalled}</td>
+                      <td className="px-4 py-2 text-right">{minutes(session.minutesPerPatient)}</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          </>
+        )}
+      </main>
+    </div>
+  );
+}
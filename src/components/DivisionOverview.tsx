@@ -0,0 +1,150 @@
+import { useEffect, useState } from 'react';
+import { AlertCircle, ArrowLeft, History, LayoutGrid, Pin } from 'lucide-react';
+import { BatchProgressResponse, ClinicProgress } from '../types';
+import { describeApiError, fetchClientSettings, fetchJson, fromEnvelope, isDivisionError } from '../lib/api';
+import { clinicStatusLabel, progressKey } from '../lib/progress';
+import { formatTime } from '../lib/i18n';
+import { t, useLocale } from '../lib/locale';
+import { OverviewRoute, formatRoute } from '../lib/route';
+import { isPinnedDoctor, loadFavorites, pinnedFirst } from '../lib/favorites';
+
+// Until `/api/config` says otherwise
+const DEFAULT_REFRESH_SECONDS = 5;
+
+export default function DivisionOverview({ route, defaultHospital }: { route: OverviewRoute; defaultHospital: string }) {
+  const locale = useLocale();
+  const hospitalId = route.hospital ?? defaultHospital;
+  const base = `/api/${encodeURIComponent(hospitalId)}`;
+  const codesKey = route.divisionCodes.join(',');
+  const [data, setData] = useState<BatchProgressResponse | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [updatedAt, setUpdatedAt] = useState<Date | null>(null);
+  const [favorites] = useState(loadFavorites);
+
+  // One request for every division, repeated at the server's default refresh interval
+  useEffect(() => {
+    if (!codesKey) return;
+    let cancelled = false;
+    let timer: ReturnType<typeof setTimeout> | null = null;
+    let intervalMs = DEFAULT_REFRESH_SECONDS * 1000;
+
+    const load = async () => {
+      try {
+        const result = await fetchJson<BatchProgressResponse>(`${base}/progress?divisions=${encodeURIComponent(codesKey)}`);
+        if (cancelled) return;
+        setData(result);
+        setError(null);
+        setUpdatedAt(new Date());
+      } catch (err) {
+        if (!cancelled) setError(describeApiError(err));
+      }
+      if (!cancelled) timer = setTimeout(load, intervalMs);
+    };
+
+    fetchClientSettings().then(settings => {
+      if (settings) intervalMs = settings.defaultRefreshInterval * 1000;
+      if (!cancelled) load();
+    });
+    return () => {
+      cancelled = true;
+      if (timer) clearTimeout(timer);
+    };
+  }, [base, codesKey]);
+
+  if (route.divisionCodes.length === 0) {
+    return (
+      <div className="min-h-screen bg-[#F5F5F4] text-[#141414] flex items-center justify-center p-8 font-sans">
+        <div className="max-w-xl space-y-3 text-center">
+          <h1 className="text-3xl font-bold">{t('overview.title')}</h1>
+          <p className="text-black/50">{t('overview.setupHint')}</p>
+          <code className="block bg-black/5 rounded-xl px-4 py-3 text-emerald-700">/overview?divisions=0110,0120</code>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="min-h-screen bg-[#F5F5F4] text-[#141414] font-sans selection:bg-emerald-100">
+      <header className="bg-white border-b border-black/5 sticky top-0 z-10">
+        <div className="max-w-7xl mx-auto px-4 py-3 flex items-center gap-3">
+          <a href="/" className="p-2 rounded-xl hover:bg-black/5 text-black/40" title={t('overview.back')}>
+            <ArrowLeft size={18} />
+          </a>
+          <LayoutGrid size={18} className="text-emerald-600" />
+          <h1 className="text-lg font-bold flex-1 truncate">{t('overview.title')}</h1>
+          {error && (
+            <span className="flex items-center gap-1 text-xs text-red-500 font-medium">
+              <AlertCircle size={12} />
+              {error}
+            </span>
+          )}
+          <span className="text-xs text-black/40 tabular-nums">
+            {t('progress.updated', { time: updatedAt ? formatTime(locale, updatedAt, true) : '--:--:--' })}
+          </span>
+        </div>
+      </header>
+
+      <main className="max-w-7xl mx-auto px-4 py-6 grid grid-cols-1 md:grid-cols-2 xl:grid-cols-3 gap-4 items-start">
+        {route.divisionCodes.map(code => {
+          const result = data?.divisions[code];
+          const rows = result && !isDivisionError(result) ? pinnedFirst<ClinicProgress>(favorites, hospitalId, result.rows) : [];
+          return (
+            <section key={code} className="bg-white rounded-2xl border border-black/5 shadow-sm overflow-hidden">
+              <a
+                href={formatRoute({ hospital: hospitalId, divisionCode: code }, defaultHospital)}
+                className="flex items-center justify-between gap-2 px-4 py-3 border-b border-black/5 bg-black/[0.02] hover:bg-emerald-50 transition-colors"
+              >
+                <h2 className="font-bold truncate">{rows[0]?.DivisionName || code}</h2>
+                <span className="shrink-0 text-[10px] font-bold text-black/30 uppercase tracking-widest">
+                  {t('overview.clinics', { count: rows.length })}
+                </span>
+              </a>
+              {!result && <p className="px-4 py-3 text-sm text-black/40">{t('common.loading')}</p>}
+              {result && isDivisionError(result) && (
+                <p className="px-4 py-3 text-sm text-red-500 flex items-center gap-1">
+                  <AlertCircle size={14} className="shrink-0" />
+                  {describeApiError(fromEnvelope(result, 0))}
+                </p>
+              )}
+              {result && !isDivisionError(result) && result.stale && (
+                <p className="px-4 py-1 bg-amber-50 text-amber-700 text-[10px] font-bold flex items-center gap-1">
+                  <History size={10} />
+                  {t('progress.stale', { seconds: result.ageSeconds })}
+                </p>
+              )}
+              {result && !isDivisionError(result) && rows.length === 0 && (
+                <p className="px-4 py-3 text-sm text-black/40">{t('overview.empty')}</p>
+              )}
+              <div className="divide-y divide-black/5">
+                {rows.map(item => {
+                  const isPinned = isPinnedDoctor(favorites, hospitalId, item.DoctorEmpNo);
+                  const status = clinicStatusLabel(item, locale);
+                  return (
+                    <div key={progressKey(item)} className={`flex items-center gap-3 px-4 py-2 ${isPinned ? 'bg-amber-50/60' : ''}`}>
+                      <div className="flex-1 min-w-0">
+                        <div className="text-[10px] font-bold text-black/30 uppercase tracking-tighter truncate">
+                          {item.ClinicName} • {item.ShiftName}
+                        </div>
+                        <div className="flex items-center gap-1 text-sm font-bold truncate">
+                          {isPinned && <Pin size={12} className="shrink-0 text-amber-500 fill-current" />}
+                          {item.DoctorName}
+                        </div>
+                        {status && <div className="text-[10px] font-bold text-amber-600">{status}</div>}
+                      </div>
+                      <div className="text-right tabular-nums shrink-0">
+                        <div className="text-2xl font-black leading-none">{item.CurrentVisitSeq || '--'}</div>
+                        <div className="text-[10px] font-bold text-black/30">
+                          {t('clinic.next')} {item.NextVisitSeq || '--'}
+                        </div>
+                      </div>
+                    </div>
+                  );
+                })}
+              </div>
+            </section>
+          );
+        })}
+      </main>
+    </div>
+  );
+}
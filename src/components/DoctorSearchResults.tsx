@@ -0,0 +1,39 @@
+import { Stethoscope, ChevronRight } from 'lucide-react';
+import { DoctorSearchResult } from '../types';
+import { t } from '../lib/locale';
+
+interface DoctorSearchResultsProps {
+  results: DoctorSearchResult[];
+  onSelect: (result: DoctorSearchResult) => void;
+}
+
+export default function DoctorSearchResults({ results, onSelect }: DoctorSearchResultsProps) {
+  if (results.length === 0) return null;
+
+  return (
+    <div className="bg-white rounded-2xl sm:rounded-3xl border border-black/5 shadow-sm overflow-hidden">
+      <div className="p-3 sm:p-4 border-b border-black/5 bg-black/[0.02] flex items-center gap-2">
+        <Stethoscope size={14} className="text-emerald-600" />
+        <h2 className="text-[10px] sm:text-xs font-bold text-black/40 uppercase tracking-widest">{t('search.results')}</h2>
+        <span className="text-[10px] font-bold text-emerald-600 bg-emerald-50 px-2 py-0.5 rounded-full">{results.length}</span>
+      </div>
+      <div className="max-h-[240px] overflow-y-auto custom-scrollbar divide-y divide-black/5">
+        {results.map(result => (
+          <button
+            key={`${result.DivisionCode}-${result.ClinicCode}-${result.ShiftCode}-${result.DoctorEmpNo}`}
+            onClick={() => onSelect(result)}
+            className="w-full flex items-center gap-3 px-4 py-3 text-left hover:bg-emerald-50/40 transition-colors group"
+          >
+            <div className="flex-1 min-w-0">
+              <div className="text-sm font-bold truncate">{result.DoctorName || t('search.noDoctor')}</div>
+              <div className="text-[10px] font-bold text-black/30 uppercase tracking-tighter truncate">
+                {result.DivisionName} • {result.ClinicName} • {result.ShiftName}
+              </div>
+            </div>
+            <ChevronRight size={16} className="shrink-0 text-black/10 group-hover:text-emerald-300" />
+          </button>
+        ))}
+      </div>
+    </div>
+  );
+}
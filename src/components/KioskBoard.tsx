@@ -0,0 +1,191 @@
+import { useEffect, useRef, useState } from 'react';
+import { BatchProgressResponse, ClinicProgress } from '../types';
+import { fetchClientSettings, fetchJson, isDivisionError } from '../lib/api';
+import { clinicStatusLabel, progressKey } from '../lib/progress';
+import { formatTime } from '../lib/i18n';
+import { t, useLocale } from '../lib/locale';
+import { KioskRoute } from '../lib/route';
+import { canSpeak, playChime, speak } from '../lib/sound';
+
+// Until `/api/config` says otherwise
+const DEFAULT_REFRESH_SECONDS = 5;
+// How long a card stays highlighted after its number changes
+const HIGHLIGHT_MS = 8000;
+const CHIME_LEAD_MS = 900;
+
+// Always spoken in Mandarin, like the hospital's own calls, whatever the display language
+const announcement = (item: ClinicProgress) => `請 ${item.CurrentVisitSeq} 號，到 ${item.ClinicName} 看診`;
+
+/**
+ * Keeps every division's progress current with one batch `/progress` request per refresh,
+ * rather than a stream per division that would use up the browser's connections to the server.
+ * A division that fails keeps its last rows until the next refresh.
+ */
+function useDivisionRows(base: string, divisionCodes: string[], onRows: (divisionCode: string, rows: ClinicProgress[]) => void) {
+  const onRowsRef = useRef(onRows);
+  onRowsRef.current = onRows;
+  const codesKey = divisionCodes.join(',');
+
+  useEffect(() => {
+    if (!codesKey) return;
+    let cancelled = false;
+    let timer: ReturnType<typeof setTimeout> | null = null;
+    let intervalMs = DEFAULT_REFRESH_SECONDS * 1000;
+
+    const load = async () => {
+      try {
+        const result = await fetchJson<BatchProgressResponse>(`${base}/progress?divisions=${encodeURIComponent(codesKey)}`);
+        if (cancelled) return;
+        Object.entries(result.divisions).forEach(([divisionCode, entry]) => {
+          if (isDivisionError(entry)) console.error(divisionCode, entry.error);
+          else onRowsRef.current(divisionCode, entry.rows);
+        });
+      } catch (err) {
+        console.error(err);
+      }
+      if (!cancelled) timer = setTimeout(load, intervalMs);
+    };
+
+    // Calls are announced, so the board refreshes as often as the server lets clients
+    fetchClientSettings().then(settings => {
+      if (settings) intervalMs = Math.min(...settings.refreshIntervals) * 1000;
+      if (!cancelled) load();
+    });
+    return () => {
+      cancelled = true;
+      if (timer) clearTimeout(timer);
+    };
+  }, [base, codesKey]);
+}
+
+export default function KioskBoard({ route, defaultHospital }: { route: KioskRoute; defaultHospital: string }) {
+  const locale = useLocale();
+  const base = `/api/${encodeURIComponent(route.hospital ?? defaultHospital)}`;
+  const [rowsByDivision, setRowsByDivision] = useState<Record<string, ClinicProgress[]>>({});
+  const [page, setPage] = useState(0);
+  const [started, setStarted] = useState(false);
+  const [clock, setClock] = useState(() => new Date());
+  const [highlighted, setHighlighted] = useState<Record<string, number>>({});
+  const lastSeqRef = useRef<Map<string, string>>(new Map());
+  const startedRef = useRef(started);
+  startedRef.current = started;
+
+  const rows = route.divisionCodes.flatMap(code => rowsByDivision[code] ?? []);
+  const pageCount = Math.max(1, Math.ceil(rows.length / route.perPage));
+  const visible = rows.slice((page % pageCount) * route.perPage, (page % pageCount + 1) * route.perPage);
+  const divisionNames = [...new Set(rows.map(item => item.DivisionName).filter(Boolean))];
+
+  const announce = (item: ClinicProgress) => {
+    if (route.chime) playChime();
+    if (route.speak && canSpeak()) setTimeout(() => speak(announcement(item)), route.chime ? CHIME_LEAD_MS : 0);
+  };
+
+  // Announce every number that moved forward since the last reading; the first reading only sets the baseline
+  const handleRows = (divisionCode: string, next: ClinicProgress[]) => {
+    const changed: ClinicProgress[] = [];
+    next.forEach(item => {
+      const key = `${divisionCode}:${progressKey(item)}`;
+      const previous = lastSeqRef.current.get(key);
+      lastSeqRef.current.set(key, item.CurrentVisitSeq);
+      if (previous !== undefined && parseInt(item.CurrentVisitSeq) > parseInt(previous)) changed.push(item);
+    });
+    setRowsByDivision(prev => ({ ...prev, [divisionCode]: next }));
+    if (changed.length === 0) return;
+    const now = Date.now();
+    setHighlighted(prev => ({ ...prev, ...Object.fromEntries(changed.map(item => [`${divisionCode}:${progressKey(item)}`, now])) }));
+    if (startedRef.current) changed.forEach(announce);
+  };
+  useDivisionRows(base, route.divisionCodes, handleRows);
+
+  useEffect(() => {
+    if (pageCount <= 1) return;
+    const timer = setInterval(() => setPage(p => (p + 1) % pageCount), route.rotateSeconds * 1000);
+    return () => clearInterval(timer);
+  }, [pageCount, route.rotateSeconds]);
+
+  useEffect(() => {
+    const timer = setInterval(() => setClock(new Date()), 1000);
+    return () => clearInterval(timer);
+  }, []);
+
+  // Audio and speech need a gesture; the same click puts the page in full screen
+  const start = () => {
+    setStarted(true);
+    document.documentElement.requestFullscreen?.().catch(() => {});
+    if (route.chime) playChime();
+    if (route.speak) speak('叫號看板已啟動');
+  };
+
+  if (route.divisionCodes.length === 0) {
+    return (
+      <div className="min-h-screen bg-[#141414] text-white flex items-center justify-center p-8 font-sans">
+        <div className="max-w-xl space-y-3 text-center">
+          <h1 className="text-3xl font-bold">{t('kiosk.title')}</h1>
+          <p className="text-white/60">{t('kiosk.setupHint')}</p>
+          <code className="block bg-white/10 rounded-xl px-4 py-3 text-emerald-300">/kiosk?divisions=0110,0120</code>
+          <p className="text-white/40 text-sm">{t('kiosk.options')}</p>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className={`min-h-screen bg-[#141414] text-white font-sans flex flex-col ${started ? 'cursor-none' : ''}`}>
+      <header className="flex items-center justify-between px-8 py-5 border-b border-white/10">
+        <h1 className="text-3xl lg:text-4xl font-bold truncate">{divisionNames.join('・') || t('kiosk.fallbackTitle')}</h1>
+        <div className="text-3xl lg:text-4xl font-black tabular-nums text-white/70">
+          {formatTime(locale, clock)}
+        </div>
+      </header>
+
+      <main className="flex-1 grid grid-cols-2 xl:grid-cols-4 auto-rows-fr gap-5 p-8">
+        {visible.map(item => {
+          const key = `${item.DivisionCode}:${progressKey(item)}`;
+          const isHighlighted = Date.now() - (highlighted[key] ?? 0) < HIGHLIGHT_MS;
+          const status = clinicStatusLabel(item, locale);
+          return (
+            <div
+              key={key}
+              className={`rounded-3xl p-6 flex flex-col justify-between transition-colors duration-700 ${
+                isHighlighted ? 'bg-emerald-600' : 'bg-white/[0.06]'
+              }`}
+            >
+              <div>
+                <div className="text-2xl lg:text-3xl font-bold truncate">{item.ClinicName}</div>
+                <div className="text-xl text-white/60 truncate">{t('kiosk.doctor', { name: item.DoctorName })} · {item.ShiftName}</div>
+              </div>
+              <div className="text-[7rem] lg:text-[9rem] leading-none font-black tabular-nums">
+                {item.CurrentVisitSeq || '--'}
+              </div>
+              <div className="flex items-end justify-between text-2xl text-white/60">
+                {status ? (
+                  <span className="text-amber-300 font-bold">{status}</span>
+                ) : (
+                  <span>{t('kiosk.next')} <b className="text-white text-4xl tabular-nums">{item.NextVisitSeq || '--'}</b></span>
+                )}
+                {item.PassedSeqCount > 0 && <span className="text-lg">{t('kiosk.passed', { count: item.PassedSeqCount })}</span>}
+              </div>
+            </div>
+          );
+        })}
+      </main>
+
+      {pageCount > 1 && (
+        <footer className="flex justify-center gap-3 pb-6">
+          {Array.from({ length: pageCount }, (_, i) => (
+            <span key={i} className={`w-3 h-3 rounded-full ${i === page % pageCount ? 'bg-white' : 'bg-white/20'}`} />
+          ))}
+        </footer>
+      )}
+
+      {!started && (
+        <button onClick={start} className="fixed inset-0 bg-black/70 flex flex-col items-center justify-center gap-3 text-white">
+          <span className="text-4xl font-bold">{t('kiosk.start')}</span>
+          <span className="text-xl text-white/60">
+            {route.speak || route.chime ? t('kiosk.startAudio') : t('kiosk.startFullscreen')}
+          </span>
+        </button>
+      )}
+    </div>
+  );
+}
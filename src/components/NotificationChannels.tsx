@@ -0,0 +1,88 @@
+import { useState } from 'react';
+import { Mail, Webhook } from 'lucide-react';
+import { NotificationChannel } from '../types';
+import { t } from '../lib/locale';
+
+interface NotificationChannelsProps {
+  available: NotificationChannel['type'][];
+  channels: NotificationChannel[];
+  onChange: (channels: NotificationChannel[]) => void;
+}
+
+/** Email / webhook destinations added to every ticket's background watch. */
+export default function NotificationChannels({ available, channels, onChange }: NotificationChannelsProps) {
+  const current = {
+    email: channels.find(c => c.type === 'email')?.to ?? '',
+    webhookUrl: channels.find(c => c.type === 'webhook')?.url ?? '',
+    webhookSecret: channels.find(c => c.type === 'webhook')?.secret ?? ''
+  };
+  const [draft, setDraft] = useState(current);
+  const canEmail = available.includes('email');
+  const canWebhook = available.includes('webhook');
+  if (!canEmail && !canWebhook) return null;
+
+  const dirty = draft.email !== current.email || draft.webhookUrl !== current.webhookUrl || draft.webhookSecret !== current.webhookSecret;
+
+  const save = () => {
+    const next: NotificationChannel[] = [];
+    if (canEmail && draft.email.trim()) next.push({ type: 'email', to: draft.email.trim() });
+    if (canWebhook && draft.webhookUrl.trim()) {
+      next.push({ type: 'webhook', url: draft.webhookUrl.trim(), ...(draft.webhookSecret ? { secret: draft.webhookSecret } : {}) });
+    }
+    onChange(next);
+  };
+
+  const inputClass = 'w-full px-3 py-2 bg-black/[0.02] rounded-xl border border-black/5 text-xs outline-none focus:border-emerald-500';
+
+  return (
+    <div className="bg-white rounded-2xl sm:rounded-3xl border border-black/5 shadow-sm overflow-hidden">
+      <div className="p-3 sm:p-4 border-b border-black/5 bg-black/[0.02]">
+        <h2 className="text-[10px] sm:text-xs font-bold text-black/40 uppercase tracking-widest">{t('channels.title')}</h2>
+      </div>
+      <div className="p-4 space-y-3">
+        {canEmail && (
+          <label className="flex items-center gap-2">
+            <Mail size={14} className="shrink-0 text-emerald-600" />
+            <input
+              type="email"
+              placeholder={t('channels.emailPlaceholder')}
+              value={draft.email}
+              onChange={(e) => setDraft({ ...draft, email: e.target.value })}
+              className={inputClass}
+            />
+          </label>
+        )}
+        {canWebhook && (
+          <>
+            <label className="flex items-center gap-2">
+              <Webhook size={14} className="shrink-0 text-emerald-600" />
+              <input
+                type="url"
+                placeholder="Webhook URL"
+                value={draft.webhookUrl}
+                onChange={(e) => setDraft({ ...draft, webhookUrl: e.target.value })}
+                className={inputClass}
+              />
+            </label>
+            {draft.webhookUrl && (
+              <input
+                type="text"
+                placeholder={t('channels.webhookSecretPlaceholder')}
+                value={draft.webhookSecret}
+                onChange={(e) => setDraft({ ...draft, webhookSecret: e.target.value })}
+                className={`${inputClass} ml-[22px] w-[calc(100%-22px)]`}
+              />
+            )}
+          </>
+        )}
+        <button
+          onClick={save}
+          disabled={!dirty}
+          className="w-full py-2 rounded-xl text-xs font-bold transition-all bg-emerald-600 text-white disabled:bg-black/5 disabled:text-black/30"
+        >
+          {dirty ? t('channels.apply') : channels.length > 0 ? t('channels.applied') : t('channels.none')}
+        </button>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,132 @@
+import { X, Ticket as TicketIcon, Timer, CalendarPlus, CalendarArrowDown } from 'lucide-react';
+import { ClinicProgress } from '../types';
+import { EtaEstimate } from '../lib/eta';
+import { formatTime, MessageKey } from '../lib/i18n';
+import { t, useLocale } from '../lib/locale';
+import { CalendarTarget, calendarSubscribeUrl, calendarUrl } from '../lib/exports';
+import { Ticket, TicketStatus, findTicketRow, ticketDistance, ticketSource, ticketStatus } from '../lib/tickets';
+
+const STATUS_LABELS: Record<TicketStatus, MessageKey> = {
+  waiting: 'tickets.status.waiting',
+  soon: 'tickets.status.soon',
+  called: 'tickets.status.called',
+  passed: 'tickets.status.passed',
+  paused: 'tickets.status.paused',
+  ended: 'tickets.status.ended',
+  unknown: 'tickets.status.unknown'
+};
+
+const STATUS_CLASSES: Record<TicketStatus, string> = {
+  waiting: 'bg-emerald-50 text-emerald-600',
+  soon: 'bg-orange-50 text-orange-600',
+  called: 'bg-red-50 text-red-600',
+  passed: 'bg-black/5 text-black/30',
+  paused: 'bg-black/5 text-black/40',
+  ended: 'bg-black/5 text-black/30',
+  unknown: 'bg-black/5 text-black/30'
+};
+
+interface TicketSummaryProps {
+  tickets: Ticket[];
+  ticketProgress: Record<string, ClinicProgress[]>;
+  getEta: (ticket: Ticket, item: ClinicProgress) => EtaEstimate | null;
+  onSelect: (ticket: Ticket) => void;
+  onRemove: (id: string) => void;
+  onChangeNotifyBefore: (id: string, notifyBefore: number) => void;
+}
+
+export default function TicketSummary({ tickets, ticketProgress, getEta, onSelect, onRemove, onChangeNotifyBefore }: TicketSummaryProps) {
+  const locale = useLocale();
+  if (tickets.length === 0) return null;
+
+  return (
+    <div className="bg-white rounded-2xl sm:rounded-3xl border border-black/5 shadow-sm overflow-hidden">
+      <div className="p-3 sm:p-4 border-b border-black/5 bg-black/[0.02] flex items-center gap-2">
+        <TicketIcon size={14} className="text-emerald-600" />
+        <h2 className="text-[10px] sm:text-xs font-bold text-black/40 uppercase tracking-widest">{t('tickets.title')}</h2>
+        <span className="text-[10px] font-bold text-emerald-600 bg-emerald-50 px-2 py-0.5 rounded-full">{tickets.length}</span>
+      </div>
+      <div className="divide-y divide-black/5">
+        {tickets.map(ticket => {
+          const item = findTicketRow(ticket, ticketProgress[ticketSource(ticket)]);
+          const distance = ticketDistance(ticket, item);
+          const status = ticketStatus(ticket, item);
+          const eta = item ? getEta(ticket, item) : null;
+          const calendar: CalendarTarget = {
+            hospitalId: ticket.hospitalId,
+            divisionCode: ticket.divisionCode,
+            clinicCode: ticket.clinicCode,
+            shiftCode: ticket.shiftCode,
+            number: ticket.number,
+            visitDate: item?.VisitDate,
+            locale
+          };
+          return (
+            <div key={ticket.id} className="flex items-center gap-3 px-4 py-3 hover:bg-emerald-50/40 transition-colors">
+              <button onClick={() => onSelect(ticket)} className="flex-1 min-w-0 text-left">
+                <div className="text-[10px] font-bold text-black/30 uppercase tracking-tighter truncate">
+                  {ticket.divisionName} • {ticket.clinicName} • {ticket.shiftName}
+                </div>
+                <div className="flex items-center gap-2 text-sm font-bold">
+                  <span className="truncate">{ticket.doctorName}</span>
+                  <span className={`shrink-0 px-2 py-0.5 rounded-full text-[9px] font-bold uppercase tracking-widest ${STATUS_CLASSES[status]}`}>
+                    {t(STATUS_LABELS[status])}
+                  </span>
+                </div>
+                {eta && (
+                  <div className="flex items-center gap-1 text-[10px] font-medium text-emerald-700 tabular-nums">
+                    <Timer size={10} />
+                    {t('tickets.expected', { time: formatTime(locale, eta.expectedAt) })}
+                  </div>
+                )}
+              </button>
+              <div className="text-right shrink-0 tabular-nums">
+                <div className="text-lg font-black leading-none">
+                  {item?.CurrentVisitSeq ?? '--'}
+                  <span className="text-black/20 font-bold text-sm"> / {ticket.number}</span>
+                </div>
+                <div className="text-[9px] font-bold text-black/30 uppercase tracking-widest">
+                  {distance !== null && distance > 0 ? t('tickets.remaining', { count: distance }) : t('tickets.currentMine')}
+                </div>
+              </div>
+              <div className="shrink-0 flex flex-col gap-0.5">
+                <a
+                  href={calendarSubscribeUrl(calendar)}
+                  className="p-1 rounded-lg text-black/20 hover:text-emerald-600 hover:bg-emerald-50 transition-colors"
+                  title={t('calendar.subscribe')}
+                >
+                  <CalendarPlus size={14} />
+                </a>
+                <a
+                  href={calendarUrl(calendar)}
+                  download
+                  className="p-1 rounded-lg text-black/20 hover:text-emerald-600 hover:bg-emerald-50 transition-colors"
+                  title={t('calendar.download')}
+                >
+                  <CalendarArrowDown size={14} />
+                </a>
+              </div>
+              <select
+                value={ticket.notifyBefore}
+                onChange={(e) => onChangeNotifyBefore(ticket.id, Number(e.target.value))}
+                title={t('form.notifyBefore')}
+                className="shrink-0 bg-black/5 rounded-md px-1 py-0.5 text-[10px] font-bold outline-none cursor-pointer"
+              >
+                {[1, 3, 5, 10, 15].map(n => (
+                  <option key={n} value={n}>{n}</option>
+                ))}
+              </select>
+              <button
+                onClick={() => onRemove(ticket.id)}
+                className="shrink-0 p-1 rounded-lg text-black/20 hover:text-red-500 hover:bg-red-50 transition-colors"
+                title={t('common.remove')}
+              >
+                <X size={14} />
+              </button>
+            </div>
+          );
+        })}
+      </div>
+    </div>
+  );
+}
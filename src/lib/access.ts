@@ -0,0 +1,23 @@
+/**
+ * Deployments with API_KEYS hand out links like `/?key=...`. The key is moved
+ * into a cookie so every fetch and EventSource sends it, and taken out of the
+ * address bar so it does not end up in bookmarks or shared links.
+ */
+
+const COOKIE = 'easecheck_key';
+
+export function captureAccessKey() {
+  const url = new URL(window.location.href);
+  const key = url.searchParams.get('key');
+  if (!key) return;
+  const secure = window.location.protocol === 'https:' ? '; Secure' : '';
+  document.cookie = `${COOKIE}=${encodeURIComponent(key)}; path=/; max-age=${365 * 24 * 60 * 60}; SameSite=Strict${secure}`;
+  url.searchParams.delete('key');
+  window.history.replaceState(null, '', url.pathname + url.search + url.hash);
+}
+
+/** The key captured from the link, for URLs opened outside the browser such as calendar subscriptions. */
+export function accessKey() {
+  const match = document.cookie.split('; ').find(part => part.startsWith(`${COOKIE}=`));
+  return match ? decodeURIComponent(match.slice(COOKIE.length + 1)) : null;
+}
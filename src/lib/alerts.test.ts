@@ -0,0 +1,179 @@
+import { describe, expect, it } from 'vitest';
+import { ClinicProgress } from '../types';
+import { Alert, AlertOptions, evaluateAlerts, shiftEnd } from './alerts';
+
+const ticket = { id: 't1', clinicCode: '101', shiftCode: '1', number: 10, notifyBefore: 3 };
+
+function row(overrides: Partial<ClinicProgress> = {}): ClinicProgress {
+  return {
+    VisitDate: '2026-10-19',
+    ShiftCode: '1',
+    ShiftName: '上午診',
+    DivisionCode: '0110',
+    DivisionName: '家醫科',
+    ClinicCode: '101',
+    ClinicName: '家醫科一診',
+    DoctorEmpNo: 'D001',
+    DoctorName: '王醫師',
+    ClinicVisitState: '1',
+    ShiftBeginTimeStamp: '2026-10-19T08:30:00',
+    ShiftEndTimeStamp: '',
+    PassedSeqCount: 0,
+    CurrentVisitSeq: '1',
+    CurrentVisitSeqCode: '',
+    CurrentVisitSeqDesc: '',
+    NextVisitSeq: '2',
+    NextVisitSeqCode: '',
+    NextVisitSeqDesc: '',
+    CallSequenceCode: '',
+    CheckInCount: '0',
+    ...overrides
+  };
+}
+
+const at = (current: number, overrides: Partial<ClinicProgress> = {}) =>
+  row({ CurrentVisitSeq: String(current), NextVisitSeq: String(current + 1), ...overrides });
+
+// 10:00 in Taipei, well before the morning shift closes
+const MORNING = new Date('2026-10-19T02:00:00Z');
+
+/** Feeds readings through the engine the way the app does, keeping the raised keys between them. */
+function run(readings: ClinicProgress[], options: AlertOptions = { now: MORNING }, target = ticket) {
+  const raised = new Set<string>();
+  const alerts: Alert[] = [];
+  readings.forEach((item, index) => {
+    for (const alert of evaluateAlerts(target, readings[index - 1], item, raised, options)) {
+      raised.add(alert.key);
+      alerts.push(alert);
+    }
+  });
+  return alerts;
+}
+
+const types = (alerts: Alert[]) => alerts.map(alert => alert.type);
+
+describe('evaluateAlerts', () => {
+  it('raises nothing without a row or a readable number', () => {
+    expect(evaluateAlerts(ticket, undefined, undefined, new Set())).toEqual([]);
+    expect(evaluateAlerts(ticket, undefined, row({ CurrentVisitSeq: '' }), new Set())).toEqual([]);
+  });
+
+  it('warns once the number is within notifyBefore', () => {
+    const alerts = run([at(5), at(6), at(7), at(8), at(9)]);
+    expect(types(alerts)).toEqual(['approaching']);
+    expect(alerts[0]).toMatchObject({ ticketId: 't1', remaining: 3, key: 't1:approaching:3' });
+  });
+
+  it('does not warn while the clinic is paused', () => {
+    expect(types(run([at(8, { ClinicVisitState: '2' })]))).toEqual(['paused']);
+  });
+
+  it('warns again when the window is widened', () => {
+    const raised = new Set<string>();
+    const first = evaluateAlerts(ticket, undefined, at(8), raised, { now: MORNING });
+    first.forEach(alert => raised.add(alert.key));
+    expect(evaluateAlerts(ticket, at(8), at(8), raised, { now: MORNING })).toEqual([]);
+    const widened = evaluateAlerts({ ...ticket, notifyBefore: 5 }, at(8), at(8), raised, { now: MORNING });
+    expect(types(widened)).toEqual(['approaching']);
+  });
+
+  it('reports the number being called once', () => {
+    const alerts = run([at(9), at(10), at(10), at(10)]);
+    expect(types(alerts)).toEqual(['approaching', 'called']);
+    expect(alerts[1].remaining).toBe(0);
+  });
+
+  it('reports a number passed without being called', () => {
+    const alerts = run([at(9), at(11), at(12)]);
+    expect(types(alerts)).toEqual(['approaching', 'passed']);
+    expect(alerts[1]).toMatchObject({ remaining: -1, skipped: false });
+  });
+
+  it('treats a growing PassedSeqCount as a skipped number', () => {
+    const alerts = run([at(9), at(11, { PassedSeqCount: 1 })]);
+    expect(alerts.find(alert => alert.type === 'passed')).toMatchObject({ skipped: true });
+  });
+
+  it('stays quiet when the clinic simply moves on after calling the number', () => {
+    expect(types(run([at(10), at(11), at(12)]))).toEqual(['called']);
+  });
+
+  it('reports a no-show after the call when PassedSeqCount grows', () => {
+    const alerts = run([at(10), at(11, { PassedSeqCount: 1 })]);
+    expect(types(alerts)).toEqual(['called', 'passed']);
+    expect(alerts[1].skipped).toBe(true);
+  });
+
+  it('reports a number marked 過號 in CurrentVisitSeqDesc as skipped, not called', () => {
+    const alerts = run([at(9), at(10, { CurrentVisitSeqDesc: '過號' })]);
+    expect(types(alerts)).toEqual(['approaching', 'passed']);
+    expect(alerts[1]).toMatchObject({ remaining: 0, skipped: true });
+  });
+
+  it('ignores a ticket that was already behind the clinic', () => {
+    expect(types(run([at(12), at(13, { PassedSeqCount: 1 })]))).toEqual(['passed']);
+  });
+
+  it('reports each pause and resume once per number', () => {
+    const paused = (current: number) => at(current, { ClinicVisitState: '2' });
+    const alerts = run([at(4), paused(4), paused(4), at(4), at(5), paused(5), at(5), paused(5)]);
+    expect(alerts.map(alert => alert.key)).toEqual([
+      't1:paused:4',
+      't1:resumed:4',
+      't1:paused:5',
+      't1:resumed:5'
+    ]);
+  });
+
+  it('does not treat a closed shift as a pause', () => {
+    const ended = at(4, { ClinicVisitState: '0', ShiftEndTimeStamp: '2026-10-19T11:50:00' });
+    expect(run([at(4), ended])).toEqual([]);
+  });
+
+  it('ignores pauses once the number has been called', () => {
+    expect(types(run([at(10), at(10, { ClinicVisitState: '2' })]))).toEqual(['called']);
+  });
+
+  describe('shift ending', () => {
+    const ending = (now: string, item = at(4), shiftEndingMinutes?: number) =>
+      types(run([item], { now: new Date(now), shiftEndingMinutes }));
+
+    it('uses ShiftEndTimeStamp when the row has one', () => {
+      const item = at(4, { ShiftEndTimeStamp: '2026-10-19T11:00:00' });
+      expect(ending('2026-10-19T02:20:00Z', item)).toEqual([]);
+      expect(ending('2026-10-19T02:40:00Z', item)).toEqual(['shift-ending']);
+      expect(ending('2026-10-19T03:10:00Z', item)).toEqual([]);
+    });
+
+    it('falls back to the usual closing time for the ShiftName', () => {
+      expect(ending('2026-10-19T03:20:00Z')).toEqual([]);
+      expect(ending('2026-10-19T03:40:00Z')).toEqual(['shift-ending']);
+      expect(ending('2026-10-19T08:40:00Z', at(4, { ShiftName: '下午診' }))).toEqual(['shift-ending']);
+      expect(ending('2026-10-19T03:40:00Z', at(4, { ShiftName: '特別門診' }))).toEqual([]);
+    });
+
+    it('honours shiftEndingMinutes', () => {
+      expect(ending('2026-10-19T03:00:00Z', at(4), 60)).toEqual(['shift-ending']);
+      expect(ending('2026-10-19T03:40:00Z', at(4), 10)).toEqual([]);
+    });
+
+    it('is raised once per visit date and not once the number is reached', () => {
+      const now = '2026-10-19T03:40:00Z';
+      expect(types(run([at(4), at(5), at(6)], { now: new Date(now) }))).toEqual(['shift-ending']);
+      expect(ending(now, at(10))).toEqual(['called']);
+    });
+  });
+});
+
+describe('shiftEnd', () => {
+  it('reads times in Taipei whatever the local time zone', () => {
+    expect(shiftEnd(row({ ShiftEndTimeStamp: '2026-10-19T11:30:00' }))?.toISOString()).toBe('2026-10-19T03:30:00.000Z');
+    expect(shiftEnd(row({ ShiftEndTimeStamp: '/Date(1792382400000)/' }))?.getTime()).toBe(1792382400000);
+    expect(shiftEnd(row({ VisitDate: '20261019' }))?.toISOString()).toBe('2026-10-19T04:00:00.000Z');
+    expect(shiftEnd(row({ ShiftName: '夜診' }))?.toISOString()).toBe('2026-10-19T13:30:00.000Z');
+  });
+
+  it('is null for an unknown shift without a timestamp', () => {
+    expect(shiftEnd(row({ ShiftName: '特別門診' }))).toBeNull();
+  });
+});
@@ -0,0 +1,172 @@
+import { ClinicProgress } from '../types';
+import { clinicState } from './progress';
+import { parseTaipeiTime } from './eta';
+import { DEFAULT_LOCALE, Locale, MessageKey, translate } from './i18n';
+import { Ticket, ticketDistance } from './tickets';
+
+export type AlertType = 'approaching' | 'called' | 'passed' | 'paused' | 'resumed' | 'shift-ending';
+
+/** Something worth telling the user about one ticket, raised by comparing two readings of its clinic. */
+export interface Alert {
+  type: AlertType;
+  /** Identifies the occurrence; the same key is never raised twice. */
+  key: string;
+  ticketId: string;
+  item: ClinicProgress;
+  /** Numbers still ahead of the ticket; zero when called, negative once passed. */
+  remaining: number;
+  /** For `passed`: the clinic skipped the number (no-show) rather than simply moving past it. */
+  skipped?: boolean;
+}
+
+export interface AlertOptions {
+  now?: Date;
+  /** Warn this many minutes before the shift closes while the number is still ahead. */
+  shiftEndingMinutes?: number;
+}
+
+type AlertTicket = Pick<Ticket, 'id' | 'clinicCode' | 'shiftCode' | 'number' | 'notifyBefore'>;
+
+interface RuleContext {
+  ticket: AlertTicket;
+  previous: ClinicProgress | undefined;
+  item: ClinicProgress;
+  remaining: number;
+  now: Date;
+  shiftEndingMinutes: number;
+}
+
+type AlertRule = (context: RuleContext) => Omit<Alert, 'ticketId' | 'item' | 'remaining'> | null;
+
+const MINUTE = 60 * 1000;
+
+// Used when a row has no ShiftEndTimeStamp: the usual ends of SKH's clinic sessions.
+const USUAL_SHIFT_END: [RegExp, string][] = [
+  [/上午|早/, '12:00'],
+  [/下午|午/, '17:00'],
+  [/晚|夜/, '21:30']
+];
+
+/** The `HH:mm` a shift normally closes, judged by its ShiftName; null for unknown shifts. */
+export function usualShiftEndClock(shiftName: string) {
+  return USUAL_SHIFT_END.find(([pattern]) => pattern.test(shiftName))?.[1] ?? null;
+}
+
+/**
+ * When a shift closes: its ShiftEndTimeStamp when the hospital gives one,
+ * otherwise the usual closing time for its ShiftName on its VisitDate, in
+ * Taipei time. Null when neither is known.
+ */
+export function shiftEnd(item: Pick<ClinicProgress, 'ShiftName' | 'ShiftEndTimeStamp' | 'VisitDate'>): Date | null {
+  const stamped = parseTaipeiTime(item.ShiftEndTimeStamp, item.VisitDate);
+  if (stamped) return stamped;
+  const clock = usualShiftEndClock(item.ShiftName);
+  return clock ? parseTaipeiTime(clock, item.VisitDate) : null;
+}
+
+/** The clinic announced the ticket's number as a no-show, e.g. "過號". */
+const markedPassed = ({ item, remaining }: RuleContext) => remaining === 0 && /過號/.test(item.CurrentVisitSeqDesc);
+
+const RULES: AlertRule[] = [
+  // Within notifyBefore numbers; keyed by notifyBefore so widening the window alerts again.
+  ({ ticket, item, remaining }) =>
+    remaining > 0 && remaining <= ticket.notifyBefore && clinicState(item) === 'open'
+      ? { type: 'approaching', key: `${ticket.id}:approaching:${ticket.notifyBefore}` }
+      : null,
+
+  context =>
+    context.remaining === 0 && !markedPassed(context)
+      ? { type: 'called', key: `${context.ticket.id}:called` }
+      : null,
+
+  // Passed outright, or skipped: marked as a no-show, or left behind while PassedSeqCount grew.
+  context => {
+    const { ticket, previous, item, remaining } = context;
+    const marked = markedPassed(context);
+    if (remaining > 0 || (remaining === 0 && !marked)) return null;
+    const noShow = !!previous && item.PassedSeqCount > previous.PassedSeqCount;
+    const before = previous ? ticketDistance(ticket, previous) : null;
+    if (before !== null && before < 0) return null;
+    // Moving on after calling the number is expected; only a no-show makes that news.
+    if (before === 0 && !marked && !noShow) return null;
+    return { type: 'passed', key: `${ticket.id}:passed`, skipped: marked || noShow };
+  },
+
+  // Keyed by the number it stopped at, so every pause and resume is reported once.
+  ({ ticket, previous, item, remaining }) => {
+    if (remaining <= 0) return null;
+    const state = clinicState(item);
+    const before = previous ? clinicState(previous) : undefined;
+    if (state === 'paused' && before !== 'paused') return { type: 'paused', key: `${ticket.id}:paused:${item.CurrentVisitSeq}` };
+    if (state === 'open' && before === 'paused') return { type: 'resumed', key: `${ticket.id}:resumed:${item.CurrentVisitSeq}` };
+    return null;
+  },
+
+  ({ ticket, item, remaining, now, shiftEndingMinutes }) => {
+    if (remaining <= 0 || clinicState(item) === 'ended') return null;
+    const end = shiftEnd(item);
+    if (!end) return null;
+    const left = end.getTime() - now.getTime();
+    return left > 0 && left <= shiftEndingMinutes * MINUTE
+      ? { type: 'shift-ending', key: `${ticket.id}:shift-ending:${item.VisitDate}` }
+      : null;
+  }
+];
+
+/**
+ * Alerts for one ticket given its clinic's previous and current rows. Pure:
+ * callers keep the rows between readings and the keys already raised.
+ */
+export function evaluateAlerts(
+  ticket: AlertTicket,
+  previous: ClinicProgress | undefined,
+  item: ClinicProgress | undefined,
+  raised: ReadonlySet<string>,
+  { now = new Date(), shiftEndingMinutes = 30 }: AlertOptions = {}
+): Alert[] {
+  const remaining = ticketDistance(ticket, item);
+  if (!item || remaining === null) return [];
+  const context: RuleContext = { ticket, previous, item, remaining, now, shiftEndingMinutes };
+  return RULES.flatMap(rule => {
+    const alert = rule(context);
+    return alert && !raised.has(alert.key) ? [{ ...alert, ticketId: ticket.id, item, remaining }] : [];
+  });
+}
+
+/** Notification tag for an event at one clinic session, shared by the page's alerts and background pushes. */
+export const notificationTag = (type: string, item: Pick<ClinicProgress, 'ClinicCode' | 'ShiftCode'>, number: number) =>
+  `${type}:${item.ClinicCode}-${item.ShiftCode}-${number}`;
+
+/** Notification title and body for an alert in `locale`. */
+export function describeAlert(alert: Alert, ticket: Pick<Ticket, 'number'>, hospitalName: string, locale: Locale = DEFAULT_LOCALE) {
+  const { item, remaining } = alert;
+  const params = {
+    clinic: `${item.ClinicName} (${item.DoctorName})`,
+    current: item.CurrentVisitSeq,
+    number: ticket.number,
+    remaining,
+    shift: item.ShiftName,
+    reason: item.CurrentVisitSeqDesc
+  };
+  const key = ((): MessageKey => {
+    switch (alert.type) {
+      case 'approaching':
+        return 'alert.approaching';
+      case 'called':
+        return 'alert.called';
+      case 'passed':
+        return alert.skipped ? 'alert.skipped' : 'alert.passed';
+      case 'paused':
+        return item.CurrentVisitSeqDesc ? 'alert.pausedWithReason' : 'alert.paused';
+      case 'resumed':
+        return 'alert.resumed';
+      case 'shift-ending':
+        return 'alert.shiftEnding';
+    }
+  })();
+  return {
+    title: translate(locale, 'alert.title', { hospital: hospitalName }),
+    body: translate(locale, key, params),
+    tag: notificationTag(alert.type, item, ticket.number)
+  };
+}
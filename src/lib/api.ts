@@ -0,0 +1,80 @@
+import { ApiErrorCode, ApiErrorEnvelope, ClientSettings, DivisionProgressResult, HospitalInfo } from '../types';
+import { t } from './locale';
+
+/** Served at the bare `/api/...` paths as well as `/api/:hospital/...`. */
+export const DEFAULT_HOSPITAL: HospitalInfo = { id: 'skh', name: '新光醫院' };
+
+/** A failed API call, carrying the server's error envelope when there was one. */
+export class ApiRequestError extends Error {
+  constructor(
+    public code: ApiErrorCode | 'NETWORK_ERROR' | 'UNKNOWN',
+    message: string,
+    public retryable: boolean,
+    public upstreamStatus?: number
+  ) {
+    super(message);
+  }
+}
+
+export function fromEnvelope(envelope: Partial<ApiErrorEnvelope> | null, status: number) {
+  const error = envelope?.error;
+  if (error && typeof error === 'object' && error.code) {
+    return new ApiRequestError(error.code, error.message, error.retryable, error.upstreamStatus);
+  }
+  return new ApiRequestError('UNKNOWN', `HTTP ${status}`, status >= 500);
+}
+
+/** A division of a batch `/progress` response that failed on its own. */
+export const isDivisionError = (result: DivisionProgressResult): result is ApiErrorEnvelope => 'error' in result;
+
+async function request(url: string, init?: RequestInit) {
+  let res: Response;
+  try {
+    res = await fetch(url, init);
+  } catch (err) {
+    throw new ApiRequestError('NETWORK_ERROR', (err as Error).message, true);
+  }
+  if (!res.ok) {
+    throw fromEnvelope(await res.json().catch(() => null), res.status);
+  }
+  return res;
+}
+
+/** GETs JSON, turning both network failures and error envelopes into ApiRequestError. */
+export async function fetchJson<T>(url: string, init?: RequestInit): Promise<T> {
+  return (await request(url, init)).json();
+}
+
+export interface CachedResponse<T> {
+  data: T;
+  /** The server could not refresh and answered with its last good copy. */
+  stale: boolean;
+  /** When the server fetched the data, in local clock time. */
+  fetchedAt: number;
+}
+
+/** Like fetchJson, plus the server cache's X-Stale and Age headers. */
+export async function fetchCachedJson<T>(url: string, init?: RequestInit): Promise<CachedResponse<T>> {
+  const res = await request(url, init);
+  const age = Number(res.headers.get('Age')) || 0;
+  return {
+    data: await res.json(),
+    stale: res.headers.get('X-Stale') === 'true',
+    fetchedAt: Date.now() - age * 1000
+  };
+}
+
+/** User-facing message for any error thrown while talking to the API, in the current locale. */
+export function describeApiError(err: unknown) {
+  if (!(err instanceof ApiRequestError)) return t('apiError.UNKNOWN');
+  const base = t(`apiError.${err.code}`);
+  const status = err.code === 'UPSTREAM_HTTP_ERROR' && err.upstreamStatus ? ` (${err.upstreamStatus})` : '';
+  return `${base}${status}${err.retryable ? t('apiError.retrying') : ''}`;
+}
+
+/** The `client` section of `/api/config`, or null when the server does not answer with a usable one. */
+export async function fetchClientSettings(): Promise<ClientSettings | null> {
+  const config = await fetchJson<{ client?: ClientSettings }>('/api/config').catch(() => null);
+  const settings = config?.client;
+  return Array.isArray(settings?.refreshIntervals) && settings.refreshIntervals.length > 0 ? settings : null;
+}
@@ -0,0 +1,57 @@
+/**
+ * Reading aids for department names. Names come from the hospital and are
+ * shown as-is in every locale, since that is what the signs in the building
+ * say; readers of other locales get pinyin plus a gloss next to them.
+ */
+
+import { Locale } from './i18n';
+
+interface Hint {
+  pinyin: string;
+  en: string;
+  ja: string;
+}
+
+// Longest terms first so 心臟內科 wins over 內科 when matching inside a longer name.
+const GLOSSARY: [string, Hint][] = ([
+  ['兒童醫學部', { pinyin: 'Értóng Yīxué Bù', en: 'Pediatrics', ja: '小児医学部' }],
+  ['家庭醫學科', { pinyin: 'Jiātíng Yīxué Kē', en: 'Family Medicine', ja: '家庭医学科' }],
+  ['婦產科', { pinyin: 'Fùchǎn Kē', en: 'Obstetrics & Gynecology', ja: '産婦人科' }],
+  ['心臟內科', { pinyin: 'Xīnzàng Nèikē', en: 'Cardiology', ja: '循環器内科' }],
+  ['胸腔內科', { pinyin: 'Xiōngqiāng Nèikē', en: 'Pulmonology', ja: '呼吸器内科' }],
+  ['腸胃內科', { pinyin: 'Chángwèi Nèikē', en: 'Gastroenterology', ja: '消化器内科' }],
+  ['腎臟內科', { pinyin: 'Shènzàng Nèikē', en: 'Nephrology', ja: '腎臓内科' }],
+  ['新陳代謝科', { pinyin: 'Xīnchén Dàixiè Kē', en: 'Endocrinology & Metabolism', ja: '内分泌代謝科' }],
+  ['神經內科', { pinyin: 'Shénjīng Nèikē', en: 'Neurology', ja: '神経内科' }],
+  ['一般外科', { pinyin: 'Yībān Wàikē', en: 'General Surgery', ja: '一般外科' }],
+  ['神經外科', { pinyin: 'Shénjīng Wàikē', en: 'Neurosurgery', ja: '脳神経外科' }],
+  ['骨科', { pinyin: 'Gǔkē', en: 'Orthopedics', ja: '整形外科' }],
+  ['泌尿科', { pinyin: 'Mìniào Kē', en: 'Urology', ja: '泌尿器科' }],
+  ['耳鼻喉科', { pinyin: 'Ěrbíhóu Kē', en: 'Otolaryngology (ENT)', ja: '耳鼻咽喉科' }],
+  ['眼科', { pinyin: 'Yǎnkē', en: 'Ophthalmology', ja: '眼科' }],
+  ['皮膚科', { pinyin: 'Pífū Kē', en: 'Dermatology', ja: '皮膚科' }],
+  ['牙科', { pinyin: 'Yákē', en: 'Dentistry', ja: '歯科' }],
+  ['精神科', { pinyin: 'Jīngshén Kē', en: 'Psychiatry', ja: '精神科' }],
+  ['復健科', { pinyin: 'Fùjiàn Kē', en: 'Rehabilitation', ja: 'リハビリテーション科' }],
+  ['小兒科', { pinyin: 'Xiǎo\'ér Kē', en: 'Pediatrics', ja: '小児科' }],
+  ['中醫科', { pinyin: 'Zhōngyī Kē', en: 'Chinese Medicine', ja: '漢方科' }],
+  ['急診', { pinyin: 'Jízhěn', en: 'Emergency', ja: '救急' }],
+  ['內科部', { pinyin: 'Nèikē Bù', en: 'Internal Medicine', ja: '内科部' }],
+  ['外科部', { pinyin: 'Wàikē Bù', en: 'Surgery', ja: '外科部' }],
+  ['內科', { pinyin: 'Nèikē', en: 'Internal Medicine', ja: '内科' }],
+  ['外科', { pinyin: 'Wàikē', en: 'Surgery', ja: '外科' }]
+] as [string, Hint][]).sort((a, b) => b[0].length - a[0].length);
+
+/**
+ * A short reading aid for a department name in `locale`, e.g. "Xīnzàng Nèikē · Cardiology";
+ * null for zh-TW readers and for names the glossary doesn't cover.
+ */
+export function divisionHint(name: string, locale: Locale): string | null {
+  if (locale === 'zh-TW' || !name) return null;
+  const entry = GLOSSARY.find(([term]) => name === term) ?? GLOSSARY.find(([term]) => name.includes(term));
+  if (!entry) return null;
+  const [term, hint] = entry;
+  // Pinyin only describes the matched term, so leave it out when the name has more to it
+  const reading = name === term ? `${hint.pinyin} · ` : '';
+  return `${reading}${locale === 'ja' ? hint.ja : hint.en}`;
+}
@@ -0,0 +1,177 @@
+import { ClinicProgress } from '../types';
+
+/** A moment at which a clinic was seen showing a given number. */
+export interface SeqObservation {
+  at: number;
+  seq: number;
+}
+
+export interface EtaEstimate {
+  remaining: number;
+  minutesPerNumber: number;
+  expectedAt: Date;
+  earliestAt: Date;
+  latestAt: Date;
+  basis: 'observed' | 'shift';
+}
+
+const MINUTE = 60 * 1000;
+// z-score for an ~80% interval; tight enough to be useful, wide enough to be honest.
+const Z_80 = 1.28;
+// Assumed spread of per-patient time when we have too few observations to measure it.
+const DEFAULT_VARIATION = 0.5;
+// Never claim more certainty than this, however regular the observed pace was.
+const MIN_VARIATION = 0.15;
+const MIN_OBSERVED_INTERVALS = 3;
+// The hospital reports naive local times in Taiwan
+const TAIPEI_OFFSET = '+08:00';
+
+/**
+ * Parses the hospital's timestamps, which arrive as ISO strings, `/Date(ms)/`,
+ * or bare `HH:mm` / `HHmm` times that belong to `visitDate`.
+ */
+export function parseHospitalTime(value: string | null | undefined, visitDate?: string): Date | null {
+  if (!value) return null;
+  const text = String(value).trim();
+
+  const msMatch = text.match(/^\/Date\((\d+)\)\/$/);
+  if (msMatch) return new Date(Number(msMatch[1]));
+
+  const timeMatch = text.match(/^(\d{1,2}):?(\d{2})(?::?(\d{2}))?$/);
+  if (timeMatch) {
+    const day = parseHospitalDate(visitDate) ?? new Date();
+    day.setHours(Number(timeMatch[1]), Number(timeMatch[2]), Number(timeMatch[3] ?? 0), 0);
+    return day;
+  }
+
+  const parsed = new Date(text.replace(/\//g, '-').replace(' ', 'T'));
+  return isNaN(parsed.getTime()) ? null : parsed;
+}
+
+/**
+ * Like `parseHospitalTime`, but reads times without an offset as Taipei time,
+ * where the hospital is, rather than in the browser's time zone.
+ */
+export function parseTaipeiTime(value: string | null | undefined, visitDate?: string): Date | null {
+  if (!value) return null;
+  const text = String(value).trim();
+
+  const msMatch = text.match(/^\/Date\((\d+)\)\/$/);
+  if (msMatch) return new Date(Number(msMatch[1]));
+
+  const timeMatch = text.match(/^(\d{1,2}):?(\d{2})(?::?(\d{2}))?$/);
+  let iso = text.replace(/\//g, '-').replace(' ', 'T');
+  if (timeMatch) {
+    const digits = String(visitDate ?? '').replace(/T.*$/, '').replace(/\D/g, '');
+    if (digits.length !== 8) return null;
+    iso = `${digits.slice(0, 4)}-${digits.slice(4, 6)}-${digits.slice(6, 8)}T${timeMatch[1].padStart(2, '0')}:${timeMatch[2]}:${timeMatch[3] ?? '00'}`;
+  }
+  const parsed = new Date(/[zZ]|[+-]\d{2}:?\d{2}$/.test(iso) ? iso : `${iso}${TAIPEI_OFFSET}`);
+  return isNaN(parsed.getTime()) ? null : parsed;
+}
+
+function parseHospitalDate(value: string | undefined): Date | null {
+  const digits = String(value ?? '').replace(/T.*$/, '').replace(/\D/g, '');
+  if (digits.length !== 8) return null;
+  return new Date(Number(digits.slice(0, 4)), Number(digits.slice(4, 6)) - 1, Number(digits.slice(6, 8)));
+}
+
+/** Appends `seq` to the observation list only when the number actually moved. */
+export function recordObservation(list: SeqObservation[], seq: number, at = Date.now()): SeqObservation[] {
+  if (isNaN(seq)) return list;
+  const last = list[list.length - 1];
+  if (last && last.seq === seq) return list;
+  // A lower number means the shift restarted or the feed was reset.
+  if (last && seq < last.seq) return [{ at, seq }];
+  return [...list.slice(-49), { at, seq }];
+}
+
+/**
+ * Minutes spent per number between consecutive observed changes. The first
+ * observation is when we started watching, not when the number moved, so it
+ * only serves as the starting point of the second.
+ */
+function observedIntervals(observations: SeqObservation[]) {
+  const intervals: number[] = [];
+  for (let i = 2; i < observations.length; i++) {
+    const advanced = observations[i].seq - observations[i - 1].seq;
+    if (advanced <= 0) continue;
+    const perNumber = (observations[i].at - observations[i - 1].at) / MINUTE / advanced;
+    for (let n = 0; n < advanced; n++) intervals.push(perNumber);
+  }
+  return intervals;
+}
+
+function mean(values: number[]) {
+  return values.reduce((sum, v) => sum + v, 0) / values.length;
+}
+
+function stdDev(values: number[], avg: number) {
+  if (values.length < 2) return avg * DEFAULT_VARIATION;
+  return Math.sqrt(values.reduce((sum, v) => sum + (v - avg) ** 2, 0) / (values.length - 1));
+}
+
+/**
+ * Average minutes per patient since the shift began, based on how many numbers
+ * have been handled so far (PassedSeqCount, falling back to the current number).
+ */
+export function shiftPace(item: ClinicProgress, now = Date.now()): number | null {
+  const begin = parseHospitalTime(item.ShiftBeginTimeStamp, item.VisitDate);
+  if (!begin) return null;
+  const elapsed = (now - begin.getTime()) / MINUTE;
+  const handled = Number(item.PassedSeqCount) > 0 ? Number(item.PassedSeqCount) : parseInt(item.CurrentVisitSeq);
+  if (!(elapsed > 0) || !(handled > 0)) return null;
+  return elapsed / handled;
+}
+
+/**
+ * Predicts when `target` will be called at this clinic. Uses the pace observed
+ * during this session once there are enough number changes, otherwise the
+ * average pace since ShiftBeginTimeStamp.
+ */
+export function estimateCallTime(
+  item: ClinicProgress,
+  observations: SeqObservation[],
+  target: number,
+  now = Date.now()
+): EtaEstimate | null {
+  const current = parseInt(item.CurrentVisitSeq);
+  if (isNaN(current) || isNaN(target)) return null;
+  const remaining = target - current;
+  if (remaining <= 0) return null;
+
+  const intervals = observedIntervals(observations);
+  let minutesPerNumber: number;
+  let spread: number;
+  let basis: EtaEstimate['basis'];
+
+  if (intervals.length >= MIN_OBSERVED_INTERVALS) {
+    minutesPerNumber = mean(intervals);
+    spread = Math.max(stdDev(intervals, minutesPerNumber), minutesPerNumber * MIN_VARIATION);
+    basis = 'observed';
+  } else {
+    const pace = shiftPace(item, now);
+    if (pace === null) return null;
+    // Blend in whatever we did observe so the estimate reacts before it is "observed".
+    minutesPerNumber = intervals.length > 0
+      ? (pace * (MIN_OBSERVED_INTERVALS - intervals.length) + mean(intervals) * intervals.length) / MIN_OBSERVED_INTERVALS
+      : pace;
+    spread = minutesPerNumber * DEFAULT_VARIATION;
+    basis = 'shift';
+  }
+
+  const last = observations[observations.length - 1];
+  const anchor = last && last.seq === current ? last.at : now;
+  const expectedMinutes = remaining * minutesPerNumber;
+  const margin = Z_80 * spread * Math.sqrt(remaining);
+  const toDate = (minutes: number) => new Date(Math.max(now, anchor + minutes * MINUTE));
+
+  return {
+    remaining,
+    minutesPerNumber,
+    expectedAt: toDate(expectedMinutes),
+    earliestAt: toDate(Math.max(0, expectedMinutes - margin)),
+    latestAt: toDate(expectedMinutes + margin),
+    basis
+  };
+}
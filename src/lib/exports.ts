@@ -0,0 +1,69 @@
+/**
+ * Links to the server's calendar and export endpoints. Downloads are opened
+ * by the browser, which sends the access cookie; calendar subscriptions are
+ * fetched by the calendar app, so those carry the key in the URL.
+ */
+
+import { accessKey } from './access';
+import { Locale } from './i18n';
+
+type Params = Record<string, string | number | undefined>;
+
+function apiUrl(hospitalId: string, path: string, params: Params) {
+  const search = new URLSearchParams();
+  for (const [name, value] of Object.entries(params)) {
+    if (value !== undefined && value !== '') search.set(name, String(value));
+  }
+  return `/api/${encodeURIComponent(hospitalId)}/${path}?${search}`;
+}
+
+export interface CalendarTarget {
+  hospitalId: string;
+  divisionCode: string;
+  clinicCode: string;
+  shiftCode: string;
+  number: number;
+  /** The session's VisitDate; today when not known yet. */
+  visitDate?: string;
+  locale: Locale;
+}
+
+export function calendarUrl(target: CalendarTarget) {
+  return apiUrl(target.hospitalId, 'calendar.ics', {
+    DivisionCode: target.divisionCode,
+    ClinicCode: target.clinicCode,
+    ShiftCode: target.shiftCode,
+    number: target.number,
+    date: target.visitDate?.slice(0, 10).replace(/\//g, '-'),
+    locale: target.locale
+  });
+}
+
+/** A webcal:// link, which calendar apps offer to subscribe to rather than import once. */
+export function calendarSubscribeUrl(target: CalendarTarget) {
+  const key = accessKey();
+  const url = calendarUrl(target) + (key ? `&key=${encodeURIComponent(key)}` : '');
+  return `webcal://${window.location.host}${url}`;
+}
+
+export type ExportFormat = 'csv' | 'json';
+
+export const progressExportUrl = (hospitalId: string, divisionCode: string, format: ExportFormat) =>
+  apiUrl(hospitalId, 'export/progress', { DivisionCode: divisionCode, format });
+
+export interface TimelineExport {
+  hospitalId: string;
+  kind: 'clinic' | 'doctor';
+  code: string;
+  from: string;
+  to?: string;
+  format: ExportFormat;
+}
+
+export const timelineExportUrl = ({ hospitalId, kind, code, from, to, format }: TimelineExport) =>
+  apiUrl(hospitalId, 'export/timeline', {
+    [kind === 'clinic' ? 'ClinicCode' : 'DoctorEmpNo']: code,
+    from,
+    to,
+    format
+  });
@@ -0,0 +1,141 @@
+/**
+ * Favorite and recently opened divisions and pinned doctors, kept per browser
+ * in localStorage. They can be exported as a JSON file and imported on
+ * another device.
+ */
+
+const STORAGE_KEY = 'easecheck:favorites';
+const MAX_RECENT = 5;
+const FILE_FORMAT = 'easecheck-favorites';
+const FILE_VERSION = 1;
+
+export interface SavedDivision {
+  hospitalId: string;
+  DivisionCode: string;
+  DivisionName: string;
+}
+
+export interface PinnedDoctor {
+  hospitalId: string;
+  DoctorEmpNo: string;
+  DoctorName: string;
+}
+
+export interface Favorites {
+  divisions: SavedDivision[];
+  /** Most recent first; favorites are left out. */
+  recent: SavedDivision[];
+  doctors: PinnedDoctor[];
+}
+
+export const EMPTY_FAVORITES: Favorites = { divisions: [], recent: [], doctors: [] };
+
+const text = (value: unknown) => (typeof value === 'string' && value !== '' ? value : null);
+
+function list<T>(value: unknown, parse: (entry: Record<string, unknown>) => T | null): T[] {
+  if (!Array.isArray(value)) return [];
+  return value.flatMap(entry => {
+    const parsed = entry && typeof entry === 'object' ? parse(entry as Record<string, unknown>) : null;
+    return parsed ? [parsed] : [];
+  });
+}
+
+function parseDivision(entry: Record<string, unknown>): SavedDivision | null {
+  const hospitalId = text(entry.hospitalId);
+  const code = text(entry.DivisionCode);
+  return hospitalId && code ? { hospitalId, DivisionCode: code, DivisionName: text(entry.DivisionName) ?? code } : null;
+}
+
+function parseDoctor(entry: Record<string, unknown>): PinnedDoctor | null {
+  const hospitalId = text(entry.hospitalId);
+  const empNo = text(entry.DoctorEmpNo);
+  return hospitalId && empNo ? { hospitalId, DoctorEmpNo: empNo, DoctorName: text(entry.DoctorName) ?? empNo } : null;
+}
+
+/** The valid entries of `value`; anything malformed is dropped. */
+function parseFavorites(value: unknown): Favorites {
+  const stored = (value && typeof value === 'object' ? value : {}) as Record<string, unknown>;
+  return {
+    divisions: list(stored.divisions, parseDivision),
+    recent: list(stored.recent, parseDivision).slice(0, MAX_RECENT),
+    doctors: list(stored.doctors, parseDoctor)
+  };
+}
+
+export function loadFavorites(): Favorites {
+  try {
+    return parseFavorites(JSON.parse(localStorage.getItem(STORAGE_KEY) ?? '{}'));
+  } catch {
+    return EMPTY_FAVORITES;
+  }
+}
+
+export function saveFavorites(favorites: Favorites) {
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(favorites));
+  } catch {
+    // Private browsing or a full quota: favorites just won't survive a reload.
+  }
+}
+
+const sameDivision = (a: SavedDivision) => (b: SavedDivision) => a.hospitalId === b.hospitalId && a.DivisionCode === b.DivisionCode;
+const sameDoctor = (a: PinnedDoctor) => (b: PinnedDoctor) => a.hospitalId === b.hospitalId && a.DoctorEmpNo === b.DoctorEmpNo;
+
+export const isFavoriteDivision = (favorites: Favorites, hospitalId: string, divisionCode: string) =>
+  favorites.divisions.some(entry => entry.hospitalId === hospitalId && entry.DivisionCode === divisionCode);
+
+export const isPinnedDoctor = (favorites: Favorites, hospitalId: string, doctorEmpNo: string) =>
+  favorites.doctors.some(entry => entry.hospitalId === hospitalId && entry.DoctorEmpNo === doctorEmpNo);
+
+export function toggleFavoriteDivision(favorites: Favorites, division: SavedDivision): Favorites {
+  if (favorites.divisions.some(sameDivision(division))) {
+    return { ...favorites, divisions: favorites.divisions.filter(entry => !sameDivision(division)(entry)) };
+  }
+  return {
+    ...favorites,
+    divisions: [...favorites.divisions, division],
+    recent: favorites.recent.filter(entry => !sameDivision(division)(entry))
+  };
+}
+
+/** Moves `division` to the front of the recent list, unless it is a favorite already. */
+export function recordRecentDivision(favorites: Favorites, division: SavedDivision): Favorites {
+  if (favorites.divisions.some(sameDivision(division))) return favorites;
+  const recent = [division, ...favorites.recent.filter(entry => !sameDivision(division)(entry))].slice(0, MAX_RECENT);
+  return { ...favorites, recent };
+}
+
+export function togglePinnedDoctor(favorites: Favorites, doctor: PinnedDoctor): Favorites {
+  const doctors = favorites.doctors.some(sameDoctor(doctor))
+    ? favorites.doctors.filter(entry => !sameDoctor(doctor)(entry))
+    : [...favorites.doctors, doctor];
+  return { ...favorites, doctors };
+}
+
+/** Rows of pinned doctors first, otherwise in their original order. */
+export function pinnedFirst<T extends { DoctorEmpNo: string }>(favorites: Favorites, hospitalId: string, rows: T[]) {
+  const pinned = (row: T) => (isPinnedDoctor(favorites, hospitalId, row.DoctorEmpNo) ? 0 : 1);
+  return [...rows].sort((a, b) => pinned(a) - pinned(b));
+}
+
+export function exportFavorites(favorites: Favorites) {
+  return JSON.stringify({ format: FILE_FORMAT, version: FILE_VERSION, exportedAt: new Date().toISOString(), ...favorites }, null, 2);
+}
+
+/**
+ * Merges an exported file into `favorites`, keeping what is already saved.
+ * Throws when the text is not an exported favorites file.
+ */
+export function importFavorites(favorites: Favorites, json: string): Favorites {
+  const parsed = JSON.parse(json) as Record<string, unknown> | null;
+  if (!parsed || parsed.format !== FILE_FORMAT || typeof parsed.version !== 'number' || parsed.version > FILE_VERSION) {
+    throw new Error('Not an EaseCheck favorites file');
+  }
+  const incoming = parseFavorites(parsed);
+  const divisions = [...favorites.divisions, ...incoming.divisions.filter(entry => !favorites.divisions.some(sameDivision(entry)))];
+  const recent = [...favorites.recent, ...incoming.recent]
+    .filter((entry, index, all) => all.findIndex(sameDivision(entry)) === index && !divisions.some(sameDivision(entry)))
+    .slice(0, MAX_RECENT);
+  const doctors = [...favorites.doctors, ...incoming.doctors.filter(entry => !favorites.doctors.some(sameDoctor(entry)))];
+  return { divisions, recent, doctors };
+}
@@ -0,0 +1,53 @@
+/**
+ * Message catalogs and locale-aware formatting. Pure so the server can render
+ * notification text in a watch's locale with the same catalogs as the client.
+ */
+
+import en from './locales/en';
+import ja from './locales/ja';
+import zhTW from './locales/zh-TW';
+
+export const LOCALES = ['zh-TW', 'en', 'ja'] as const;
+export type Locale = (typeof LOCALES)[number];
+export const DEFAULT_LOCALE: Locale = 'zh-TW';
+
+/** Each locale's name in its own language, for the switcher. */
+export const LOCALE_NAMES: Record<Locale, string> = {
+  'zh-TW': '繁體中文',
+  en: 'English',
+  ja: '日本語'
+};
+
+export type MessageKey = keyof typeof zhTW;
+export type Catalog = Record<MessageKey, string>;
+export type MessageParams = Record<string, string | number>;
+
+const CATALOGS: Record<Locale, Catalog> = { 'zh-TW': zhTW, en, ja };
+
+export const isLocale = (value: unknown): value is Locale => LOCALES.includes(value as Locale);
+
+/** The catalog entry for `key` with `{name}` placeholders filled from `params`. */
+export function translate(locale: Locale, key: MessageKey, params: MessageParams = {}) {
+  const template = CATALOGS[locale][key] ?? zhTW[key];
+  return template.replace(/\{(\w+)\}/g, (match, name: string) => (name in params ? String(params[name]) : match));
+}
+
+/** Best supported locale for a list of BCP 47 tags in preference order, e.g. navigator.languages. */
+export function matchLocale(tags: readonly string[]): Locale | null {
+  for (const tag of tags) {
+    const lower = tag.toLowerCase();
+    if (lower.startsWith('zh')) return 'zh-TW';
+    if (lower.startsWith('en')) return 'en';
+    if (lower.startsWith('ja')) return 'ja';
+  }
+  return null;
+}
+
+/** A wall-clock time in the locale's own format, e.g. 14:05 or 2:05 PM. */
+export function formatTime(locale: Locale, date: Date | number, seconds = false) {
+  return new Date(date).toLocaleTimeString(locale, {
+    hour: '2-digit',
+    minute: '2-digit',
+    ...(seconds ? { second: '2-digit' } : {})
+  });
+}
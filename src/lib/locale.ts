@@ -0,0 +1,49 @@
+/**
+ * The browser's current locale: an explicit choice kept in localStorage, else
+ * the first supported entry of navigator.languages, else Traditional Chinese.
+ */
+
+import { useSyncExternalStore } from 'react';
+import { DEFAULT_LOCALE, isLocale, Locale, matchLocale, MessageKey, MessageParams, translate } from './i18n';
+
+const STORAGE_KEY = 'easecheck:locale';
+
+function detectLocale(): Locale {
+  try {
+    const stored = localStorage.getItem(STORAGE_KEY);
+    if (isLocale(stored)) return stored;
+  } catch {
+    // Storage blocked: fall through to the browser languages.
+  }
+  return matchLocale(navigator.languages ?? [navigator.language]) ?? DEFAULT_LOCALE;
+}
+
+let current = detectLocale();
+const listeners = new Set<() => void>();
+document.documentElement.lang = current;
+
+export const getLocale = () => current;
+
+export function setLocale(locale: Locale) {
+  current = locale;
+  document.documentElement.lang = locale;
+  try {
+    localStorage.setItem(STORAGE_KEY, locale);
+  } catch {
+    // The choice just won't survive a reload.
+  }
+  listeners.forEach(listener => listener());
+}
+
+function subscribe(listener: () => void) {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+}
+
+/** Translates in the current locale; components re-render on a switch through useLocale. */
+export const t = (key: MessageKey, params?: MessageParams) => translate(current, key, params);
+
+/** The current locale, re-rendering the caller whenever it changes. */
+export const useLocale = (): Locale => useSyncExternalStore(subscribe, getLocale);
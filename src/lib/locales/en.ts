@@ -0,0 +1,208 @@
+import type { Catalog } from '../i18n';
+
+const en: Catalog = {
+  'app.title': '{hospital} Clinic Progress',
+  'app.selectHospital': 'Choose hospital',
+  'app.language': 'Language',
+  'app.hints.show': 'Show department name hints',
+  'app.hints.hide': 'Hide department name hints',
+  'common.loading': 'Loading...',
+  'common.remove': 'Remove',
+
+  'error.badFormat': 'Unexpected data format',
+  'error.divisions': 'Could not load departments: {reason}',
+  'error.linkedDivisionMissing': 'The department in this link ({code}) was not found',
+
+  'form.clinic': 'Clinic',
+  'form.allClinics': 'All clinics',
+  'form.all': 'All',
+  'form.myNumber': 'My number',
+  'form.numberPlaceholder': 'No.',
+  'form.notifyBefore': 'Alert N numbers ahead',
+  'form.notifyBeforeShort': 'Alert at',
+  'form.enterNumberFirst': 'Please enter your number first',
+  'form.selectClinicFirst': 'Please choose a clinic first',
+
+  'notify.unsupported': 'This browser does not support desktop notifications',
+  'notify.denied': 'Notifications were blocked earlier. Allow them in the site settings next to the address bar, then reload the page.',
+  'notify.notGranted': 'Notification permission was not granted. Make sure you clicked "Allow", or check your browser settings.',
+  'notify.requestFailed': 'Could not ask for notification permission. Private browsing may be blocking it.',
+  'notify.enabledTitle': 'Notifications are on',
+  'notify.enabledBody': 'You will be alerted when the clinic gets close to your number.',
+  'notify.permissionDenied': 'Permission denied; enable it in your browser settings',
+  'notify.enable': 'Turn on notifications',
+  'notify.disable': 'Turn off notifications',
+  'notify.chimeOn': 'Turn on notification sound',
+  'notify.chimeOff': 'Turn off notification sound',
+
+  'ticket.add': 'Add to my tickets',
+  'ticket.addShort': 'Add',
+  'ticket.monitoring': 'Watching #{number}',
+  'ticket.monitoringShort': 'Watching',
+  'ticket.setTarget': 'Alert me here',
+  'ticket.setTargetShort': 'Alert',
+
+  'tickets.title': 'My tickets',
+  'tickets.expected': 'Around {time}',
+  'tickets.remaining': '{count} to go',
+  'tickets.currentMine': 'Now / mine',
+  'tickets.status.waiting': 'Waiting',
+  'tickets.status.soon': 'Soon',
+  'tickets.status.called': 'Called',
+  'tickets.status.passed': 'Passed',
+  'tickets.status.paused': 'Paused',
+  'tickets.status.ended': 'Shift ended',
+  'tickets.status.unknown': 'No data',
+
+  'search.placeholder': 'Search departments, doctors or clinics...',
+  'search.results': 'Doctors / clinics',
+  'search.noDoctor': 'Doctor not listed',
+
+  'divisions.title': 'Departments',
+  'divisions.selected': 'Selected: {name}',
+  'divisions.emptyTitle': 'Choose a department',
+  'divisions.emptyBody': 'Pick a department from the list to follow its clinics live.',
+  'favorites.title': 'Favorites',
+  'favorites.recent': 'Recent',
+  'favorites.add': 'Add to favorites',
+  'favorites.remove': 'Remove from favorites',
+  'favorites.pin': 'Pin this doctor',
+  'favorites.unpin': 'Unpin this doctor',
+  'favorites.export': 'Export favorites and pinned doctors',
+  'favorites.import': 'Import favorites and pinned doctors',
+  'favorites.importFailed': 'Could not import: this is not a file exported from EaseCheck',
+
+  'progress.offline': 'Offline',
+  'progress.updated': 'Updated: {time}',
+  'progress.offlinePrefix': 'Offline · ',
+  'progress.stale': 'Data is {seconds}s old',
+  'progress.loading': 'Fetching the latest progress...',
+  'progress.empty': 'No clinics are open in this department right now',
+
+  'clinic.current': 'Now serving',
+  'clinic.next': 'Next',
+  'clinic.checkIns': 'Checked in',
+  'clinic.open': 'Open',
+  'clinic.pausedOrEnded': 'Paused / closed',
+  'clinic.analytics': 'Clinic statistics',
+  'clinic.kiosk': 'Waiting-room display',
+
+  'eta.expected': 'Expected around {time}',
+  'eta.unknown': 'No estimate yet',
+  'eta.basisObserved': 'Based on the pace seen so far',
+  'eta.basisShift': 'Based on the average pace since the clinic opened',
+  'eta.pace': '~{minutes} min per number',
+
+  'channels.title': 'Other notification channels',
+  'channels.emailPlaceholder': 'Email (when called, paused or closed)',
+  'channels.webhookSecretPlaceholder': 'Webhook signing secret (optional)',
+  'channels.apply': 'Apply to all tickets',
+  'channels.applied': 'Applied',
+  'channels.none': 'Not set',
+
+  'apiError.INVALID_PARAMETER': 'Invalid request; please choose the department again',
+  'apiError.NOT_FOUND': 'Not found',
+  'apiError.UPSTREAM_HTTP_ERROR': 'The hospital system returned an error',
+  'apiError.UPSTREAM_UNREACHABLE': 'Cannot reach the hospital system',
+  'apiError.UPSTREAM_INVALID_PAYLOAD': 'The hospital system changed its data format; progress cannot be shown for now',
+  'apiError.UPSTREAM_CIRCUIT_OPEN': 'The hospital system keeps failing; lookups are paused',
+  'apiError.RATE_LIMITED': 'Too many requests; please wait a moment',
+  'apiError.UNAUTHORIZED': 'An access key is required; open the link your administrator provided',
+  'apiError.INTERNAL_ERROR': 'Server error',
+  'apiError.NETWORK_ERROR': 'Network connection lost',
+  'apiError.UNKNOWN': 'Could not update progress',
+  'apiError.retrying': '; retrying automatically',
+
+  'alert.title': '{hospital}: your number',
+  'alert.approaching': '{clinic} is now at {current}; {remaining} to go before your number {number}!',
+  'alert.called': '{clinic} has called your number {number}. Please go to the clinic.',
+  'alert.skipped': '{clinic} skipped your number {number}. Please ask the clinic nurse.',
+  'alert.passed': '{clinic} is now at {current}, past your number {number}.',
+  'alert.paused': '{clinic} has paused at number {current}.',
+  'alert.pausedWithReason': '{clinic} has paused ({reason}) at number {current}.',
+  'alert.resumed': '{clinic} has resumed at number {current}; {remaining} to go before your number.',
+  'alert.shiftEnding': 'The {shift} session at {clinic} ends soon; {remaining} to go before your number {number}.',
+
+  'event.approaching.title': '{hospital}: your number',
+  'event.approaching.body': '{clinic} is now at {current}; {remaining} to go before your number {number}!',
+  'event.paused.title': '{hospital}: clinic paused',
+  'event.paused.body': '{clinic} has paused at number {current}; {remaining} to go before your number {number}.',
+  'event.shiftEnded.title': '{hospital}: clinic closed',
+  'event.shiftEnded.body': 'The {shift} session at {clinic} has ended at number {current}; your number {number} was not called.',
+
+  'calendar.name': '{hospital} {clinic} No. {number}',
+  'calendar.summary': 'Clinic visit: {clinic} (No. {number})',
+  'calendar.summaryExpected': 'Clinic visit: {clinic} (No. {number}, around {time})',
+  'calendar.waiting': '{shift} session, now at number {current}; {remaining} to go.',
+  'calendar.called': 'Your number {number} has been called.',
+  'calendar.passed': 'Now at number {current}, past your number {number}.',
+  'calendar.ended': 'The session has ended at number {current}.',
+  'calendar.expected': 'Expected call around {time} ({earliest}–{latest}).',
+  'calendar.updated': 'Updated {time}.',
+  'calendar.alarm': '{clinic} may call number {number} soon',
+  'calendar.subscribe': 'Subscribe in your calendar (updates automatically)',
+  'calendar.download': 'Download calendar file (.ics)',
+  'export.progress': 'Export clinic progress',
+  'export.timeline': 'Export call history',
+
+  'analytics.doctorTitle': 'Doctor statistics',
+  'analytics.clinicTitle': 'Clinic statistics',
+  'analytics.back': 'Back to clinic progress',
+  'analytics.weeks': 'Last {weeks} weeks',
+  'analytics.minutes': '{value} min',
+  'analytics.perPatient': 'Minutes per patient (median)',
+  'analytics.startDelay': 'Late start (median)',
+  'analytics.patients': 'patients',
+  'analytics.sessions': 'sessions',
+  'analytics.byHour': 'Minutes per patient by hour of session',
+  'analytics.byDay': 'Minutes per patient by weekday',
+  'analytics.hour': 'Hour {hour}',
+  'analytics.hourOfShift': 'Hour {hour} of session',
+  'analytics.notEnough': 'Not enough history yet',
+  'analytics.bucketTitle': 'P50 {p50} / P90 {p90} min ({count} samples)',
+  'analytics.tableTitle': 'Per patient (minutes)',
+  'analytics.samples': 'Samples',
+  'analytics.mean': 'Mean',
+  'analytics.overall': 'All',
+  'analytics.adviceBefore': 'With',
+  'analytics.adviceAfter': 'numbers ahead, expect about {typical} minutes, {slow} at worst.',
+  'analytics.doctors': 'Doctors',
+  'analytics.doctorSessions': '{count} sessions',
+  'analytics.recentSessions': 'Recent sessions',
+  'analytics.date': 'Date',
+  'analytics.shift': 'Session',
+  'analytics.clinic': 'Clinic',
+  'analytics.doctor': 'Doctor',
+  'analytics.startDelayShort': 'Late start',
+  'analytics.perPatientShort': 'Per patient',
+  'analytics.numbersCalled': 'Called',
+
+  'overview.title': 'Department overview',
+  'overview.open': 'Show all of these departments on one screen',
+  'overview.setupHint': 'Add the department codes to show to the address, for example',
+  'overview.back': 'Back',
+  'overview.empty': 'No clinics in session',
+  'overview.clinics': '{count} clinics',
+  'kiosk.title': 'Waiting-room display',
+  'kiosk.setupHint': 'Add the department codes to show to the address, for example',
+  'kiosk.options': 'Options: rotate (seconds per page), per (clinics per page), speak=0 (no speech), chime=0 (no chime)',
+  'kiosk.fallbackTitle': 'Clinic progress',
+  'kiosk.doctor': 'Dr. {name}',
+  'kiosk.ended': 'Closed',
+  'kiosk.paused': 'Paused',
+  'kiosk.next': 'Next',
+  'kiosk.passed': '{count} skipped',
+  'kiosk.start': 'Tap to start',
+  'kiosk.startAudio': 'The browser needs one tap before it can play announcements',
+  'kiosk.startFullscreen': 'Enter full screen',
+
+  'weekday.0': 'Sun',
+  'weekday.1': 'Mon',
+  'weekday.2': 'Tue',
+  'weekday.3': 'Wed',
+  'weekday.4': 'Thu',
+  'weekday.5': 'Fri',
+  'weekday.6': 'Sat'
+};
+
+export default en;
@@ -0,0 +1,208 @@
+import type { Catalog } from '../i18n';
+
+const ja: Catalog = {
+  'app.title': '{hospital} 診察進行状況',
+  'app.selectHospital': '病院を選択',
+  'app.language': '言語',
+  'app.hints.show': '診療科名の読みを表示',
+  'app.hints.hide': '診療科名の読みを隠す',
+  'common.loading': '読み込み中...',
+  'common.remove': '削除',
+
+  'error.badFormat': 'データ形式が正しくありません',
+  'error.divisions': '診療科一覧を取得できませんでした：{reason}',
+  'error.linkedDivisionMissing': 'リンクの診療科（{code}）が見つかりません',
+
+  'form.clinic': '診察室',
+  'form.allClinics': 'すべての診察室',
+  'form.all': 'すべて',
+  'form.myNumber': '自分の番号',
+  'form.numberPlaceholder': '番号',
+  'form.notifyBefore': 'N 番前に通知',
+  'form.notifyBeforeShort': 'N 番前',
+  'form.enterNumberFirst': '先に番号を入力してください',
+  'form.selectClinicFirst': '先に診察室を選んでください',
+
+  'notify.unsupported': 'このブラウザはデスクトップ通知に対応していません',
+  'notify.denied': '通知が以前に拒否されています。アドレスバー横のサイト設定で通知を許可し、ページを再読み込みしてください。',
+  'notify.notGranted': '通知の許可を得られませんでした。「許可」を押したか、ブラウザの設定を確認してください。',
+  'notify.requestFailed': '通知の許可を求められませんでした。プライベートブラウズでないか確認してください。',
+  'notify.enabledTitle': '通知をオンにしました',
+  'notify.enabledBody': '番号が近づくとお知らせします。',
+  'notify.permissionDenied': '通知が拒否されています。ブラウザの設定で許可してください',
+  'notify.enable': '通知をオン',
+  'notify.disable': '通知をオフ',
+  'notify.chimeOn': '通知音をオン',
+  'notify.chimeOff': '通知音をオフ',
+
+  'ticket.add': '受付番号に追加',
+  'ticket.addShort': '追加',
+  'ticket.monitoring': '監視中 #{number}',
+  'ticket.monitoringShort': '監視中',
+  'ticket.setTarget': 'ここで通知',
+  'ticket.setTargetShort': '通知',
+
+  'tickets.title': '自分の受付番号',
+  'tickets.expected': '{time} ごろ',
+  'tickets.remaining': 'あと {count} 番',
+  'tickets.currentMine': '現在 / 自分',
+  'tickets.status.waiting': '待機中',
+  'tickets.status.soon': 'まもなく',
+  'tickets.status.called': '呼び出し済み',
+  'tickets.status.passed': '通過',
+  'tickets.status.paused': '中断',
+  'tickets.status.ended': '診察終了',
+  'tickets.status.unknown': 'データなし',
+
+  'search.placeholder': '診療科・医師・診察室を検索...',
+  'search.results': '医師 / 診察室',
+  'search.noDoctor': '医師未登録',
+
+  'divisions.title': '診療科一覧',
+  'divisions.selected': '選択中: {name}',
+  'divisions.emptyTitle': '診療科を選んでください',
+  'divisions.emptyBody': '左の一覧から診療科を選ぶと、診察の進行状況をリアルタイムで確認できます。',
+  'favorites.title': 'お気に入り',
+  'favorites.recent': '最近見た診療科',
+  'favorites.add': 'お気に入りに追加',
+  'favorites.remove': 'お気に入りから外す',
+  'favorites.pin': 'この医師をピン留め',
+  'favorites.unpin': 'ピン留めを外す',
+  'favorites.export': 'お気に入りとピン留めした医師をエクスポート',
+  'favorites.import': 'お気に入りとピン留めした医師をインポート',
+  'favorites.importFailed': 'インポートできません：EaseCheck からエクスポートしたファイルではありません',
+
+  'progress.offline': 'オフライン',
+  'progress.updated': '更新: {time}',
+  'progress.offlinePrefix': 'オフライン · ',
+  'progress.stale': '{seconds} 秒前のデータ',
+  'progress.loading': '最新の進行状況を取得中...',
+  'progress.empty': 'この診療科には現在診察情報がありません',
+
+  'clinic.current': '現在の番号',
+  'clinic.next': '次の番号',
+  'clinic.checkIns': '受付人数',
+  'clinic.open': '診察中',
+  'clinic.pausedOrEnded': '中断/終了',
+  'clinic.analytics': '診察統計',
+  'clinic.kiosk': '待合室表示',
+
+  'eta.expected': '{time} ごろ呼び出し予定',
+  'eta.unknown': 'まだ予測できません',
+  'eta.basisObserved': '今回観測した呼び出し速度に基づく',
+  'eta.basisShift': '診察開始からの平均速度に基づく',
+  'eta.pace': '1 番あたり約 {minutes} 分',
+
+  'channels.title': 'その他の通知方法',
+  'channels.emailPlaceholder': 'メール（呼び出し・中断・終了時に通知）',
+  'channels.webhookSecretPlaceholder': 'Webhook 署名シークレット（任意）',
+  'channels.apply': 'すべての受付番号に適用',
+  'channels.applied': '適用済み',
+  'channels.none': '未設定',
+
+  'apiError.INVALID_PARAMETER': 'リクエストが正しくありません。診療科を選び直してください',
+  'apiError.NOT_FOUND': '見つかりません',
+  'apiError.UPSTREAM_HTTP_ERROR': '病院システムがエラーを返しました',
+  'apiError.UPSTREAM_UNREACHABLE': '病院システムに接続できません',
+  'apiError.UPSTREAM_INVALID_PAYLOAD': '病院システムのデータ形式が変わったため、表示できません',
+  'apiError.UPSTREAM_CIRCUIT_OPEN': '病院システムの異常が続いているため、照会を一時停止しています',
+  'apiError.RATE_LIMITED': 'リクエストが多すぎます。しばらくお待ちください',
+  'apiError.UNAUTHORIZED': 'アクセスキーが必要です。管理者から受け取ったリンクで開いてください',
+  'apiError.INTERNAL_ERROR': 'サーバーエラー',
+  'apiError.NETWORK_ERROR': 'ネットワーク接続が切れました',
+  'apiError.UNKNOWN': '進行状況を更新できませんでした',
+  'apiError.retrying': '。自動的に再試行します',
+
+  'alert.title': '{hospital} 呼び出し通知',
+  'alert.approaching': '{clinic} は現在 {current} 番です。あなたの番号 {number} まであと {remaining} 番！',
+  'alert.called': '{clinic} があなたの番号 {number} を呼び出しました。診察室へお越しください。',
+  'alert.skipped': '{clinic} があなたの番号 {number} を飛ばしました。看護師にお声がけください。',
+  'alert.passed': '{clinic} は現在 {current} 番で、あなたの番号 {number} を過ぎました。',
+  'alert.paused': '{clinic} は {current} 番で診察を中断しています。',
+  'alert.pausedWithReason': '{clinic} は {current} 番で診察を中断しています（{reason}）。',
+  'alert.resumed': '{clinic} は {current} 番から診察を再開しました。あなたの番号まであと {remaining} 番です。',
+  'alert.shiftEnding': '{clinic} の{shift}の診察はまもなく終了します。あなたの番号 {number} まであと {remaining} 番です。',
+
+  'event.approaching.title': '{hospital} 呼び出し通知',
+  'event.approaching.body': '{clinic} は現在 {current} 番です。あなたの番号 {number} まであと {remaining} 番！',
+  'event.paused.title': '{hospital} 診察中断',
+  'event.paused.body': '{clinic} は {current} 番で診察を中断しています。あなたの番号 {number} まであと {remaining} 番です。',
+  'event.shiftEnded.title': '{hospital} 診察終了',
+  'event.shiftEnded.body': '{clinic} の{shift}の診察は {current} 番で終了しました。あなたの番号 {number} は呼ばれていません。',
+
+  'calendar.name': '{hospital} {clinic} {number} 番',
+  'calendar.summary': '{clinic} 受診（{number} 番）',
+  'calendar.summaryExpected': '{clinic} 受診（{number} 番、{time} ごろ）',
+  'calendar.waiting': '{shift}の診察、現在 {current} 番、あと {remaining} 番。',
+  'calendar.called': 'あなたの番号 {number} が呼ばれました。',
+  'calendar.passed': '現在 {current} 番で、あなたの番号 {number} を過ぎました。',
+  'calendar.ended': '診察は {current} 番で終了しました。',
+  'calendar.expected': '{time} ごろ呼び出し予定（{earliest}–{latest}）。',
+  'calendar.updated': '{time} 更新。',
+  'calendar.alarm': '{clinic} がまもなく {number} 番を呼ぶかもしれません',
+  'calendar.subscribe': 'カレンダーに登録（自動更新）',
+  'calendar.download': 'カレンダーファイルをダウンロード (.ics)',
+  'export.progress': '診察進行状況をエクスポート',
+  'export.timeline': '呼び出し履歴をエクスポート',
+
+  'analytics.doctorTitle': '医師の診察統計',
+  'analytics.clinicTitle': '診察室の診察統計',
+  'analytics.back': '診察進行状況に戻る',
+  'analytics.weeks': '直近 {weeks} 週間',
+  'analytics.minutes': '{value} 分',
+  'analytics.perPatient': '患者 1 人あたりの診察時間（中央値）',
+  'analytics.startDelay': '診察開始の遅れ（中央値）',
+  'analytics.patients': '人',
+  'analytics.sessions': '回',
+  'analytics.byHour': '開始後の時間帯別 · 1 人あたりの分数',
+  'analytics.byDay': '曜日別 · 1 人あたりの分数',
+  'analytics.hour': '{hour} 時間目',
+  'analytics.hourOfShift': '開始後 {hour} 時間目',
+  'analytics.notEnough': '記録がまだ足りません',
+  'analytics.bucketTitle': 'P50 {p50} / P90 {p90} 分（{count} 件）',
+  'analytics.tableTitle': '1 人あたり（分）',
+  'analytics.samples': '件数',
+  'analytics.mean': '平均',
+  'analytics.overall': '全体',
+  'analytics.adviceBefore': '前にあと',
+  'analytics.adviceAfter': '番あるとき、通常は約 {typical} 分、遅くとも約 {slow} 分で呼ばれます。',
+  'analytics.doctors': '担当医師',
+  'analytics.doctorSessions': '{count} 回',
+  'analytics.recentSessions': '最近の診察',
+  'analytics.date': '日付',
+  'analytics.shift': '時間帯',
+  'analytics.clinic': '診察室',
+  'analytics.doctor': '医師',
+  'analytics.startDelayShort': '開始の遅れ',
+  'analytics.perPatientShort': '1 人あたり',
+  'analytics.numbersCalled': '呼び出し数',
+
+  'overview.title': '診療科一覧',
+  'overview.open': 'このグループの診療科をまとめて表示',
+  'overview.setupHint': '表示する診療科コードをアドレスに追加してください。例：',
+  'overview.back': '戻る',
+  'overview.empty': '現在診察中の診察室はありません',
+  'overview.clinics': '診察室 {count} 室',
+  'kiosk.title': '呼び出し表示板',
+  'kiosk.setupHint': 'アドレスに表示する診療科コードを追加してください。例：',
+  'kiosk.options': 'オプション：rotate（ページ秒数）、per（1 ページの診察室数）、speak=0（音声なし）、chime=0（チャイムなし）',
+  'kiosk.fallbackTitle': '診察進行状況',
+  'kiosk.doctor': '{name} 医師',
+  'kiosk.ended': '診察終了',
+  'kiosk.paused': '診察中断',
+  'kiosk.next': '次',
+  'kiosk.passed': '飛ばし {count}',
+  'kiosk.start': '画面をタップして開始',
+  'kiosk.startAudio': '音声とチャイムを再生するには一度タップが必要です',
+  'kiosk.startFullscreen': '全画面表示にする',
+
+  'weekday.0': '日曜',
+  'weekday.1': '月曜',
+  'weekday.2': '火曜',
+  'weekday.3': '水曜',
+  'weekday.4': '木曜',
+  'weekday.5': '金曜',
+  'weekday.6': '土曜'
+};
+
+export default ja;
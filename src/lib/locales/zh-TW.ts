@@ -0,0 +1,207 @@
+/** Source catalog: every other locale must define exactly these keys. */
+const zhTW = {
+  'app.title': '{hospital}看診進度',
+  'app.selectHospital': '選擇醫院',
+  'app.language': '語言',
+  'app.hints.show': '顯示科別讀音提示',
+  'app.hints.hide': '隱藏科別讀音提示',
+  'common.loading': '載入中...',
+  'common.remove': '移除',
+
+  'error.badFormat': '資料格式錯誤',
+  'error.divisions': '取得科別清單失敗：{reason}',
+  'error.linkedDivisionMissing': '找不到連結中的科別（{code}）',
+
+  'form.clinic': '診別',
+  'form.allClinics': '全部診別',
+  'form.all': '全部',
+  'form.myNumber': '我的號碼',
+  'form.numberPlaceholder': '號碼',
+  'form.notifyBefore': '前 N 號通知',
+  'form.notifyBeforeShort': '前 N 號',
+  'form.enterNumberFirst': '請先輸入您的號碼',
+  'form.selectClinicFirst': '請先選擇診別',
+
+  'notify.unsupported': '此瀏覽器不支援桌面通知',
+  'notify.denied': '您先前已拒絕通知權限。請在瀏覽器網址列左側的設定中手動開啟通知權限，然後重新整理頁面。',
+  'notify.notGranted': '未能取得通知權限。請確保您已點擊「允許」，或檢查瀏覽器設定。',
+  'notify.requestFailed': '要求通知權限時發生錯誤，請確認您不是在私密瀏覽模式下。',
+  'notify.enabledTitle': '通知功能已開啟',
+  'notify.enabledBody': '當看診進度接近您的號碼時，系統將會發送提醒。',
+  'notify.permissionDenied': '權限已被拒絕，請手動開啟',
+  'notify.enable': '開啟通知',
+  'notify.disable': '關閉通知',
+  'notify.chimeOn': '開啟通知提示音',
+  'notify.chimeOff': '關閉通知提示音',
+
+  'ticket.add': '加入我的號碼牌',
+  'ticket.addShort': '加入',
+  'ticket.monitoring': '監測中 #{number}',
+  'ticket.monitoringShort': '監測',
+  'ticket.setTarget': '設為提醒目標',
+  'ticket.setTargetShort': '提醒',
+
+  'tickets.title': '我的號碼牌',
+  'tickets.expected': '預計 {time}',
+  'tickets.remaining': '還有 {count} 號',
+  'tickets.currentMine': '目前 / 我的',
+  'tickets.status.waiting': '等候中',
+  'tickets.status.soon': '即將到號',
+  'tickets.status.called': '已到號',
+  'tickets.status.passed': '已過號',
+  'tickets.status.paused': '暫停',
+  'tickets.status.ended': '看診結束',
+  'tickets.status.unknown': '無資料',
+
+  'search.placeholder': '搜尋科別、醫師或診間...',
+  'search.results': '醫師 / 診間',
+  'search.noDoctor': '未提供醫師',
+
+  'divisions.title': '科別清單',
+  'divisions.selected': '已選擇: {name}',
+  'divisions.emptyTitle': '請選擇一個科別',
+  'divisions.emptyBody': '從左側清單中選擇您想查看的科別，即可即時追蹤看診進度。',
+  'favorites.title': '常用科別',
+  'favorites.recent': '最近查看',
+  'favorites.add': '加入常用科別',
+  'favorites.remove': '移出常用科別',
+  'favorites.pin': '釘選醫師',
+  'favorites.unpin': '取消釘選',
+  'favorites.export': '匯出常用科別與釘選醫師',
+  'favorites.import': '匯入常用科別與釘選醫師',
+  'favorites.importFailed': '無法匯入：這不是 EaseCheck 匯出的檔案',
+
+  'progress.offline': '離線',
+  'progress.updated': '更新: {time}',
+  'progress.offlinePrefix': '離線中 · ',
+  'progress.stale': '資料為 {seconds} 秒前',
+  'progress.loading': '正在獲取最新進度...',
+  'progress.empty': '目前此科別無看診資訊',
+
+  'clinic.current': '目前號碼',
+  'clinic.next': '下一號',
+  'clinic.checkIns': '報到人數',
+  'clinic.open': '看診中',
+  'clinic.pausedOrEnded': '暫停/結束',
+  'clinic.analytics': '看診統計',
+  'clinic.kiosk': '候診室叫號看板',
+
+  'eta.expected': '預計 {time} 叫號',
+  'eta.unknown': '尚無法預估叫號時間',
+  'eta.basisObserved': '依本次觀察到的叫號速度',
+  'eta.basisShift': '依開診至今的平均速度',
+  'eta.pace': '每號約 {minutes} 分',
+
+  'channels.title': '其他通知管道',
+  'channels.emailPlaceholder': 'Email（到號、暫停、結束時通知）',
+  'channels.webhookSecretPlaceholder': 'Webhook 簽章密鑰（選填）',
+  'channels.apply': '套用到所有號碼牌',
+  'channels.applied': '已套用',
+  'channels.none': '未設定',
+
+  'apiError.INVALID_PARAMETER': '查詢參數有誤，請重新選擇科別',
+  'apiError.NOT_FOUND': '找不到指定的資料',
+  'apiError.UPSTREAM_HTTP_ERROR': '醫院系統回應錯誤',
+  'apiError.UPSTREAM_UNREACHABLE': '無法連線至醫院系統',
+  'apiError.UPSTREAM_INVALID_PAYLOAD': '醫院系統回傳的資料格式有變，暫時無法顯示',
+  'apiError.UPSTREAM_CIRCUIT_OPEN': '醫院系統持續異常，暫停查詢中',
+  'apiError.RATE_LIMITED': '查詢太頻繁，請稍候再試',
+  'apiError.UNAUTHORIZED': '需要存取金鑰，請使用管理者提供的連結開啟',
+  'apiError.INTERNAL_ERROR': '伺服器發生錯誤',
+  'apiError.NETWORK_ERROR': '網路連線中斷',
+  'apiError.UNKNOWN': '更新進度失敗',
+  'apiError.retrying': '，系統將自動重試',
+
+  'alert.title': '{hospital}到號通知',
+  'alert.approaching': '{clinic} 目前號碼 {current}，距離您的號碼 {number} 還有 {remaining} 號！',
+  'alert.called': '{clinic} 已叫到您的號碼 {number}，請前往診間。',
+  'alert.skipped': '{clinic} 已跳過您的號碼 {number}（過號），請洽診間護理師。',
+  'alert.passed': '{clinic} 目前號碼 {current}，已超過您的號碼 {number}。',
+  'alert.paused': '{clinic} 暫停看診，目前號碼 {current}。',
+  'alert.pausedWithReason': '{clinic} 暫停看診（{reason}），目前號碼 {current}。',
+  'alert.resumed': '{clinic} 恢復看診，目前號碼 {current}，距離您的號碼還有 {remaining} 號。',
+  'alert.shiftEnding': '{clinic} {shift}診即將結束，距離您的號碼 {number} 還有 {remaining} 號。',
+
+  'event.approaching.title': '{hospital}到號通知',
+  'event.approaching.body': '{clinic} 目前號碼 {current}，距離您的號碼 {number} 還有 {remaining} 號！',
+  'event.paused.title': '{hospital}暫停看診',
+  'event.paused.body': '{clinic} 暫停看診，目前停在 {current} 號，距離您的號碼 {number} 還有 {remaining} 號。',
+  'event.shiftEnded.title': '{hospital}看診結束',
+  'event.shiftEnded.body': '{clinic} {shift}門診已結束，最後叫到 {current} 號，您的號碼 {number} 未被叫到。',
+
+  'calendar.name': '{hospital} {clinic} {number} 號',
+  'calendar.summary': '{clinic} 看診（{number} 號）',
+  'calendar.summaryExpected': '{clinic} 看診（{number} 號，預計 {time}）',
+  'calendar.waiting': '{shift}診，目前叫到 {current} 號，還有 {remaining} 號。',
+  'calendar.called': '已叫到您的號碼 {number}。',
+  'calendar.passed': '目前叫到 {current} 號，已超過您的號碼 {number}。',
+  'calendar.ended': '門診已結束，最後叫到 {current} 號。',
+  'calendar.expected': '預計 {time} 叫號（{earliest}–{latest}）。',
+  'calendar.updated': '資料更新於 {time}。',
+  'calendar.alarm': '{clinic} 可能即將叫到 {number} 號',
+  'calendar.subscribe': '訂閱行事曆（自動更新）',
+  'calendar.download': '下載行事曆檔 (.ics)',
+  'export.progress': '匯出看診進度',
+  'export.timeline': '匯出叫號紀錄',
+
+  'analytics.doctorTitle': '醫師看診統計',
+  'analytics.clinicTitle': '診間看診統計',
+  'analytics.back': '返回看診進度',
+  'analytics.weeks': '近 {weeks} 週',
+  'analytics.minutes': '{value} 分',
+  'analytics.perPatient': '每位病患看診時間（中位數）',
+  'analytics.startDelay': '開診延遲（中位數）',
+  'analytics.patients': '位病患',
+  'analytics.sessions': '個診次',
+  'analytics.byHour': '開診後每小時 · 每位病患分鐘',
+  'analytics.byDay': '星期 · 每位病患分鐘',
+  'analytics.hour': '第 {hour} 小時',
+  'analytics.hourOfShift': '開診後第 {hour} 小時',
+  'analytics.notEnough': '尚無足夠紀錄',
+  'analytics.bucketTitle': 'P50 {p50} / P90 {p90} 分（{count} 筆）',
+  'analytics.tableTitle': '每位病患（分鐘）',
+  'analytics.samples': '樣本',
+  'analytics.mean': '平均',
+  'analytics.overall': '全部',
+  'analytics.adviceBefore': '前面還有',
+  'analytics.adviceAfter': '號時，通常約 {typical} 分鐘、最慢約 {slow} 分鐘會叫到。',
+  'analytics.doctors': '看診醫師',
+  'analytics.doctorSessions': '{count} 診',
+  'analytics.recentSessions': '最近診次',
+  'analytics.date': '日期',
+  'analytics.shift': '時段',
+  'analytics.clinic': '診間',
+  'analytics.doctor': '醫師',
+  'analytics.startDelayShort': '開診延遲',
+  'analytics.perPatientShort': '每位病患',
+  'analytics.numbersCalled': '叫號數',
+
+  'overview.title': '多科別總覽',
+  'overview.open': '在同一畫面查看這一類的所有科別',
+  'overview.setupHint': '請在網址加上要查看的科別代碼，例如',
+  'overview.back': '返回',
+  'overview.empty': '目前無看診資訊',
+  'overview.clinics': '{count} 個診間',
+  'kiosk.title': '叫號看板',
+  'kiosk.setupHint': '請在網址加上要顯示的診別代碼，例如',
+  'kiosk.options': '可選參數：rotate（每頁秒數）、per（每頁診間數）、speak=0（關閉語音）、chime=0（關閉提示音）',
+  'kiosk.fallbackTitle': '看診進度',
+  'kiosk.doctor': '{name} 醫師',
+  'kiosk.ended': '看診結束',
+  'kiosk.paused': '暫停看診',
+  'kiosk.next': '下一號',
+  'kiosk.passed': '過號 {count}',
+  'kiosk.start': '點擊畫面開始',
+  'kiosk.startAudio': '瀏覽器需要一次點擊才能播放叫號語音與提示音',
+  'kiosk.startFullscreen': '進入全螢幕',
+
+  'weekday.0': '週日',
+  'weekday.1': '週一',
+  'weekday.2': '週二',
+  'weekday.3': '週三',
+  'weekday.4': '週四',
+  'weekday.5': '週五',
+  'weekday.6': '週六'
+};
+
+export default zhTW;
@@ -0,0 +1,48 @@
+import { ClinicProgress } from '../types';
+import { Locale, translate } from './i18n';
+
+/** Identifies one clinic session (clinic, shift and doctor) within a division's progress list. */
+export const progressKey = (item: Pick<ClinicProgress, 'ClinicCode' | 'ShiftCode' | 'DoctorEmpNo'>) =>
+  `${item.ClinicCode}-${item.ShiftCode}-${item.DoctorEmpNo}`;
+
+export type ClinicState = 'open' | 'paused' | 'ended';
+
+/**
+ * A clinic that is not calling ("1") has either paused or closed; SKH only
+ * fills ShiftEndTimeStamp once the shift is over.
+ */
+export function clinicState(item: Pick<ClinicProgress, 'ClinicVisitState' | 'ShiftEndTimeStamp'>): ClinicState {
+  if (item.ClinicVisitState === '1') return 'open';
+  return item.ShiftEndTimeStamp ? 'ended' : 'paused';
+}
+
+/** Why a clinic is not calling, for boards that show it in place of the next number; null while open. */
+export function clinicStatusLabel(item: Pick<ClinicProgress, 'ClinicVisitState' | 'ShiftEndTimeStamp' | 'CurrentVisitSeqDesc'>, locale: Locale) {
+  const state = clinicState(item);
+  if (state === 'open') return null;
+  if (state === 'ended') return translate(locale, 'kiosk.ended');
+  return item.CurrentVisitSeqDesc || translate(locale, 'kiosk.paused');
+}
+
+/** Message pushed by `/api/stream` whenever a division's progress changes. */
+export interface ProgressStreamUpdate {
+  DivisionCode: string;
+  changed: ClinicProgress[];
+  removed: string[];
+  fetchedAt: string;
+}
+
+/** Applies a stream update to a progress list, keeping existing rows in place. */
+export function mergeProgressUpdate(rows: ClinicProgress[], update: Pick<ProgressStreamUpdate, 'changed' | 'removed'>) {
+  const removed = new Set(update.removed);
+  const changed = new Map(update.changed.map(item => [progressKey(item), item]));
+  const merged = rows
+    .filter(item => !removed.has(progressKey(item)))
+    .map(item => {
+      const key = progressKey(item);
+      const next = changed.get(key);
+      if (next) changed.delete(key);
+      return next ?? item;
+    });
+  return [...merged, ...changed.values()];
+}
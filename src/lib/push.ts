@@ -0,0 +1,110 @@
+import { NotificationChannel, PushSubscriptionData, WatchRegistration } from '../types';
+
+const API_BASE = '/api';
+const WATCHES_KEY = 'easecheck:watches';
+
+/** A server-side watch mirroring one ticket, and the settings it was registered with. */
+export interface MirroredWatch {
+  id: string;
+  key: string;
+}
+
+const isPushSupported = () =>
+  typeof navigator !== 'undefined' && 'serviceWorker' in navigator && typeof PushManager !== 'undefined';
+
+/** The worker also caches the app shell for offline use, so it is registered even without push support. */
+export function registerServiceWorker() {
+  if (typeof navigator === 'undefined' || !('serviceWorker' in navigator)) return Promise.resolve(null);
+  return navigator.serviceWorker.register('/sw.js').catch(err => {
+    console.error('Service worker registration failed', err);
+    return null;
+  });
+}
+
+/** Gives the worker the notification title to use for push messages without one; it keeps the latest. */
+export async function shareFallbackTitle(title: string) {
+  if (typeof navigator === 'undefined' || !('serviceWorker' in navigator)) return;
+  const registration = await navigator.serviceWorker.ready;
+  registration.active?.postMessage({ type: 'fallback-title', title });
+}
+
+function urlBase64ToUint8Array(base64: string) {
+  const padded = (base64 + '='.repeat((4 - (base64.length % 4)) % 4)).replace(/-/g, '+').replace(/_/g, '/');
+  const raw = atob(padded);
+  return Uint8Array.from(raw, c => c.charCodeAt(0));
+}
+
+/** Returns this browser's push subscription, creating one with the server's VAPID key if needed. */
+async function getPushSubscription(): Promise<PushSubscriptionData | null> {
+  if (!isPushSupported()) return null;
+  const registration = await navigator.serviceWorker.ready;
+  let subscription = await registration.pushManager.getSubscription();
+  if (!subscription) {
+    const res = await fetch(`${API_BASE}/push/public-key`);
+    if (!res.ok) return null;
+    const { publicKey } = await res.json();
+    subscription = await registration.pushManager.subscribe({
+      userVisibleOnly: true,
+      applicationServerKey: urlBase64ToUint8Array(publicKey)
+    });
+  }
+  return subscription.toJSON() as PushSubscriptionData;
+}
+
+/** Channel types this server can deliver to; email only when SMTP is configured. */
+export async function fetchAvailableChannels(): Promise<NotificationChannel['type'][]> {
+  const res = await fetch(`${API_BASE}/notifications/channels`).catch(() => null);
+  return res?.ok ? res.json() : ['push'];
+}
+
+/**
+ * Registers a background watch on this browser's push subscription (when
+ * `withPush`) plus any extra channels; resolves to its id, or null when no
+ * channel is available.
+ */
+export async function registerWatch(
+  { hospital, ...watch }: Omit<WatchRegistration, 'subscription' | 'channels'>,
+  { withPush = true, extraChannels = [] }: { withPush?: boolean; extraChannels?: NotificationChannel[] } = {}
+): Promise<string | null> {
+  const subscription = withPush ? await getPushSubscription() : null;
+  const channels: NotificationChannel[] = [...(subscription ? [{ type: 'push' as const, subscription }] : []), ...extraChannels];
+  if (channels.length === 0) return null;
+  const res = await fetch(`${API_BASE}/${encodeURIComponent(hospital)}/watches`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ ...watch, channels })
+  });
+  if (!res.ok) return null;
+  const { id } = await res.json();
+  return id;
+}
+
+export function unregisterWatch(id: string) {
+  return fetch(`${API_BASE}/watches/${encodeURIComponent(id)}`, { method: 'DELETE' }).catch(() => undefined);
+}
+
+/**
+ * The watches registered for each ticket id, so a reload takes them over
+ * instead of leaving them to alert alongside new ones.
+ */
+export function loadMirroredWatches(): Map<string, MirroredWatch> {
+  let stored: unknown;
+  try {
+    stored = JSON.parse(localStorage.getItem(WATCHES_KEY) ?? '{}');
+  } catch {
+    return new Map();
+  }
+  const watches = new Map<string, MirroredWatch>();
+  for (const [ticketId, watch] of Object.entries((stored && typeof stored === 'object' ? stored : {}) as Record<string, any>)) {
+    if (typeof watch?.id === 'string' && typeof watch?.key === 'string') watches.set(ticketId, { id: watch.id, key: watch.key });
+  }
+  return watches;
+}
+
+export function saveMirroredWatches(watches: Map<string, MirroredWatch>) {
+  try {
+    localStorage.setItem(WATCHES_KEY, JSON.stringify(Object.fromEntries(watches)));
+  } catch {
+    // As with settings: the watches then expire on the server instead of being taken over.
+  }
+}
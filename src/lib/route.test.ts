@@ -0,0 +1,19 @@
+import { describe, expect, it } from 'vitest';
+import { parseAnalyticsRoute, parseRoute } from './route';
+
+describe('parseRoute', () => {
+  it('reads the division and its query parameters', () => {
+    expect(parseRoute('/division/0110', '?clinic=101&number=37&before=5')).toEqual({
+      hospital: undefined,
+      divisionCode: '0110',
+      clinicCode: '101',
+      number: 37,
+      notifyBefore: 5
+    });
+  });
+
+  it('treats a malformed path segment as no division', () => {
+    expect(parseRoute('/division/%E0%A4%A', '').divisionCode).toBeUndefined();
+    expect(parseAnalyticsRoute('/analytics/doctor/%E0%A4%A', '')).toBeNull();
+  });
+});
@@ -0,0 +1,141 @@
+/**
+ * Shareable monitoring links:
+ *
+ *   /division/:code?clinic=&number=&before=&hospital=
+ *   /analytics/doctor/:DoctorEmpNo?hospital=
+ *   /analytics/clinic/:ClinicCode?hospital=
+ *   /kiosk?divisions=0110,0120&rotate=&per=&speak=&chime=&hospital=
+ *   /overview?divisions=0110,0120&hospital=
+ *
+ * `hospital` is omitted for the default hospital. Everything is optional
+ * except the division code; the code is checked against the division list
+ * before it is used.
+ */
+
+export interface MonitorRoute {
+  hospital?: string;
+  divisionCode?: string;
+  clinicCode?: string;
+  number?: number;
+  notifyBefore?: number;
+}
+
+const CODE_PATTERN = /^[A-Za-z0-9_-]{1,32}$/;
+
+const code = (value: string | null | undefined) => (value && CODE_PATTERN.test(value) ? value : undefined);
+
+/** A code from a path segment; malformed escapes such as `%E0%A4%A` count as no code. */
+function pathCode(segment: string) {
+  try {
+    return code(decodeURIComponent(segment));
+  } catch {
+    return undefined;
+  }
+}
+
+function positiveInt(value: string | null) {
+  const n = Number(value);
+  return value && Number.isInteger(n) && n > 0 ? n : undefined;
+}
+
+export function parseRoute(pathname: string, search: string): MonitorRoute {
+  const match = pathname.match(/^\/division\/([^/]+)\/?$/);
+  const params = new URLSearchParams(search);
+  return {
+    hospital: code(params.get('hospital')),
+    divisionCode: match ? pathCode(match[1]) : undefined,
+    clinicCode: code(params.get('clinic')),
+    number: positiveInt(params.get('number')),
+    notifyBefore: positiveInt(params.get('before'))
+  };
+}
+
+export function formatRoute(route: MonitorRoute, defaultHospital: string) {
+  if (!route.divisionCode) return '/';
+  const params = new URLSearchParams();
+  if (route.clinicCode) params.set('clinic', route.clinicCode);
+  if (route.number) params.set('number', String(route.number));
+  if (route.notifyBefore) params.set('before', String(route.notifyBefore));
+  if (route.hospital && route.hospital !== defaultHospital) params.set('hospital', route.hospital);
+  const query = params.toString();
+  return `/division/${encodeURIComponent(route.divisionCode)}${query ? `?${query}` : ''}`;
+}
+
+export const currentRoute = () => parseRoute(window.location.pathname, window.location.search);
+
+/** The throughput dashboard for one doctor or one clinic. */
+export interface AnalyticsRoute {
+  hospital?: string;
+  kind: 'doctor' | 'clinic';
+  code: string;
+}
+
+export function parseAnalyticsRoute(pathname: string, search: string): AnalyticsRoute | null {
+  const match = pathname.match(/^\/analytics\/(doctor|clinic)\/([^/]+)\/?$/);
+  const target = match ? pathCode(match[2]) : undefined;
+  if (!match || !target) return null;
+  return { hospital: code(new URLSearchParams(search).get('hospital')), kind: match[1] as AnalyticsRoute['kind'], code: target };
+}
+
+export function formatAnalyticsRoute(route: AnalyticsRoute, defaultHospital: string) {
+  const query = route.hospital && route.hospital !== defaultHospital ? `?hospital=${encodeURIComponent(route.hospital)}` : '';
+  return `/analytics/${route.kind}/${encodeURIComponent(route.code)}${query}`;
+}
+
+/** Waiting-room wallboard: every clinic of the listed divisions, paged and announced. */
+export interface KioskRoute {
+  hospital?: string;
+  divisionCodes: string[];
+  /** Seconds each page stays up when the clinics do not fit on one. */
+  rotateSeconds: number;
+  perPage: number;
+  speak: boolean;
+  chime: boolean;
+}
+
+const flag = (value: string | null) => value !== '0' && value !== 'false';
+
+function divisionList(value: string | null) {
+  const codes = (value ?? '')
+    .split(',')
+    .map(item => code(item.trim()))
+    .filter((item): item is string => Boolean(item));
+  return [...new Set(codes)];
+}
+
+export function parseKioskRoute(pathname: string, search: string): KioskRoute | null {
+  if (!/^\/kiosk\/?$/.test(pathname)) return null;
+  const params = new URLSearchParams(search);
+  return {
+    hospital: code(params.get('hospital')),
+    divisionCodes: divisionList(params.get('divisions')),
+    rotateSeconds: positiveInt(params.get('rotate')) ?? 10,
+    perPage: positiveInt(params.get('per')) ?? 8,
+    speak: flag(params.get('speak')),
+    chime: flag(params.get('chime'))
+  };
+}
+
+export function formatKioskRoute(divisionCodes: string[], hospital: string, defaultHospital: string) {
+  const params = new URLSearchParams({ divisions: divisionCodes.join(',') });
+  if (hospital !== defaultHospital) params.set('hospital', hospital);
+  return `/kiosk?${params.toString().replace(/%2C/g, ',')}`;
+}
+
+/** Several divisions side by side, e.g. every sub-division of 內科. */
+export interface OverviewRoute {
+  hospital?: string;
+  divisionCodes: string[];
+}
+
+export function parseOverviewRoute(pathname: string, search: string): OverviewRoute | null {
+  if (!/^\/overview\/?$/.test(pathname)) return null;
+  const params = new URLSearchParams(search);
+  return { hospital: code(params.get('hospital')), divisionCodes: divisionList(params.get('divisions')) };
+}
+
+export function formatOverviewRoute(divisionCodes: string[], hospital: string, defaultHospital: string) {
+  const params = new URLSearchParams({ divisions: divisionCodes.join(',') });
+  if (hospital !== defaultHospital) params.set('hospital', hospital);
+  return `/overview?${params.toString().replace(/%2C/g, ',')}`;
+}
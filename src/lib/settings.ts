@@ -0,0 +1,67 @@
+/** Monitoring settings kept in localStorage so a reload picks up where the user left off. */
+
+import { NotificationChannel } from '../types';
+
+const STORAGE_KEY = 'easecheck:settings';
+
+export interface StoredSettings {
+  hospitalId: string;
+  divisionCode: string | null;
+  targetClinicCode: string;
+  userNumber: string;
+  notifyBefore: number;
+  refreshInterval: number;
+  /** Play a chime with each notification. */
+  chime: boolean;
+  /** Show pinyin and a translation next to department names outside zh-TW. */
+  divisionHints: boolean;
+  /** Browser notifications were switched on; only honoured while permission is still granted. */
+  notify: boolean;
+  /** Webhook and email channels for background alerts. */
+  channels: NotificationChannel[];
+}
+
+function parseChannel(entry: any): NotificationChannel | null {
+  if (entry?.type === 'webhook' && typeof entry.url === 'string') {
+    return typeof entry.secret === 'string' ? { type: 'webhook', url: entry.url, secret: entry.secret } : { type: 'webhook', url: entry.url };
+  }
+  if (entry?.type === 'email' && typeof entry.to === 'string') return { type: 'email', to: entry.to };
+  return null;
+}
+
+/** Whatever valid settings were stored; fields with the wrong type are dropped. */
+export function loadSettings(): Partial<StoredSettings> {
+  let stored: Record<string, unknown>;
+  try {
+    stored = JSON.parse(localStorage.getItem(STORAGE_KEY) ?? '{}') ?? {};
+  } catch {
+    return {};
+  }
+  const text = (value: unknown) => (typeof value === 'string' ? value : undefined);
+  const count = (value: unknown) => (typeof value === 'number' && Number.isInteger(value) && value > 0 ? value : undefined);
+  return {
+    hospitalId: text(stored.hospitalId),
+    divisionCode: text(stored.divisionCode),
+    targetClinicCode: text(stored.targetClinicCode),
+    userNumber: text(stored.userNumber),
+    notifyBefore: count(stored.notifyBefore),
+    refreshInterval: count(stored.refreshInterval),
+    chime: typeof stored.chime === 'boolean' ? stored.chime : undefined,
+    divisionHints: typeof stored.divisionHints === 'boolean' ? stored.divisionHints : undefined,
+    notify: typeof stored.notify === 'boolean' ? stored.notify : undefined,
+    channels: Array.isArray(stored.channels)
+      ? stored.channels.flatMap(entry => {
+        const channel = parseChannel(entry);
+        return channel ? [channel] : [];
+      })
+      : undefined
+  };
+}
+
+export function saveSettings(settings: StoredSettings) {
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(settings));
+  } catch {
+    // Private browsing or a full quota: settings just won't survive a reload.
+  }
+}
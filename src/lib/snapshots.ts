@@ -0,0 +1,42 @@
+import { ClinicProgress } from '../types';
+
+/**
+ * The last progress seen per division, kept in localStorage so a reload
+ * without a connection still shows where each clinic was.
+ */
+
+const STORAGE_KEY = 'easecheck:snapshots';
+const MAX_SNAPSHOTS = 10;
+
+export interface ProgressSnapshotEntry {
+  rows: ClinicProgress[];
+  /** When the data was fetched upstream, in local clock time. */
+  fetchedAt: number;
+}
+
+function readAll(): Record<string, ProgressSnapshotEntry> {
+  try {
+    const parsed = JSON.parse(localStorage.getItem(STORAGE_KEY) ?? '{}');
+    return parsed && typeof parsed === 'object' ? parsed : {};
+  } catch {
+    return {};
+  }
+}
+
+export function loadSnapshot(source: string): ProgressSnapshotEntry | null {
+  const entry = readAll()[source];
+  return entry && Array.isArray(entry.rows) && typeof entry.fetchedAt === 'number' ? entry : null;
+}
+
+/** Stores `rows` for `source`, keeping only the most recently updated divisions. */
+export function saveSnapshot(source: string, rows: ClinicProgress[], fetchedAt: number) {
+  const all = { ...readAll(), [source]: { rows, fetchedAt } };
+  const kept = Object.entries(all)
+    .sort(([, a], [, b]) => b.fetchedAt - a.fetchedAt)
+    .slice(0, MAX_SNAPSHOTS);
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(Object.fromEntries(kept)));
+  } catch {
+    // Quota exceeded: the snapshot is only a convenience.
+  }
+}
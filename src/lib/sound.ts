@@ -0,0 +1,52 @@
+/**
+ * Alert sounds and spoken announcements. Browsers only allow audio after a
+ * user gesture, so the first call should come from (or follow) a click.
+ */
+
+let audioContext: AudioContext | null = null;
+
+function context() {
+  if (!audioContext) {
+    const Context = window.AudioContext || (window as unknown as { webkitAudioContext: typeof AudioContext }).webkitAudioContext;
+    audioContext = new Context();
+  }
+  if (audioContext.state === 'suspended') void audioContext.resume();
+  return audioContext;
+}
+
+/** A soft two-note chime (E6 then C6), each note fading out like a struck bell. */
+export function playChime() {
+  try {
+    const ctx = context();
+    [[1318.5, 0], [1046.5, 0.28]].forEach(([frequency, delay]) => {
+      const start = ctx.currentTime + delay;
+      const oscillator = ctx.createOscillator();
+      const gain = ctx.createGain();
+      oscillator.type = 'sine';
+      oscillator.frequency.setValueAtTime(frequency, start);
+      gain.gain.setValueAtTime(0.0001, start);
+      gain.gain.exponentialRampToValueAtTime(0.2, start + 0.02);
+      gain.gain.exponentialRampToValueAtTime(0.0001, start + 1.2);
+      oscillator.connect(gain);
+      gain.connect(ctx.destination);
+      oscillator.start(start);
+      oscillator.stop(start + 1.25);
+    });
+  } catch (e) {
+    console.error('Audio play failed', e);
+  }
+}
+
+export const canSpeak = () => typeof window !== 'undefined' && 'speechSynthesis' in window;
+
+/** Queues `text` for the speech engine, preferring a Taiwanese Mandarin voice. */
+export function speak(text: string, lang = 'zh-TW') {
+  if (!canSpeak()) return;
+  const utterance = new SpeechSynthesisUtterance(text);
+  const voices = window.speechSynthesis.getVoices();
+  const voice = voices.find(v => v.lang === lang) ?? voices.find(v => v.lang.startsWith(lang.split('-')[0]));
+  if (voice) utterance.voice = voice;
+  utterance.lang = lang;
+  utterance.rate = 0.9;
+  window.speechSynthesis.speak(utterance);
+}
@@ -0,0 +1,46 @@
+import { describe, expect, it } from 'vitest';
+import { ClinicProgress } from '../types';
+import { Ticket, ticketDistance, ticketStatus } from './tickets';
+
+const ticket: Ticket = {
+  id: 't1',
+  hospitalId: 'skh',
+  divisionCode: '0110',
+  divisionName: '家醫科',
+  clinicCode: '101',
+  clinicName: '家醫科一診',
+  shiftCode: '1',
+  shiftName: '上午診',
+  doctorName: '王醫師',
+  number: 10,
+  notifyBefore: 3
+};
+
+const at = (current: number, overrides: Partial<ClinicProgress> = {}) => ({
+  ClinicCode: '101',
+  ShiftCode: '1',
+  ClinicVisitState: '1',
+  ShiftEndTimeStamp: '',
+  CurrentVisitSeq: String(current),
+  ...overrides
+}) as ClinicProgress;
+
+describe('ticketStatus', () => {
+  it('follows the distance to the number while the clinic is open', () => {
+    expect(ticketStatus(ticket, at(2))).toBe('waiting');
+    expect(ticketStatus(ticket, at(7))).toBe('soon');
+    expect(ticketStatus(ticket, at(10))).toBe('called');
+    expect(ticketStatus(ticket, at(11))).toBe('passed');
+  });
+
+  it('tells a paused clinic from one whose shift has ended', () => {
+    expect(ticketStatus(ticket, at(7, { ClinicVisitState: '2' }))).toBe('paused');
+    expect(ticketStatus(ticket, at(7, { ClinicVisitState: '0', ShiftEndTimeStamp: '2026-10-19T11:50:00' }))).toBe('ended');
+  });
+
+  it('is unknown without a row or a readable number', () => {
+    expect(ticketStatus(ticket, undefined)).toBe('unknown');
+    expect(ticketStatus(ticket, at(NaN))).toBe('unknown');
+    expect(ticketDistance(ticket, at(4))).toBe(6);
+  });
+});
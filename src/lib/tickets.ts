@@ -0,0 +1,124 @@
+import { ClinicProgress } from '../types';
+import { clinicState } from './progress';
+
+/** One appointment the user is tracking: a number at a specific clinic session. */
+export interface Ticket {
+  id: string;
+  hospitalId: string;
+  divisionCode: string;
+  divisionName: string;
+  clinicCode: string;
+  clinicName: string;
+  shiftCode: string;
+  shiftName: string;
+  doctorName: string;
+  number: number;
+  notifyBefore: number;
+}
+
+const STORAGE_KEY = 'easecheck:tickets';
+
+export type TicketStatus = 'waiting' | 'soon' | 'called' | 'passed' | 'paused' | 'ended' | 'unknown';
+
+/** Where a ticket's progress comes from: one division at one hospital. */
+export const sourceKey = (hospitalId: string, divisionCode: string) => `${hospitalId}:${divisionCode}`;
+
+export const ticketSource = (ticket: Ticket) => sourceKey(ticket.hospitalId, ticket.divisionCode);
+
+export function parseSourceKey(key: string) {
+  const separator = key.indexOf(':');
+  return { hospitalId: key.slice(0, separator), divisionCode: key.slice(separator + 1) };
+}
+
+export function createTicket(
+  hospitalId: string,
+  division: { DivisionCode: string; DivisionName: string },
+  item: ClinicProgress,
+  number: number,
+  notifyBefore: number
+): Ticket {
+  return {
+    id: typeof crypto !== 'undefined' && 'randomUUID' in crypto ? crypto.randomUUID() : `${Date.now()}-${Math.random()}`,
+    hospitalId,
+    divisionCode: division.DivisionCode,
+    divisionName: division.DivisionName,
+    clinicCode: item.ClinicCode,
+    clinicName: item.ClinicName,
+    shiftCode: item.ShiftCode,
+    shiftName: item.ShiftName,
+    doctorName: item.DoctorName,
+    number,
+    notifyBefore
+  };
+}
+
+export const isTicketFor = (ticket: Ticket, item: ClinicProgress) =>
+  ticket.clinicCode === item.ClinicCode && ticket.shiftCode === item.ShiftCode;
+
+export const findTicketRow = (ticket: Ticket, rows: ClinicProgress[] | undefined) =>
+  rows?.find(item => isTicketFor(ticket, item));
+
+/** Numbers still ahead of the ticket; zero when called, negative once passed. */
+export function ticketDistance(ticket: Pick<Ticket, 'number'>, item: ClinicProgress | undefined): number | null {
+  if (!item) return null;
+  const current = parseInt(item.CurrentVisitSeq);
+  return isNaN(current) ? null : ticket.number - current;
+}
+
+export function ticketStatus(ticket: Ticket, item: ClinicProgress | undefined): TicketStatus {
+  const distance = ticketDistance(ticket, item);
+  if (distance === null) return 'unknown';
+  if (distance < 0) return 'passed';
+  if (distance === 0) return 'called';
+  // Same reading of ClinicVisitState as the alerts: a closed shift is not a pause
+  const state = clinicState(item!);
+  if (state !== 'open') return state;
+  return distance <= ticket.notifyBefore ? 'soon' : 'waiting';
+}
+
+// Tickets are for today's clinics, and the hospital's day is the day in Taipei
+const taipeiDate = () => new Intl.DateTimeFormat('en-CA', { timeZone: 'Asia/Taipei' }).format(new Date());
+
+function parseTicket(entry: unknown): Ticket | null {
+  if (!entry || typeof entry !== 'object') return null;
+  const stored = entry as Record<string, unknown>;
+  const text = (value: unknown) => (typeof value === 'string' ? value : null);
+  const count = (value: unknown) => (typeof value === 'number' && Number.isInteger(value) && value > 0 ? value : null);
+  const fields = {
+    id: text(stored.id),
+    hospitalId: text(stored.hospitalId),
+    divisionCode: text(stored.divisionCode),
+    divisionName: text(stored.divisionName),
+    clinicCode: text(stored.clinicCode),
+    clinicName: text(stored.clinicName),
+    shiftCode: text(stored.shiftCode),
+    shiftName: text(stored.shiftName),
+    doctorName: text(stored.doctorName),
+    number: count(stored.number),
+    notifyBefore: count(stored.notifyBefore)
+  };
+  return Object.values(fields).every(value => value !== null) ? (fields as Ticket) : null;
+}
+
+/** Today's tracked tickets from localStorage; those from an earlier day are dropped. */
+export function loadTickets(): Ticket[] {
+  let stored: Record<string, unknown>;
+  try {
+    stored = JSON.parse(localStorage.getItem(STORAGE_KEY) ?? '{}') ?? {};
+  } catch {
+    return [];
+  }
+  if (stored.date !== taipeiDate() || !Array.isArray(stored.tickets)) return [];
+  return stored.tickets.flatMap(entry => {
+    const ticket = parseTicket(entry);
+    return ticket ? [ticket] : [];
+  });
+}
+
+export function saveTickets(tickets: Ticket[]) {
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify({ date: taipeiDate(), tickets }));
+  } catch {
+    // Private browsing or a full quota: tickets just won't survive a reload.
+  }
+}
@@ -1,10 +1,32 @@
 import {StrictMode} from 'react';
 import {createRoot} from 'react-dom/client';
 import App from './App.tsx';
+import AnalyticsDashboard from './components/AnalyticsDashboard';
+import KioskBoard from './components/KioskBoard';
+import DivisionOverview from './components/DivisionOverview';
 import './index.css';
+import { registerServiceWorker } from './lib/push';
+import { captureAccessKey } from './lib/access';
+import { DEFAULT_HOSPITAL } from './lib/api';
+import { parseAnalyticsRoute, parseKioskRoute, parseOverviewRoute } from './lib/route';
+
+captureAccessKey();
+registerServiceWorker();
+
+const analyticsRoute = parseAnalyticsRoute(window.location.pathname, window.location.search);
+const kioskRoute = parseKioskRoute(window.location.pathname, window.location.search);
+const overviewRoute = parseOverviewRoute(window.location.pathname, window.location.search);
 
 createRoot(document.getElementById('root')!).render(
   <StrictMode>
-    <App />
+    {kioskRoute ? (
+      <KioskBoard route={kioskRoute} defaultHospital={DEFAULT_HOSPITAL.id} />
+    ) : overviewRoute ? (
+      <DivisionOverview route={overviewRoute} defaultHospital={DEFAULT_HOSPITAL.id} />
+    ) : analyticsRoute ? (
+      <AnalyticsDashboard route={analyticsRoute} defaultHospital={DEFAULT_HOSPITAL.id} />
+    ) : (
+      <App />
+    )}
   </StrictMode>,
 );
@@ -1,3 +1,23 @@
+/**
+ * Normalized model shared by the server and the client. Hospital adapters map
+ * their own payloads into these shapes; the field names follow the first
+ * supported hospital (SKH) so existing data and history stay compatible.
+ */
+
+import type { Locale } from './lib/i18n';
+
+/** The `client` section of `/api/config`: what the web client offers its users. */
+export interface ClientSettings {
+  /** Auto-refresh choices, in seconds. */
+  refreshIntervals: number[];
+  defaultRefreshInterval: number;
+}
+
+export interface HospitalInfo {
+  id: string;
+  name: string;
+}
+
 export interface SubDivision {
   DivisionCode: string;
   DivisionName: string;
@@ -33,3 +53,170 @@ export interface ClinicProgress {
   CallSequenceCode: string;
   CheckInCount: string;
 }
+
+export interface ProgressSnapshot {
+  RecordedAt: string;
+  VisitDate: string;
+  ShiftCode: string;
+  ShiftName: string;
+  DivisionCode: string;
+  ClinicCode: string;
+  ClinicName: string;
+  DoctorEmpNo: string;
+  DoctorName: string;
+  ClinicVisitState: string;
+  ShiftBeginTimeStamp: string;
+  ShiftEndTimeStamp: string;
+  CurrentVisitSeq: string;
+  PassedSeqCount: number;
+  CheckInCount: string;
+}
+
+/** One clinic session found by `/api/search`; DivisionCode is the SubDivision to open. */
+export interface DoctorSearchResult {
+  hospital: string;
+  DivisionCode: string;
+  DivisionName: string;
+  ClinicCode: string;
+  ClinicName: string;
+  ShiftCode: string;
+  ShiftName: string;
+  DoctorEmpNo: string;
+  DoctorName: string;
+}
+
+/** Distribution of a measurement in minutes; the percentiles are null without samples. */
+export interface PercentileSummary {
+  count: number;
+  mean: number | null;
+  p50: number | null;
+  p75: number | null;
+  p90: number | null;
+}
+
+/** Minutes per patient within one bucket: hour since the shift began, or day of week (0 = Sunday). */
+export interface ThroughputBucket extends PercentileSummary {
+  bucket: number;
+}
+
+/** One recorded clinic session as seen by `/api/analytics/...`. */
+export interface AnalyticsSession {
+  VisitDate: string;
+  ClinicCode: string;
+  ClinicName: string;
+  ShiftCode: string;
+  ShiftName: string;
+  DoctorEmpNo: string;
+  DoctorName: string;
+  ShiftBeginTimeStamp: string;
+  /** Minutes between ShiftBeginTimeStamp and the first number being called; null unless the opening was recorded. */
+  startDelayMinutes: number | null;
+  numbersCalled: number;
+  minutesPerPatient: number | null;
+}
+
+export interface ThroughputAnalytics {
+  from: string;
+  to: string;
+  minutesPerPatient: PercentileSummary;
+  byHourOfShift: ThroughputBucket[];
+  byDayOfWeek: ThroughputBucket[];
+  startDelayMinutes: PercentileSummary;
+  /** Newest first. */
+  sessions: AnalyticsSession[];
+}
+
+export interface DoctorAnalytics extends ThroughputAnalytics {
+  DoctorEmpNo: string;
+  DoctorName: string;
+}
+
+export interface ClinicAnalytics extends ThroughputAnalytics {
+  ClinicCode: string;
+  ClinicName: string;
+  doctors: Array<{ DoctorEmpNo: string; DoctorName: string; sessions: number }>;
+}
+
+export interface PushSubscriptionData {
+  endpoint: string;
+  keys: {
+    p256dh: string;
+    auth: string;
+  };
+}
+
+/** Where a watch's alerts go. Webhook bodies are a WatchEvent signed with HMAC-SHA256. */
+export type NotificationChannel =
+  | { type: 'push'; subscription: PushSubscriptionData }
+  | { type: 'webhook'; url: string; secret?: string }
+  | { type: 'email'; to: string };
+
+export interface WatchRegistration {
+  hospital: string;
+  DivisionCode: string;
+  ClinicCode: string | null;
+  ShiftCode: string | null;
+  number: number;
+  notifyBefore: number;
+  /** Language of the notification text; zh-TW when omitted. */
+  locale?: Locale;
+  /** Shorthand for a single push channel; either this or `channels` is required. */
+  subscription?: PushSubscriptionData;
+  channels?: NotificationChannel[];
+}
+
+/**
+ * approaching: the number is within notifyBefore of being called.
+ * paused: the clinic stopped calling (ClinicVisitState is not "1").
+ * shift-ended: the clinic's ShiftEndTimeStamp has passed.
+ */
+export type WatchEventType = 'approaching' | 'paused' | 'shift-ended';
+
+export interface WatchEvent {
+  type: WatchEventType;
+  watchId: string;
+  hospital: string;
+  hospitalName: string;
+  DivisionCode: string;
+  ClinicCode: string;
+  ClinicName: string;
+  ShiftCode: string;
+  ShiftName: string;
+  DoctorName: string;
+  CurrentVisitSeq: string;
+  number: number;
+  /** Numbers still ahead of the watched one. */
+  remaining: number;
+  occurredAt: string;
+}
+
+export type ApiErrorCode =
+  | 'INVALID_PARAMETER'
+  | 'NOT_FOUND'
+  | 'UPSTREAM_HTTP_ERROR'
+  | 'UPSTREAM_UNREACHABLE'
+  | 'UPSTREAM_INVALID_PAYLOAD'
+  | 'UPSTREAM_CIRCUIT_OPEN'
+  | 'RATE_LIMITED'
+  | 'UNAUTHORIZED'
+  | 'INTERNAL_ERROR';
+
+/** Body of every non-2xx API response. */
+export interface ApiErrorEnvelope {
+  error: {
+    code: ApiErrorCode;
+    message: string;
+    upstreamStatus?: number;
+    retryable: boolean;
+  };
+}
+
+/** One division's entry in `/api/progress`: its rows, or the error that stopped them. */
+export type DivisionProgressResult =
+  | { rows: ClinicProgress[]; fetchedAt: string; stale: boolean; ageSeconds: number }
+  | ApiErrorEnvelope;
+
+/** `/api/progress?divisions=...`, keyed by DivisionCode. Object keys do not keep the requested order. */
+export interface BatchProgressResponse {
+  divisions: Record<string, DivisionProgressResult>;
+}